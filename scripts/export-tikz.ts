@@ -0,0 +1,182 @@
+// Batch exporter: converts saved TikzSketch scenes (.tikzsketch project files or bare
+// JSON arrays of drawing objects) to .tex files using the same generator as the TikZ
+// code panel.
+//
+// Usage: npm run export:tikz -- [options] <scene file | directory>...
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import type { GridType } from '@/lib/grid';
+import { PROJECT_FILE_EXTENSION, parseProject, type ProjectData } from '@/lib/project';
+import { defaultTikZOptions, findUnsupportedObjects, toTikZ, type TikZOptions } from '@/lib/tikz';
+import { LENGTH_UNITS, type LengthUnit } from '@/lib/units';
+
+const USAGE = `Usage: npm run export:tikz -- [options] <scene file | directory>...
+
+Converts TikzSketch scenes (.tikzsketch projects or JSON arrays of drawing objects)
+to .tex. Directories are scanned for *.tikzsketch and *.json files (not recursively).
+
+Options (defaults match the TikZ code panel):
+  --document-wrapper, --no-document-wrapper  Standalone document with preamble (default: on)
+  --bare                                     Same as --no-document-wrapper
+  --name-comments, --no-name-comments        "% name" comment before named objects (default: on)
+  --name-labels, --no-name-labels            \\node labels for objects with visible names (default: on)
+  --coordinates, --no-coordinates            Draw grid, axes and ticks (default: off)
+  --grid <cartesian|polar|isometric>         Grid type for --coordinates (default: the scene's own)
+  --unit <cm|mm|pt|in>                       Unit of the coordinates (default: the scene's own)
+  --precision <n>                            Decimal places for coordinates (default: ${defaultTikZOptions.precision})
+  -o, --out <dir>                            Output directory (default: next to each scene file)
+  -h, --help                                 Show this message
+`;
+
+// Flags that toggle a boolean TikZ option, with and without the "no-" prefix
+const TOGGLE_FLAGS: { [flag: string]: keyof Omit<TikZOptions, 'precision' | 'gridType' | 'unit'> } = {
+  'document-wrapper': 'documentWrapper',
+  'name-comments': 'nameComments',
+  'name-labels': 'nameLabels',
+  'coordinates': 'coordinates',
+};
+
+const GRID_TYPES: GridType[] = ['cartesian', 'polar', 'isometric'];
+
+interface CliArgs {
+  options: TikZOptions;
+  gridType?: GridType; // Overrides the grid type saved in each scene
+  unit?: LengthUnit; // Overrides the TikZ unit saved in each scene
+  outDir?: string;
+  inputs: string[];
+}
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): CliArgs | null => {
+  const options: TikZOptions = { ...defaultTikZOptions };
+  const inputs: string[] = [];
+  let outDir: string | undefined;
+  let gridType: GridType | undefined;
+  let unit: LengthUnit | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h' || arg === '--help') return null;
+
+    if (arg === '--bare') {
+      options.documentWrapper = false;
+    } else if (arg === '-o' || arg === '--out') {
+      outDir = argv[++i];
+      if (!outDir) throw new UsageError(`${arg} requires a directory`);
+    } else if (arg === '--precision') {
+      const precision = Number(argv[++i]);
+      if (!Number.isInteger(precision) || precision < 0 || precision > 10) {
+        throw new UsageError('--precision must be an integer between 0 and 10');
+      }
+      options.precision = precision;
+    } else if (arg === '--grid') {
+      const value = argv[++i];
+      if (!GRID_TYPES.includes(value as GridType)) {
+        throw new UsageError(`--grid must be one of ${GRID_TYPES.join(', ')}`);
+      }
+      gridType = value as GridType;
+    } else if (arg === '--unit') {
+      const value = argv[++i];
+      if (!LENGTH_UNITS.includes(value as LengthUnit)) {
+        throw new UsageError(`--unit must be one of ${LENGTH_UNITS.join(', ')}`);
+      }
+      unit = value as LengthUnit;
+    } else if (arg.startsWith('--')) {
+      const negated = arg.startsWith('--no-');
+      const key = TOGGLE_FLAGS[arg.slice(negated ? 5 : 2)];
+      if (!key) throw new UsageError(`Unknown option: ${arg}`);
+      options[key] = !negated;
+    } else {
+      inputs.push(arg);
+    }
+  }
+
+  if (inputs.length === 0) throw new UsageError('No scene files or directories given');
+  return { options, gridType, unit, outDir, inputs };
+};
+
+const SCENE_EXTENSIONS = [PROJECT_FILE_EXTENSION, '.json'];
+
+// Expand directories into their scene files
+const collectSceneFiles = (inputs: string[]) => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (!existsSync(input)) throw new UsageError(`No such file or directory: ${input}`);
+    if (statSync(input).isDirectory()) {
+      readdirSync(input)
+        .filter(name => SCENE_EXTENSIONS.includes(extname(name).toLowerCase()))
+        .sort()
+        .forEach(name => files.push(join(input, name)));
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
+
+// Older scene files are migrated the same way the app migrates them when opening a project
+const readScene = (file: string): ProjectData => {
+  return parseProject(readFileSync(file, 'utf8'));
+};
+
+const main = () => {
+  let args: CliArgs | null;
+  let files: string[];
+  try {
+    args = parseArgs(process.argv.slice(2));
+    if (!args) {
+      process.stdout.write(USAGE);
+      return;
+    }
+    files = collectSceneFiles(args.inputs);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`export-tikz: ${err.message}\n`);
+    process.stderr.write(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  if (args.outDir) mkdirSync(args.outDir, { recursive: true });
+
+  let exported = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    let scene: ProjectData;
+    try {
+      scene = readScene(file);
+    } catch (err) {
+      console.error(`${file}: ${err instanceof Error ? err.message : err}`);
+      failed++;
+      continue;
+    }
+
+    const { objects } = scene;
+
+    // Refuse to write a partial picture
+    const unsupported = findUnsupportedObjects(objects);
+    if (unsupported.length > 0) {
+      unsupported.forEach(obj => {
+        console.error(`${file}: unsupported object type '${obj.type}'${obj.name ? ` (${obj.name})` : ''}`);
+      });
+      failed++;
+      continue;
+    }
+
+    const target = join(args.outDir ?? dirname(file), `${basename(file, extname(file))}.tex`);
+    const gridType = args.gridType ?? scene.canvas.gridType ?? args.options.gridType;
+    const unit = args.unit ?? scene.canvas.tikzUnit ?? args.options.unit;
+    writeFileSync(target, toTikZ(objects, { ...args.options, gridType, unit }));
+    console.log(`${file} -> ${target}`);
+    exported++;
+  }
+
+  console.log(`Exported ${exported} of ${files.length} scene${files.length === 1 ? '' : 's'}`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main();
@@ -5,6 +5,8 @@ import Toolbar, { type Tool } from '@/components/Toolbar';
 import CanvasWrapper from '@/components/CanvasWrapper';
 import PropertiesPanel from '@/components/PropertiesPanel';
 import CodeOutput from '@/components/CodeOutput';
+import ProjectMenu from '@/components/ProjectMenu';
+import DocumentLibrary from '@/components/DocumentLibrary';
 import { useAppStore } from '@/lib/store';
 
 export default function Home() {
@@ -133,10 +135,30 @@ export default function Home() {
         case 'C':
           setActiveTool('circle');
           break;
+        case 'w':
+        case 'W':
+          setActiveTool('ellipse');
+          break;
         case 'g':
         case 'G':
           setActiveTool('polygon');
           break;
+        case 's':
+        case 'S':
+          setActiveTool('regular_polygon');
+          break;
+        case 'k':
+        case 'K':
+          setActiveTool('bezier');
+          break;
+        case 'o':
+        case 'O':
+          setActiveTool('arc');
+          break;
+        case 'u':
+        case 'U':
+          setActiveTool('vector');
+          break;
         case 't':
         case 'T':
           setActiveTool('text');
@@ -145,6 +167,10 @@ export default function Home() {
         case 'I':
           setActiveTool('image');
           break;
+        case 'f':
+        case 'F':
+          setActiveTool('function');
+          break;
         case 'q':
         case 'Q':
           setActiveTool('perpendicular');
@@ -169,6 +195,18 @@ export default function Home() {
         case 'B':
           setActiveTool('perp_bisector');
           break;
+        case 'x':
+        case 'X':
+          setActiveTool('intersection');
+          break;
+        case 'j':
+        case 'J':
+          setActiveTool('tangent');
+          break;
+        case 'h':
+        case 'H':
+          setActiveTool('compass');
+          break;
         case 'Escape':
           const store = useAppStore.getState();
           store.clearSelection();
@@ -182,7 +220,8 @@ export default function Home() {
           break;
         case 'Delete':
           if (selectedObjects.length > 0) {
-            useAppStore.getState().deleteSelectedObjects();
+            // Shift+Delete keeps objects constructed from the selection as free objects
+            useAppStore.getState().deleteSelectedObjects(e.shiftKey ? 'orphan' : 'cascade');
           }
           break;
         }
@@ -226,6 +265,8 @@ export default function Home() {
             <div className="text-xs text-gray-400">
               Objects: {objects.length} | Selected: {selectedObjectIds.length}
             </div>
+            <DocumentLibrary />
+            <ProjectMenu />
           </div>
           
           {/* Mobile sidebar toggle */}
@@ -1,11 +1,43 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { Stage, Layer, Line, Circle, Rect, Text, Transformer, Image as KonvaImage } from 'react-konva';
+import { Stage, Layer, Line, Circle, Ellipse, Rect, Shape, Text, Transformer, Image as KonvaImage } from 'react-konva';
 import Konva from 'konva';
 import { useAppStore } from '@/lib/store';
 import type { DrawingObject, Point } from '@/lib/store';
-
+import { setThumbnailRenderer } from '@/lib/documents';
+import { canIntersect, isDraggable } from '@/lib/dependencies';
+import { applyMatrix } from '@/lib/transform';
+import { GRID_SUBDIVISIONS, LENGTH_UNITS, PIXELS_PER_CM, getGridSpacing, getMajorGridSpacing, toUnit, type LengthUnit } from '@/lib/units';
+import { getCurveSegments, isCurve } from '@/lib/expression';
+import { ISOMETRIC_ROW_HEIGHT, POLAR_GRID_ANGLE, snapToGrid, type GridType } from '@/lib/grid';
+import { findSnapTarget, SNAP_TYPE_LABELS, SNAP_TYPES, type SnapTarget } from '@/lib/snapping';
+import { ChevronDown } from 'lucide-react';
+import {
+  ANGLE_ARC_SPACING,
+  RIGHT_ANGLE_SIZE,
+  arcThrough,
+  bezierControlPoints,
+  distance,
+  ellipseExtents,
+  interiorArc,
+  isRightAngle,
+  normalizeArcEnd,
+} from '@/lib/geometry';
+import FunctionInput from '@/components/FunctionInput';
+import CompassModeBar from '@/components/CompassModeBar';
+import RegularPolygonBar from '@/components/RegularPolygonBar';
+
+// Width in pixels of the drawing library thumbnails
+const THUMBNAIL_WIDTH = 160;
+
+// Flat point list for a Konva bezier line: anchor, control, control, anchor, ...
+const getBezierPath = (anchors: Point[], controlPoints: Point[]) => {
+  return anchors.flatMap((anchor, i) => {
+    const controls = i > 0 ? [controlPoints[2 * i - 2] ?? anchors[i - 1], controlPoints[2 * i - 1] ?? anchor] : [];
+    return [...controls, anchor].flatMap(p => [p.x, p.y]);
+  });
+};
 
 interface CanvasProps {
   activeTool?: string;
@@ -63,8 +95,10 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     previewObject,
     isPolygonDrawing,
     currentPolygonPoints,
+    currentBezierHandles,
     constructionMode,
     constructionStep,
+    compassMode,
     isSelectionBoxActive,
     selectionBoxStart,
     selectionBoxEnd,
@@ -88,6 +122,7 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     generateObjectName,
     startPolygonDrawing,
     addPolygonPoint,
+    setBezierHandle,
     finishPolygon,
     cancelPolygon,
     startConstruction,
@@ -104,7 +139,16 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
 
   // State for mouse position and snap targets
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
-  const [snapTarget, setSnapTarget] = useState<any>(null);
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null);
+  const [showSnapTypes, setShowSnapTypes] = useState(false);
+
+  // Bézier drawing: true while the mouse is held after placing an anchor, to pull its handle
+  const isPullingHandle = useRef(false);
+  // Shape of an object while one of its on-canvas handles is being dragged
+  const [handleEdit, setHandleEdit] = useState<{ id: string; updates: Partial<DrawingObject> } | null>(null);
+  const withHandleEdit = (obj: DrawingObject): DrawingObject => (
+    handleEdit?.id === obj.id ? { ...obj, ...handleEdit.updates } : obj
+  );
 
   // State for text editor
   const [textEditorValue, setTextEditorValue] = useState('');
@@ -226,6 +270,16 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     return () => window.removeEventListener('resize', updateSize);
   }, [centerView]);
 
+  // Provide drawing library thumbnails while the canvas is mounted
+  useEffect(() => {
+    setThumbnailRenderer(() => {
+      const stage = stageRef.current;
+      if (!stage || stage.width() === 0) return null;
+      return stage.toDataURL({ mimeType: 'image/png', pixelRatio: THUMBNAIL_WIDTH / stage.width() });
+    });
+    return () => setThumbnailRenderer(null);
+  }, []);
+
   // Update stage position and scale from store
   useEffect(() => {
     const stage = stageRef.current;
@@ -241,49 +295,101 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     
     const lines = [];
     const padding = 1000;
-    const spacing = canvas.gridSpacing;
-    const startX = Math.floor((-canvas.pan.x - padding) / spacing) * spacing;
+    const spacing = getGridSpacing(canvas);
+    const majorSpacing = getMajorGridSpacing(canvas);
+    const isMajor = (value: number) => Math.abs(value / majorSpacing - Math.round(value / majorSpacing)) < 1e-6;
+    const startX = Math.floor((-canvas.pan.x - padding) / majorSpacing) * majorSpacing;
     const endX = Math.floor((-canvas.pan.x + stageSize.width + padding) / spacing) * spacing;
-    const startY = Math.floor((-canvas.pan.y - padding) / spacing) * spacing;
+    const startY = Math.floor((-canvas.pan.y - padding) / majorSpacing) * majorSpacing;
     const endY = Math.floor((-canvas.pan.y + stageSize.height + padding) / spacing) * spacing;
 
-    // Vertical lines - lighter axes
-    for (let x = startX; x <= endX; x += spacing) {
-      lines.push(
-        <Line
-          key={`v-${x}`}
-          points={[x, startY, x, endY]}
-          stroke={x === 0 ? "#6b7280" : "#d1d5db"} // Lighter color for Y-axis
-          strokeWidth={x === 0 ? 2.0 : 0.8} // Reduced thickness
-          opacity={x === 0 ? 0.8 : 0.4} // Reduced opacity for axes
-          listening={false}
-        />
-      );
-    }
+    const gridLineProps = {
+      stroke: '#d1d5db',
+      strokeWidth: 0.8,
+      opacity: 0.4,
+      listening: false,
+    };
+    // Subdivisions between the major lines are fainter
+    const minorLineProps = { ...gridLineProps, opacity: 0.2 };
+    const axisProps = {
+      stroke: '#6b7280',
+      strokeWidth: 2.0,
+      opacity: 0.8,
+      listening: false,
+    };
 
-    // Horizontal lines - lighter axes
-    for (let y = startY; y <= endY; y += spacing) {
-      lines.push(
-        <Line
-          key={`h-${y}`}
-          points={[startX, y, endX, y]}
-          stroke={y === 0 ? "#6b7280" : "#d1d5db"} // Lighter color for X-axis
-          strokeWidth={y === 0 ? 2.0 : 0.8} // Reduced thickness
-          opacity={y === 0 ? 0.8 : 0.4} // Reduced opacity for axes
-          listening={false}
-        />
-      );
+    if (canvas.gridType === 'polar') {
+      // Rings out to the farthest corner of the drawn area, and spokes from the origin
+      const maxRadius = Math.ceil(Math.max(
+        ...[[startX, startY], [endX, startY], [startX, endY], [endX, endY]].map(([x, y]) => Math.hypot(x, y))
+      ) / spacing) * spacing;
+      for (let i = 1; i * spacing <= maxRadius; i++) {
+        const r = i * spacing;
+        lines.push(<Circle key={`ring-${i}`} x={0} y={0} radius={r} {...(isMajor(r) ? gridLineProps : minorLineProps)} />);
+      }
+      for (let angle = 0; angle < 360; angle += POLAR_GRID_ANGLE) {
+        const radians = (angle * Math.PI) / 180;
+        lines.push(
+          <Line
+            key={`spoke-${angle}`}
+            points={[0, 0, maxRadius * Math.cos(radians), maxRadius * Math.sin(radians)]}
+            {...gridLineProps}
+          />
+        );
+      }
+    } else if (canvas.gridType === 'isometric') {
+      // Horizontal rows, and lines at 60° and 120° through the lattice points of row 0
+      const rowHeight = spacing * ISOMETRIC_ROW_HEIGHT;
+      for (let row = Math.ceil(startY / rowHeight); row * rowHeight <= endY; row++) {
+        lines.push(
+          <Line key={`row-${row}`} points={[startX, row * rowHeight, endX, row * rowHeight]} {...gridLineProps} />
+        );
+      }
+      const slant = Math.max(Math.abs(startY), Math.abs(endY)) / Math.sqrt(3);
+      for (let k = Math.floor((startX - slant) / spacing); k * spacing <= endX + slant; k++) {
+        [1, -1].forEach(sign => {
+          lines.push(
+            <Line
+              key={`slant-${sign}-${k}`}
+              points={[k * spacing + (sign * startY) / Math.sqrt(3), startY, k * spacing + (sign * endY) / Math.sqrt(3), endY]}
+              {...gridLineProps}
+            />
+          );
+        });
+      }
+    } else {
+      // Stepped by index so subdivisions do not drift
+      for (let i = 0; startX + i * spacing <= endX; i++) {
+        const x = startX + i * spacing;
+        if (Math.abs(x) > 1e-6) {
+          lines.push(<Line key={`v-${i}`} points={[x, startY, x, endY]} {...(isMajor(x) ? gridLineProps : minorLineProps)} />);
+        }
+      }
+      for (let i = 0; startY + i * spacing <= endY; i++) {
+        const y = startY + i * spacing;
+        if (Math.abs(y) > 1e-6) {
+          lines.push(<Line key={`h-${i}`} points={[startX, y, endX, y]} {...(isMajor(y) ? gridLineProps : minorLineProps)} />);
+        }
+      }
     }
 
+    // Axes over every grid type
+    lines.push(<Line key="axis-y" points={[0, startY, 0, endY]} {...axisProps} />);
+    lines.push(<Line key="axis-x" points={[startX, 0, endX, 0]} {...axisProps} />);
+
     // Add coordinate labels if showCoordinates is enabled
     if (canvas.showCoordinates) {
-      // Smart label spacing: show every grid line for zoom > 1.5, every 2 units otherwise
-      const labelSpacing = canvas.zoom > 1.5 ? spacing : spacing * 2;
+      // Smart label spacing: label every major line for zoom > 1.5, every other one otherwise
+      const labelSpacing = canvas.zoom > 1.5 ? majorSpacing : majorSpacing * 2;
+      // Lengths in the display unit, rounded past floating point noise
+      const toLabel = (pixels: number) => Math.round(toUnit(pixels, canvas.displayUnit) * 1000) / 1000;
+      const labelStartX = Math.ceil(startX / labelSpacing) * labelSpacing;
+      const labelStartY = Math.ceil(startY / labelSpacing) * labelSpacing;
       
       // X-axis labels
-      for (let x = startX; x <= endX; x += labelSpacing) {
-        if (x !== 0) { // Skip origin
-          const tikzValue = (x / 28); // Convert to TikZ coordinates
+      for (let x = labelStartX; x <= endX; x += labelSpacing) {
+        if (Math.abs(x) > 1e-6) { // Skip origin
+          const tikzValue = toLabel(x);
           // Only show integer values or clean half-integers
           const displayValue = tikzValue === Math.floor(tikzValue) ? 
             tikzValue.toFixed(0) : 
@@ -306,9 +412,9 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       }
       
       // Y-axis labels  
-      for (let y = startY; y <= endY; y += labelSpacing) {
-        if (y !== 0) { // Skip origin
-          const tikzValue = (-y / 28); // Convert to TikZ coordinates (flip Y)
+      for (let y = labelStartY; y <= endY; y += labelSpacing) {
+        if (Math.abs(y) > 1e-6) { // Skip origin
+          const tikzValue = toLabel(-y); // Flip Y
           // Only show integer values or clean half-integers
           const displayValue = tikzValue === Math.floor(tikzValue) ? 
             tikzValue.toFixed(0) : 
@@ -374,60 +480,29 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     return transform.point(pointer);
   };
 
-  // Find nearby point for snapping
-  const findNearbyPoint = (worldPos: { x: number; y: number; }) => {
+  // Find the object snap for the cursor. Tangent and perpendicular snaps are measured
+  // from where the current line or the last polygon side starts.
+  const findNearbyPoint = (worldPos: { x: number; y: number; }, excludeIds?: string[]) => {
     if (!canvas.snapToPoints) return null;
     
-    const snapDistance = canvas.snapDistance;
-    let closestTarget: any = null;
-    let closestDistance = snapDistance;
-    
-    for (const obj of objects) {
-      if (!obj.visible) continue;
-      
-      // Check main position for all objects (except lines which use points instead)
-      if (obj.type !== 'line') {
-        const distance = Math.sqrt(
-          Math.pow(worldPos.x - obj.position.x, 2) + 
-          Math.pow(worldPos.y - obj.position.y, 2)
-        );
-        
-        if (distance <= closestDistance) {
-          closestTarget = { point: obj.position, objectId: obj.id, distance, type: 'position' };
-          closestDistance = distance;
-        }
-      }
-      
-      // Check specific points for lines, polygons, etc.
-      if (obj.points && obj.points.length > 0) {
-        for (let i = 0; i < obj.points.length; i++) {
-          const point = obj.points[i];
-          const pointDistance = Math.sqrt(
-            Math.pow(worldPos.x - point.x, 2) + 
-            Math.pow(worldPos.y - point.y, 2)
-          );
-          
-          if (pointDistance <= closestDistance) {
-            closestTarget = { 
-              point, 
-              objectId: obj.id, 
-              distance: pointDistance, 
-              pointIndex: i,
-              type: obj.type === 'line' ? (i === 0 ? 'startpoint' : i === obj.points.length - 1 ? 'endpoint' : 'point') : 'point'
-            };
-            closestDistance = pointDistance;
-          }
-        }
-      }
-    }
-    
-    return closestTarget;
+    const { drawingStartPoint } = useAppStore.getState();
+    const from = isDrawing
+      ? drawingStartPoint ?? undefined
+      : isPolygonDrawing ? currentPolygonPoints[currentPolygonPoints.length - 1] : undefined;
+    return findSnapTarget(worldPos, objects, {
+      types: canvas.snapTypes,
+      distance: canvas.snapDistance,
+      from,
+      excludeIds,
+    });
   };
 
   // Get snapped position or original if no snap
+  // Object snaps win over the grid
   const getSnappedPosition = (worldPos: { x: number; y: number; }) => {
     const nearbyPoint = findNearbyPoint(worldPos);
-    return nearbyPoint ? nearbyPoint.point : worldPos;
+    if (nearbyPoint) return nearbyPoint.point;
+    return canvas.snapToGrid ? snapToGrid(worldPos, canvas.gridType, getGridSpacing(canvas)) : worldPos;
   };
 
   // Get snap target for visual feedback
@@ -575,6 +650,11 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       const objectId = clickedObject.getAttr('objectId');
       
       if (objectId) {
+        // Intersections are between lines and circles, tangents between a circle and a point
+        // or circle; clicks on anything else are ignored
+        const clicked = objects.find(o => o.id === objectId);
+        const accepts = (obj: DrawingObject) => activeTool === 'tangent' ? obj.type === 'circle' || obj.type === 'point' : canIntersect(obj);
+        if (constructionMode === 'select_two_objects' && !(clicked && accepts(clicked))) return;
         addConstructionPoint(objectId);
       }
       return;
@@ -623,14 +703,65 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       return;
     }
 
+    // Handle arc drawing: center, then start point (sets the radius), then end point
+    if (activeTool === 'arc') {
+      const snappedPos = getSnappedPosition(worldPos);
+      
+      if (!isPolygonDrawing) {
+        startPolygonDrawing(snappedPos);
+      } else {
+        addPolygonPoint(snappedPos);
+        if (currentPolygonPoints.length === 2) {
+          finishPolygon();
+        }
+      }
+      return;
+    }
+
+    // Handle Bézier path drawing: click to place anchors, drag to pull their handles
+    if (activeTool === 'bezier') {
+      const snappedPos = getSnappedPosition(worldPos);
+      
+      if (!isPolygonDrawing) {
+        startPolygonDrawing(snappedPos);
+      } else {
+        // Clicking the last anchor again finishes the path
+        const lastPoint = currentPolygonPoints[currentPolygonPoints.length - 1];
+        const distanceToLast = Math.sqrt(
+          Math.pow(snappedPos.x - lastPoint.x, 2) + Math.pow(snappedPos.y - lastPoint.y, 2)
+        );
+        
+        if (distanceToLast < 8 && currentPolygonPoints.length >= 2) {
+          finishPolygon();
+          return;
+        }
+        addPolygonPoint(snappedPos);
+      }
+      isPullingHandle.current = true;
+      return;
+    }
+
     // Handle geometric construction tools
-    if (['perpendicular', 'parallel', 'midpoint', 'angle'].includes(activeTool)) {
+    if (['perpendicular', 'parallel', 'midpoint', 'angle', 'distance', 'perp_bisector', 'intersection', 'tangent', 'compass'].includes(activeTool)) {
       if (activeTool === 'perpendicular' || activeTool === 'parallel') {
-        startConstruction('select_line', { tool: activeTool, throughPoint: worldPos });
+        // Starting on an existing point makes the new line follow that point
+        const snapTarget = findNearbyPoint(worldPos);
+        const throughObject = snapTarget && objects.find(o => o.id === snapTarget.objectId && o.type === 'point');
+        startConstruction('select_line', {
+          tool: activeTool,
+          throughPoint: throughObject ? throughObject.position : getSnappedPosition(worldPos),
+          throughPointId: throughObject ? throughObject.id : undefined,
+        });
       } else if (activeTool === 'midpoint') {
         startConstruction('select_two_points', { tool: activeTool });
       } else if (activeTool === 'angle') {
+        startConstruction('select_three_points', { tool: activeTool });
+      } else if (activeTool === 'distance' || activeTool === 'perp_bisector') {
         startConstruction('select_two_points', { tool: activeTool });
+      } else if (activeTool === 'intersection' || activeTool === 'tangent') {
+        startConstruction('select_two_objects', { tool: activeTool });
+      } else if (activeTool === 'compass') {
+        startConstruction(compassMode === 'center_point' ? 'select_two_points' : 'select_three_points', { tool: activeTool });
       }
       return;
     }
@@ -658,6 +789,7 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
           // Store constraint info
           baseLineId: curveConstraint.object.id,
           pointAId: curveConstraint.type, // Store constraint type
+          construction: curveConstraint.type === 'line' ? 'point_on_line' : 'point_on_circle',
         });
       } else {
         // Create free point with snapping
@@ -703,13 +835,14 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     }
 
     // Handle standard drawing tools
-    if (['line', 'rectangle', 'circle'].includes(activeTool)) {
+    if (['line', 'rectangle', 'circle', 'ellipse', 'vector', 'regular_polygon'].includes(activeTool)) {
       const snappedPos = getSnappedPosition(worldPos);
       startDrawing(snappedPos);
     }
   }, [
     activeTool, 
     constructionMode, 
+    compassMode,
     isPolygonDrawing, 
     currentPolygonPoints,
     isDrawing,
@@ -732,6 +865,8 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     getSnappedPosition,
     getConstrainedPosition,
     findCurveForPoint,
+    findNearbyPoint,
+    objects,
     startTextEditing,
     cancelTextEditing,
     setTextEditorValue,
@@ -746,7 +881,8 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     const worldPos = getWorldPos(stage);
     if (!worldPos) return;
 
-    setMousePosition(worldPos);
+    // Previews that follow the mouse (such as the arc's) show where a click would land
+    setMousePosition(getSnappedPosition(worldPos));
 
     // Update selection box if active
     if (isSelectionBoxActive) {
@@ -754,8 +890,13 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       return;
     }
 
+    if (isPullingHandle.current && isPolygonDrawing) {
+      setBezierHandle(getSnappedPosition(worldPos));
+      return;
+    }
+
     // Check for snap targets
-    if (canvas.snapToPoints && ['point', 'line', 'rectangle', 'circle'].includes(activeTool)) {
+    if (canvas.snapToPoints && ['point', 'line', 'rectangle', 'circle', 'ellipse', 'vector', 'regular_polygon', 'polygon', 'arc', 'bezier'].includes(activeTool)) {
       const target = getSnapTarget(worldPos);
       setSnapTarget(target);
     } else {
@@ -769,10 +910,11 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       const shiftPressed = e.evt.shiftKey;
       updateDrawing(snappedPos, shiftPressed);
     }
-  }, [isDrawing, updateDrawing, canvas.snapToPoints, canvas.snapDistance, objects, activeTool, getSnappedPosition, isSelectionBoxActive, updateSelectionBox]);
+  }, [isDrawing, updateDrawing, canvas.snapToPoints, canvas.snapDistance, canvas.snapTypes, canvas.snapToGrid, canvas.gridType, canvas.displayUnit, canvas.gridSubdivision, objects, activeTool, getSnappedPosition, isSelectionBoxActive, updateSelectionBox, isPolygonDrawing, setBezierHandle]);
 
   // Handle mouse up
   const handleMouseUp = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
+    isPullingHandle.current = false;
     if (isSelectionBoxActive) {
       finishSelectionBox();
     } else if (isDrawing) {
@@ -816,6 +958,39 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       return color;
     };
 
+    // Object updates for a node dragged to `newPos`
+    const getDragUpdates = (newPos: Point): Partial<DrawingObject> => {
+      // UNIFIED logic for all objects with points (line, polygon, etc.)
+      if ((obj.type === 'line' || obj.type === 'polygon') && obj.points && obj.points.length > 0) {
+        // newPos is the drag delta since we render at (0,0)
+        return {
+          position: { x: 0, y: 0 }, // Reset position since points are absolute
+          points: obj.points.map(point => ({
+            x: point.x + newPos.x,
+            y: point.y + newPos.y
+          }))
+        };
+      }
+      if ((obj.type === 'bezier' || obj.type === 'vector') && obj.points && obj.points.length > 0) {
+        const shift = (point: Point) => ({ x: point.x + newPos.x, y: point.y + newPos.y });
+        return {
+          position: shift(obj.points[0]),
+          points: obj.points.map(shift),
+          controlPoints: (obj.controlPoints || []).map(shift)
+        };
+      }
+      // Images are displayed by their center but positioned by their top-left corner
+      if (obj.type === 'image') {
+        return {
+          position: {
+            x: newPos.x - (obj.width || 200) / 2,
+            y: newPos.y - (obj.height || 150) / 2
+          }
+        };
+      }
+      return { position: newPos };
+    };
+
     const commonProps = {
       objectId: obj.id,
       stroke: getColorWithOpacity(obj.stroke, obj.strokeOpacity),
@@ -838,25 +1013,21 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
         
         let newPos = { x: e.target.x(), y: e.target.y() };
         
-        // Handle constrained points (points on curves) - only update visual position
-        if (obj.type === 'point' && obj.baseLineId && obj.pointAId) {
-          const constraintObject = objects.find(o => o.id === obj.baseLineId);
-          if (constraintObject) {
-            const constraintInfo = { object: constraintObject, type: obj.pointAId };
-            newPos = getConstrainedPosition(newPos, constraintInfo);
-          }
-        }
-        
         // Handle circle snapping to points during drag
         if (obj.type === 'circle' && canvas.snapToPoints) {
-          const snapTarget = findNearbyPoint(newPos);
+          const snapTarget = findNearbyPoint(newPos, [obj.id]);
           if (snapTarget) {
             newPos = snapTarget.point;
           }
         }
         
-        // For images, position is center for display but we need to track top-left internally
-        // during drag move, just set the visual position directly
+        // Solve constraints live; points and circles are held where the solver puts them
+        // (e.g. a point on a curve slides along it)
+        const solved = useAppStore.getState().previewDrag(obj.id, getDragUpdates(newPos));
+        if (solved && (obj.type === 'point' || obj.type === 'circle')) {
+          newPos = solved.position;
+        }
+        
         e.target.position(newPos);
       },
       onDragEnd: (e: any) => {
@@ -865,61 +1036,26 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
         
         let newPos = { x: e.target.x(), y: e.target.y() };
         
-        // Handle constrained points (points on curves)
-        if (obj.type === 'point' && obj.baseLineId && obj.pointAId) {
-          const constraintObject = objects.find(o => o.id === obj.baseLineId);
-          if (constraintObject) {
-            const constraintInfo = { object: constraintObject, type: obj.pointAId };
-            newPos = getConstrainedPosition(newPos, constraintInfo);
-          }
-        }
-        
         // Handle circle snapping to points
         if (obj.type === 'circle' && canvas.snapToPoints) {
-          const snapTarget = findNearbyPoint(newPos);
+          const snapTarget = findNearbyPoint(newPos, [obj.id]);
           if (snapTarget) {
             newPos = snapTarget.point;
           }
         }
         
-        // UNIFIED logic for all objects with points (line, polygon, etc.)
-        if ((obj.type === 'line' || obj.type === 'polygon') && obj.points && obj.points.length > 0) {
-          // For objects with points: drag delta = visual position change
-          const deltaX = newPos.x;  // newPos is the drag delta since we render at (0,0)
-          const deltaY = newPos.y;
-          
-          const updatedPoints = obj.points.map(point => ({
-            x: point.x + deltaX,
-            y: point.y + deltaY
-          }));
-          
-          useAppStore.getState().updateObject(obj.id, { 
-            position: { x: 0, y: 0 }, // Reset position since points are absolute
-            points: updatedPoints
-          });
-          
+        // The store solves constraints as part of the update; ending the drag after it
+        // drops the previews of a drag the update refused
+        useAppStore.getState().updateObject(obj.id, getDragUpdates(newPos));
+        useAppStore.getState().endDrag();
+
+        if ((obj.type === 'line' || obj.type === 'polygon' || obj.type === 'bezier' || obj.type === 'vector') && obj.points && obj.points.length > 0) {
           // Reset visual position after updating data
           e.target.position({ x: 0, y: 0 });
-        } else {
-          // Handle image position update - convert from center back to top-left corner
-          if (obj.type === 'image') {
-            const adjustedPos = {
-              x: newPos.x - (obj.width || 200) / 2,
-              y: newPos.y - (obj.height || 150) / 2
-            };
-            useAppStore.getState().updateObject(obj.id, { position: adjustedPos });
-          } else {
-            // Simple position update for shapes without points
-            useAppStore.getState().updateObject(obj.id, { position: newPos });
-          }
         }
-        
-        // Update constrained objects
-        useAppStore.getState().updateConstrainedObjects(obj.id);
-        
-        useAppStore.getState().saveToHistory();
       },
-      draggable: isSelected && activeTool === 'select',
+      // Curves are placed by their expressions and domain
+      draggable: isSelected && activeTool === 'select' && isDraggable(obj) && !isCurve(obj),
     };
 
     switch (obj.type) {
@@ -946,6 +1082,21 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
           />
         );
 
+      case 'ellipse': {
+        const ellipse = withHandleEdit(obj);
+        return (
+          <Ellipse
+            key={obj.id}
+            {...commonProps}
+            x={obj.position.x}
+            y={obj.position.y}
+            radiusX={ellipse.radiusX || 40}
+            radiusY={ellipse.radiusY || 25}
+            rotation={ellipse.rotation || 0}
+          />
+        );
+      }
+
       case 'rectangle':
         return (
           <Rect
@@ -1027,6 +1178,64 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
         }
         return null;
 
+      case 'vector':
+        if (obj.points && obj.points.length >= 2) {
+          const [tail, head] = obj.points;
+          const arrowSize = Math.max(8, obj.strokeWidth * 3);
+          // Dashed copies drawn under the vector: its components, and the vectors a sum is built from
+          const dashedArrows: [Point, Point, string][] = [];
+          if (obj.showComponents) {
+            const corner = { x: head.x, y: tail.y };
+            dashedArrows.push([tail, corner, obj.stroke], [corner, head, obj.stroke]);
+          }
+          const guides = obj.vectorGuides || [];
+          for (let i = 0; i + 1 < guides.length; i += 2) {
+            dashedArrows.push([guides[i], guides[i + 1], '#6b7280']);
+          }
+
+          const elements = dashedArrows.filter(([from, to]) => from.x !== to.x || from.y !== to.y).flatMap(([from, to, color], i) => [
+            <Line
+              key={`${obj.id}-guide-${i}`}
+              points={[from.x, from.y, to.x, to.y]}
+              stroke={color}
+              strokeWidth={1}
+              dash={[6, 4]}
+              listening={false}
+            />,
+            <Line
+              key={`${obj.id}-guide-${i}-head`}
+              points={getArrowPoints(to.x, to.y, Math.atan2(to.y - from.y, to.x - from.x), 8, 'stealth')}
+              fill={color}
+              stroke={color}
+              strokeWidth={1}
+              closed={true}
+              listening={false}
+            />,
+          ]);
+
+          // Points are absolute, so the vector is drawn at (0, 0) like a line
+          elements.push(
+            <Line
+              key={obj.id}
+              {...commonProps}
+              x={0}
+              y={0}
+              points={[tail.x, tail.y, head.x, head.y]}
+            />,
+            <Line
+              key={`${obj.id}-head`}
+              points={getArrowPoints(head.x, head.y, Math.atan2(head.y - tail.y, head.x - tail.x), arrowSize, 'stealth')}
+              fill={obj.stroke}
+              stroke={obj.stroke}
+              strokeWidth={obj.strokeWidth}
+              closed={true}
+              listening={false}
+            />
+          );
+          return elements;
+        }
+        return null;
+
       case 'text':
         const text = obj.text || 'Text';
         const fontSize = obj.fontSize || 16;
@@ -1069,30 +1278,119 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
       case 'angle':
         if (obj.points && obj.points.length >= 3) {
           const [pointA, vertex, pointC] = obj.points;
-          const radius = 30;
+          const angleValue = obj.angleValue || 0;
+          const radius = obj.angleRadius || 20;
+          const { start, sweep } = interiorArc(pointA, vertex, pointC);
+          const startRadians = (start * Math.PI) / 180;
+          const sweepRadians = (sweep * Math.PI) / 180;
+          const arcs = Math.max(1, Math.min(3, obj.angleArcs || 1));
+          const outerRadius = radius + (arcs - 1) * ANGLE_ARC_SPACING;
+          const elements = [];
+          
+          if (isRightAngle(angleValue)) {
+            // Square in the corner instead of an arc
+            const size = radius * RIGHT_ANGLE_SIZE;
+            const u = { x: Math.cos(startRadians) * size, y: Math.sin(startRadians) * size };
+            const w = { x: Math.cos(startRadians + sweepRadians) * size, y: Math.sin(startRadians + sweepRadians) * size };
+            elements.push(
+              <Line
+                key={obj.id}
+                {...commonProps}
+                x={0}
+                y={0}
+                points={[vertex.x + u.x, vertex.y + u.y, vertex.x + u.x + w.x, vertex.y + u.y + w.y, vertex.x + w.x, vertex.y + w.y]}
+                hitStrokeWidth={10}
+              />
+            );
+          } else {
+            for (let i = 0; i < arcs; i++) {
+              const arcRadius = radius + i * ANGLE_ARC_SPACING;
+              elements.push(
+                <Shape
+                  key={i === 0 ? obj.id : `${obj.id}-arc${i}`}
+                  {...commonProps}
+                  fill={undefined}
+                  x={vertex.x}
+                  y={vertex.y}
+                  hitStrokeWidth={10}
+                  sceneFunc={(context, shape) => {
+                    context.beginPath();
+                    context.arc(0, 0, arcRadius, startRadians, startRadians + sweepRadians, false);
+                    context.fillStrokeShape(shape);
+                  }}
+                />
+              );
+            }
+          }
+          
+          const label = obj.angleLabel === 'none' ? ''
+            : obj.angleLabel === 'symbol' ? (obj.angleSymbol || '')
+            : `${Number(angleValue.toFixed(1))}°`;
+          if (label) {
+            // On the bisector, just outside the outermost arc
+            const bisector = startRadians + sweepRadians / 2;
+            elements.push(
+              <Text
+                key={`${obj.id}-text`}
+                x={vertex.x + Math.cos(bisector) * (outerRadius + 12)}
+                y={vertex.y + Math.sin(bisector) * (outerRadius + 12)}
+                offsetX={label.length * 3}
+                offsetY={6}
+                text={label}
+                fontSize={12}
+                fill={obj.stroke}
+                listening={false}
+              />
+            );
+          }
           
-          // Calculate angles
-          const angleA = Math.atan2(pointA.y - vertex.y, pointA.x - vertex.x);
-          const angleC = Math.atan2(pointC.y - vertex.y, pointC.x - vertex.x);
+          return elements;
+        }
+        return null;
+
+      case 'distance':
+        if (obj.points && obj.points.length >= 2) {
+          const [start, end] = obj.points;
+          const length = Math.hypot(end.x - start.x, end.y - start.y);
+          if (length === 0) return null;
+          
+          // Unit normal for the end ticks and the label offset
+          const normalX = -(end.y - start.y) / length;
+          const normalY = (end.x - start.x) / length;
+          const tick = 6;
+          const label = `${toUnit(length, canvas.displayUnit).toFixed(2)} ${canvas.displayUnit}`;
+          const labelX = (start.x + end.x) / 2 + normalX * 12;
+          const labelY = (start.y + end.y) / 2 + normalY * 12;
           
           return (
             <>
-              {/* Angle arc */}
-              <Circle
-                key={`${obj.id}-arc`}
+              {/* Dimension line */}
+              <Line
+                key={obj.id}
                 {...commonProps}
-                x={vertex.x}
-                y={vertex.y}
-                radius={radius}
-                angle={Math.abs(angleC - angleA) * 180 / Math.PI}
-                rotation={Math.min(angleA, angleC) * 180 / Math.PI}
+                x={0}
+                y={0}
+                points={[start.x, start.y, end.x, end.y]}
+                hitStrokeWidth={10}
               />
-              {/* Angle value text */}
+              {/* End ticks */}
+              {[start, end].map((p, index) => (
+                <Line
+                  key={`${obj.id}-tick${index}`}
+                  points={[p.x - normalX * tick, p.y - normalY * tick, p.x + normalX * tick, p.y + normalY * tick]}
+                  stroke={obj.stroke}
+                  strokeWidth={obj.strokeWidth}
+                  listening={false}
+                />
+              ))}
+              {/* Live length label */}
               <Text
                 key={`${obj.id}-text`}
-                x={vertex.x + radius * 0.7}
-                y={vertex.y - 10}
-                text={`${Math.round(obj.angleValue || 0)}°`}
+                x={labelX}
+                y={labelY}
+                offsetX={label.length * 3}
+                offsetY={6}
+                text={label}
                 fontSize={12}
                 fill={obj.stroke}
                 listening={false}
@@ -1102,6 +1400,132 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
         }
         return null;
 
+      case 'perp_bisector':
+        if (obj.points && obj.points.length >= 2) {
+          const elements = [
+            <Line
+              key={obj.id}
+              {...commonProps}
+              x={0}
+              y={0}
+              points={obj.points.flatMap(p => [p.x, p.y])}
+            />
+          ];
+          
+          // Markers are drawn against the bisected segment
+          const pointA = objects.find(o => o.id === obj.pointAId);
+          const pointB = objects.find(o => o.id === obj.pointBId);
+          if (pointA && pointB) {
+            const a = pointA.position;
+            const b = pointB.position;
+            const length = Math.hypot(b.x - a.x, b.y - a.y);
+            if (length > 0) {
+              const ux = (b.x - a.x) / length;
+              const uy = (b.y - a.y) / length;
+              const markerProps = { stroke: obj.stroke, strokeWidth: 1, listening: false };
+              
+              if (obj.showRightAngle) {
+                // Square in the corner counter-clockwise from B, as in the TikZ output
+                const size = 8;
+                const m = obj.position;
+                elements.push(
+                  <Line
+                    key={`${obj.id}-right-angle`}
+                    {...markerProps}
+                    points={[
+                      m.x + ux * size, m.y + uy * size,
+                      m.x + (ux + uy) * size, m.y + (uy - ux) * size,
+                      m.x + uy * size, m.y - ux * size,
+                    ]}
+                  />
+                );
+              }
+              
+              if (obj.showEqualTicks) {
+                const tick = 5;
+                [0.25, 0.75].forEach(t => {
+                  const x = a.x + (b.x - a.x) * t;
+                  const y = a.y + (b.y - a.y) * t;
+                  elements.push(
+                    <Line
+                      key={`${obj.id}-tick-${t}`}
+                      {...markerProps}
+                      points={[x - uy * tick, y + ux * tick, x + uy * tick, y - ux * tick]}
+                    />
+                  );
+                });
+              }
+            }
+          }
+          
+          return elements;
+        }
+        return null;
+
+      case 'arc': {
+        const arcRadius = obj.radius || 30;
+        const kind = obj.arcKind || 'arc';
+        // Canvas angles run clockwise (Y down), so the stored angles are negated
+        const startAngle = obj.startAngle ?? 0;
+        const startRadians = -(startAngle * Math.PI) / 180;
+        const endRadians = -(normalizeArcEnd(startAngle, obj.endAngle ?? 90) * Math.PI) / 180;
+        return (
+          <Shape
+            key={obj.id}
+            {...commonProps}
+            // An open arc has no inside to fill or to click on
+            fill={kind === 'arc' ? undefined : commonProps.fill}
+            x={obj.position.x}
+            y={obj.position.y}
+            hitStrokeWidth={10}
+            sceneFunc={(context, shape) => {
+              context.beginPath();
+              if (kind === 'sector') context.moveTo(0, 0);
+              context.arc(0, 0, arcRadius, startRadians, endRadians, true);
+              if (kind !== 'arc') context.closePath();
+              context.fillStrokeShape(shape);
+            }}
+          />
+        );
+      }
+
+      case 'bezier': {
+        const geometry = withHandleEdit(obj);
+        if (geometry.points && geometry.points.length >= 2) {
+          return (
+            <Line
+              key={obj.id}
+              {...commonProps}
+              x={0}
+              y={0}
+              points={getBezierPath(geometry.points, geometry.controlPoints || [])}
+              bezier={true}
+              hitStrokeWidth={10}
+            />
+          );
+        }
+        return null;
+      }
+
+      case 'function':
+      case 'parametric':
+      case 'polar':
+        // One line per continuous piece of the curve
+        return getCurveSegments({ ...obj, type: obj.type }).map((segment, index) => (
+          <Line
+            key={`${obj.id}-${index}`}
+            {...commonProps}
+            x={0}
+            y={0}
+            points={segment.points.flatMap(p => {
+              const point = { x: p.x * PIXELS_PER_CM, y: -p.y * PIXELS_PER_CM };
+              const { x, y } = obj.curveMatrix ? applyMatrix(obj.curveMatrix, point) : point;
+              return [x, y];
+            })}
+            hitStrokeWidth={10}
+          />
+        ));
+
       case 'image':
         if (obj.imageData && obj.width && obj.height) {
           return (
@@ -1152,6 +1576,77 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
         );
       });
       
+      if (activeTool === 'arc') {
+        // Circle through the cursor until the start is placed, then the arc up to the cursor
+        const center = currentPolygonPoints[0];
+        if (mousePosition && currentPolygonPoints.length === 1) {
+          elements.push(
+            <Circle
+              key="arc-preview-circle"
+              x={center.x}
+              y={center.y}
+              radius={distance(center, mousePosition)}
+              stroke="#3b82f6"
+              strokeWidth={1}
+              opacity={0.6}
+              listening={false}
+              dash={[5, 5]}
+            />
+          );
+        }
+        if (mousePosition && currentPolygonPoints.length === 2) {
+          const arc = arcThrough(center, currentPolygonPoints[1], mousePosition);
+          elements.push(
+            renderObject({
+              id: 'arc-preview',
+              type: 'arc',
+              name: '',
+              visible: true,
+              selected: false,
+              position: center,
+              ...arc,
+              stroke: '#3b82f6',
+              strokeWidth: 2,
+              fill: 'transparent',
+              createdAt: 0,
+            })
+          );
+        }
+        return elements;
+      }
+
+      if (activeTool === 'bezier') {
+        // Path so far, and the handle of the anchor being placed
+        const lastIndex = currentPolygonPoints.length - 1;
+        const anchor = currentPolygonPoints[lastIndex];
+        const handle = currentBezierHandles[lastIndex] ?? anchor;
+        if (currentPolygonPoints.length > 1) {
+          elements.push(
+            <Line
+              key="bezier-preview-line"
+              points={getBezierPath(currentPolygonPoints, bezierControlPoints(currentPolygonPoints, currentBezierHandles))}
+              bezier={true}
+              stroke="#3b82f6"
+              strokeWidth={2}
+              opacity={0.6}
+              listening={false}
+            />
+          );
+        }
+        elements.push(
+          <Line
+            key="bezier-preview-handle"
+            points={[2 * anchor.x - handle.x, 2 * anchor.y - handle.y, handle.x, handle.y]}
+            stroke="#3b82f6"
+            strokeWidth={1}
+            opacity={0.6}
+            listening={false}
+            dash={[3, 3]}
+          />
+        );
+        return elements;
+      }
+
       // Render lines between points
       if (currentPolygonPoints.length > 1) {
         const points = currentPolygonPoints.flatMap(p => [p.x, p.y]);
@@ -1189,6 +1684,178 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     return elements;
   };
 
+  // Anchors and control handles of the selected Bézier curve, dragged to reshape it
+  const renderBezierHandles = () => {
+    if (activeTool !== 'select' || selectedObjectIds.length !== 1) return null;
+    const obj = objects.find(o => o.id === selectedObjectIds[0]);
+    if (!obj || obj.type !== 'bezier' || !obj.visible || !obj.points) return null;
+
+    const edited = withHandleEdit(obj);
+    const points = edited.points || obj.points;
+    const controlPoints = edited.controlPoints || [];
+    const handleSize = 5 / canvas.zoom;
+
+    // Geometry with anchor `index` (and the handles attached to it) or control point `index` moved
+    const moveHandle = (kind: 'anchor' | 'control', index: number, pos: Point) => {
+      if (kind === 'control') {
+        return { points, controlPoints: controlPoints.map((p, i) => (i === index ? pos : p)) };
+      }
+      const dx = pos.x - points[index].x;
+      const dy = pos.y - points[index].y;
+      return {
+        points: points.map((p, i) => (i === index ? pos : p)),
+        controlPoints: controlPoints.map((p, i) => (
+          i === 2 * index || i === 2 * index - 1 ? { x: p.x + dx, y: p.y + dy } : p
+        )),
+      };
+    };
+
+    const dragProps = (kind: 'anchor' | 'control', index: number) => ({
+      draggable: true,
+      onDragStart: (e: Konva.KonvaEventObject<DragEvent>) => {
+        e.cancelBubble = true;
+      },
+      onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => {
+        e.cancelBubble = true;
+        setHandleEdit({ id: obj.id, updates: moveHandle(kind, index, { x: e.target.x(), y: e.target.y() }) });
+      },
+      onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => {
+        e.cancelBubble = true;
+        const updated = moveHandle(kind, index, { x: e.target.x(), y: e.target.y() });
+        setHandleEdit(null);
+        useAppStore.getState().updateObject(obj.id, { ...updated, position: updated.points[0] });
+      },
+    });
+
+    const elements: React.ReactElement[] = [];
+    controlPoints.forEach((control, i) => {
+      // Control 2i belongs to anchor i, control 2i + 1 to anchor i + 1
+      const anchor = points[i % 2 === 0 ? i / 2 : (i + 1) / 2];
+      elements.push(
+        <Line
+          key={`bezier-arm-${i}`}
+          points={[anchor.x, anchor.y, control.x, control.y]}
+          stroke="#3b82f6"
+          strokeWidth={1 / canvas.zoom}
+          dash={[3, 3]}
+          listening={false}
+        />
+      );
+    });
+    controlPoints.forEach((control, i) => {
+      elements.push(
+        <Circle
+          key={`bezier-control-${i}`}
+          x={control.x}
+          y={control.y}
+          radius={handleSize * 0.8}
+          fill="#3b82f6"
+          {...dragProps('control', i)}
+        />
+      );
+    });
+    points.forEach((anchor, i) => {
+      elements.push(
+        <Rect
+          key={`bezier-anchor-${i}`}
+          x={anchor.x}
+          y={anchor.y}
+          offsetX={handleSize}
+          offsetY={handleSize}
+          width={handleSize * 2}
+          height={handleSize * 2}
+          fill="#ffffff"
+          stroke="#3b82f6"
+          strokeWidth={1 / canvas.zoom}
+          {...dragProps('anchor', i)}
+        />
+      );
+    });
+    return elements;
+  };
+
+  // Radius and rotation handles of the selected ellipse
+  const renderEllipseHandles = () => {
+    if (activeTool !== 'select' || selectedObjectIds.length !== 1) return null;
+    const obj = objects.find(o => o.id === selectedObjectIds[0]);
+    if (!obj || obj.type !== 'ellipse' || !obj.visible) return null;
+
+    const { radiusX = 40, radiusY = 25, rotation = 0 } = withHandleEdit(obj);
+    const center = obj.position;
+    const angle = (rotation * Math.PI) / 180;
+    // The ellipse's own axes, turned with it
+    const axisX = { x: Math.cos(angle), y: Math.sin(angle) };
+    const axisY = { x: -Math.sin(angle), y: Math.cos(angle) };
+    const handleSize = 5 / canvas.zoom;
+    const rotateOffset = 20 / canvas.zoom;
+
+    const updateFor = (kind: 'radiusX' | 'radiusY' | 'rotation', pos: Point): Partial<DrawingObject> => {
+      const dx = pos.x - center.x;
+      const dy = pos.y - center.y;
+      if (kind === 'rotation') return { rotation: (Math.atan2(dy, dx) * 180) / Math.PI };
+      const axis = kind === 'radiusX' ? axisX : axisY;
+      return { [kind]: Math.max(1, Math.abs(dx * axis.x + dy * axis.y)) };
+    };
+
+    const dragProps = (kind: 'radiusX' | 'radiusY' | 'rotation') => ({
+      draggable: true,
+      onDragStart: (e: Konva.KonvaEventObject<DragEvent>) => {
+        e.cancelBubble = true;
+      },
+      onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => {
+        e.cancelBubble = true;
+        setHandleEdit({ id: obj.id, updates: updateFor(kind, { x: e.target.x(), y: e.target.y() }) });
+      },
+      onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => {
+        e.cancelBubble = true;
+        const updates = updateFor(kind, { x: e.target.x(), y: e.target.y() });
+        setHandleEdit(null);
+        useAppStore.getState().updateObject(obj.id, updates);
+      },
+    });
+
+    const radiusXHandle = { x: center.x + axisX.x * radiusX, y: center.y + axisX.y * radiusX };
+    const radiusYHandle = { x: center.x + axisY.x * radiusY, y: center.y + axisY.y * radiusY };
+    const rotateHandle = {
+      x: center.x + axisX.x * (radiusX + rotateOffset),
+      y: center.y + axisX.y * (radiusX + rotateOffset),
+    };
+
+    return [
+      <Line
+        key="ellipse-axes"
+        points={[center.x, center.y, rotateHandle.x, rotateHandle.y, center.x, center.y, radiusYHandle.x, radiusYHandle.y]}
+        stroke="#3b82f6"
+        strokeWidth={1 / canvas.zoom}
+        dash={[3, 3]}
+        listening={false}
+      />,
+      ...([['radiusX', radiusXHandle], ['radiusY', radiusYHandle]] as const).map(([kind, handle]) => (
+        <Rect
+          key={`ellipse-${kind}`}
+          x={handle.x}
+          y={handle.y}
+          offsetX={handleSize}
+          offsetY={handleSize}
+          width={handleSize * 2}
+          height={handleSize * 2}
+          fill="#ffffff"
+          stroke="#3b82f6"
+          strokeWidth={1 / canvas.zoom}
+          {...dragProps(kind)}
+        />
+      )),
+      <Circle
+        key="ellipse-rotation"
+        x={rotateHandle.x}
+        y={rotateHandle.y}
+        radius={handleSize}
+        fill="#3b82f6"
+        {...dragProps('rotation')}
+      />,
+    ];
+  };
+
   // Render selection handles for selected objects
   const renderSelectionHandles = () => {
     return selectedObjectIds.map(objectId => {
@@ -1208,6 +1875,7 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
           };
           break;
         case 'circle':
+        case 'arc':
           const circleRadius = obj.radius || 30;
           bounds = {
             x: obj.position.x - circleRadius - 5,
@@ -1216,6 +1884,15 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
             height: (circleRadius + 5) * 2
           };
           break;
+        case 'ellipse':
+          const extents = ellipseExtents(obj.radiusX || 40, obj.radiusY || 25, obj.rotation || 0);
+          bounds = {
+            x: obj.position.x - extents.x - 5,
+            y: obj.position.y - extents.y - 5,
+            width: (extents.x + 5) * 2,
+            height: (extents.y + 5) * 2
+          };
+          break;
         case 'rectangle':
           bounds = {
             x: obj.position.x - 5,
@@ -1226,9 +1903,16 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
           break;
         case 'line':
         case 'polygon':
+        case 'bezier':
+        case 'distance':
+        case 'perp_bisector':
+        case 'function':
+        case 'parametric':
+        case 'polar':
           if (obj.points && obj.points.length > 0) {
-            const xs = obj.points.map(p => p.x);
-            const ys = obj.points.map(p => p.y);
+            const points = [...obj.points, ...(obj.controlPoints || [])];
+            const xs = points.map(p => p.x);
+            const ys = points.map(p => p.y);
             const minX = Math.min(...xs);
             const maxX = Math.max(...xs);
             const minY = Math.min(...ys);
@@ -1324,6 +2008,12 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
             namePosition.x = obj.position.x;
             namePosition.y = obj.position.y - fontSize / 2 - 15; // Above text
             break;
+          case 'vector': {
+            const head = obj.points?.[1] ?? obj.position;
+            namePosition.x = (obj.position.x + head.x) / 2;
+            namePosition.y = (obj.position.y + head.y) / 2 - 15; // Above the middle of the arrow
+            break;
+          }
           default:
             namePosition.x = obj.position.x;
             namePosition.y = obj.position.y - 15; // Above object
@@ -1430,23 +2120,71 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
     });
   };
 
-  // Render snap indicators
+  // Render snap indicators: one glyph per snap type, as in CAD programs
   const renderSnapIndicators = () => {
     if (!snapTarget) return null;
 
+    const { x, y } = snapTarget.point;
+    const size = 6;
+    const glyphProps = {
+      stroke: '#3b82f6',
+      strokeWidth: 2,
+      opacity: 0.9,
+      listening: false,
+    };
+    let glyph;
+    switch (snapTarget.type) {
+      case 'endpoint':
+        glyph = <Rect {...glyphProps} x={x - size} y={y - size} width={size * 2} height={size * 2} />;
+        break;
+      case 'midpoint':
+        glyph = <Line {...glyphProps} closed points={[x, y - size, x + size, y + size, x - size, y + size]} />;
+        break;
+      case 'intersection':
+        glyph = (
+          <Line
+            {...glyphProps}
+            points={[x - size, y - size, x + size, y + size, x, y, x + size, y - size, x - size, y + size]}
+          />
+        );
+        break;
+      case 'center':
+        glyph = <Circle {...glyphProps} x={x} y={y} radius={size} fill="#3b82f6" fillOpacity={0.3} />;
+        break;
+      case 'quadrant':
+        glyph = <Line {...glyphProps} closed points={[x, y - size, x + size, y, x, y + size, x - size, y]} />;
+        break;
+      case 'tangent':
+        // Circle with a line resting on top of it
+        glyph = [
+          <Circle key="circle" {...glyphProps} x={x} y={y + size / 2} radius={size / 2 + 1} />,
+          <Line key="line" {...glyphProps} points={[x - size, y - 1, x + size, y - 1]} />,
+        ];
+        break;
+      case 'perpendicular':
+        glyph = [
+          <Line key="symbol" {...glyphProps} points={[x - size, y - size, x - size, y + size, x + size, y + size]} />,
+          <Line key="mark" {...glyphProps} points={[x - size, y, x, y, x, y + size]} />,
+        ];
+        break;
+      case 'edge':
+        // Hourglass, the usual "nearest" glyph
+        glyph = <Line {...glyphProps} closed points={[x - size, y - size, x + size, y - size, x - size, y + size, x + size, y + size]} />;
+        break;
+    }
+
     return (
-      <Circle
-        key="snap-indicator"
-        x={snapTarget.point.x}
-        y={snapTarget.point.y}
-        radius={8}
-        stroke="#3b82f6"
-        strokeWidth={2}
-        fill="transparent"
-        dash={[3, 3]}
-        opacity={0.8}
-        listening={false}
-      />
+      <>
+        {glyph}
+        <Text
+          x={x + size + 4}
+          y={y + size + 2}
+          text={SNAP_TYPE_LABELS[snapTarget.type]}
+          fontSize={10}
+          fill="#3b82f6"
+          listening={false}
+        />
+      </>
     );
   };
 
@@ -1516,6 +2254,44 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
             />
             <span>Grid</span>
           </label>
+          <select
+            value={canvas.gridType}
+            onChange={(e) => updateCanvasSettings({ gridType: e.target.value as GridType })}
+            className="text-xs border border-gray-300 rounded px-1"
+          >
+            <option value="cartesian">Cartesian</option>
+            <option value="polar">Polar</option>
+            <option value="isometric">Isometric</option>
+          </select>
+          <select
+            value={canvas.gridSubdivision}
+            onChange={(e) => updateCanvasSettings({ gridSubdivision: Number(e.target.value) })}
+            className="text-xs border border-gray-300 rounded px-1"
+            title="Grid lines per major step"
+          >
+            {GRID_SUBDIVISIONS.map(n => (
+              <option key={n} value={n}>{n === 1 ? 'Whole steps' : `1/${n} steps`}</option>
+            ))}
+          </select>
+          <select
+            value={canvas.displayUnit}
+            onChange={(e) => updateCanvasSettings({ displayUnit: e.target.value as LengthUnit })}
+            className="text-xs border border-gray-300 rounded px-1"
+            title="Unit of the rulers and the properties panel"
+          >
+            {LENGTH_UNITS.map(unit => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={canvas.snapToGrid}
+              onChange={(e) => updateCanvasSettings({ snapToGrid: e.target.checked })}
+              className="w-3 h-3"
+            />
+            <span>Grid snap</span>
+          </label>
 
           <span className="text-gray-400">|</span>
           <label className="flex items-center space-x-1">
@@ -1527,6 +2303,13 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
             />
             <span>Snap</span>
           </label>
+          <button
+            onClick={() => setShowSnapTypes(!showSnapTypes)}
+            className="text-gray-500 hover:text-gray-800"
+            title="Snap types"
+          >
+            <ChevronDown className={`w-3 h-3 transition-transform ${showSnapTypes ? 'rotate-180' : ''}`} />
+          </button>
           <span className="text-gray-400">|</span>
           <span className="text-gray-600">
             Zoom: {Math.round(canvas.zoom * 100)}%
@@ -1536,6 +2319,22 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
             Objects: {objects.length}
           </span>
         </div>
+        {showSnapTypes && (
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 mt-2 pt-2 border-t border-gray-200 text-xs">
+            {SNAP_TYPES.map(type => (
+              <label key={type} className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={canvas.snapTypes[type]}
+                  disabled={!canvas.snapToPoints}
+                  onChange={(e) => updateCanvasSettings({ snapTypes: { ...canvas.snapTypes, [type]: e.target.checked } })}
+                  className="w-3 h-3"
+                />
+                <span className={canvas.snapToPoints ? '' : 'text-gray-400'}>{SNAP_TYPE_LABELS[type]}</span>
+              </label>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Instructions */}
@@ -1551,8 +2350,25 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
           )}
           {['perpendicular', 'parallel'].includes(activeTool) && constructionMode === 'select_line' && ' Click on a line first.'}
           {activeTool === 'midpoint' && constructionMode === 'select_two_points' && ` Select ${constructionStep === 0 ? 'first' : 'second'} point.`}
-          {activeTool === 'angle' && constructionMode === 'select_two_points' && ` Select ${constructionStep === 0 ? 'first' : 'second'} point for angle.`}
-          {!['select', 'point', 'polygon', 'perpendicular', 'parallel', 'midpoint', 'angle'].includes(activeTool) && ' Click and drag to draw.'}
+          {activeTool === 'angle' && constructionMode === 'select_three_points' && ` Select ${['a point on the first arm', 'the vertex', 'a point on the second arm'][constructionStep]}.`}
+          {activeTool === 'distance' && constructionMode === 'select_two_points' && ` Select ${constructionStep === 0 ? 'first' : 'second'} point to measure.`}
+          {activeTool === 'perp_bisector' && constructionMode === 'select_two_points' && ` Select ${constructionStep === 0 ? 'first' : 'second'} endpoint of the segment.`}
+          {activeTool === 'intersection' && constructionMode === 'select_two_objects' && ` Select ${constructionStep === 0 ? 'first' : 'second'} line or circle.`}
+          {activeTool === 'tangent' && constructionMode === 'select_two_objects' && ` Select ${constructionStep === 0 ? 'a circle' : 'a point on or outside it, or a second circle'}.`}
+          {activeTool === 'compass' && constructionMode !== 'none' && ` Select ${{
+            center_point: ['the center', 'a point on the circle'],
+            radius: ['the first point of the radius', 'the second point of the radius', 'the center'],
+            three_points: ['the first point', 'the second point', 'the third point'],
+          }[compassMode][constructionStep]}.`}
+          {activeTool === 'arc' && ` Click the ${['center', 'start of the arc', 'end of the arc'][currentPolygonPoints.length] ?? 'center'}.`}
+          {activeTool === 'bezier' && (
+            isPolygonDrawing
+              ? ' Click to add anchors, drag to pull handles. Click the last anchor or press Enter to finish.'
+              : ' Click to place the first anchor, drag to pull its handle.'
+          )}
+          {activeTool === 'function' && ' Enter y = f(x), a parametric curve or r(θ) above.'}
+          {activeTool === 'regular_polygon' && ' Click the center and drag to a corner.'}
+          {!['select', 'point', 'polygon', 'regular_polygon', 'bezier', 'arc', 'perpendicular', 'parallel', 'midpoint', 'angle', 'distance', 'perp_bisector', 'intersection', 'tangent', 'compass', 'function'].includes(activeTool) && ' Click and drag to draw.'}
         </p>
       </div>
 
@@ -1588,10 +2404,17 @@ export default function Canvas({ activeTool = 'select' }: CanvasProps) {
           {renderSelectionBox()}
           {/* Top layer: Points and names always on top */}
           {objects.filter(obj => obj.type === 'point').map(renderObject)}
+          {renderBezierHandles()}
+          {renderEllipseHandles()}
           {renderObjectNames()}
         </Layer>
       </Stage>
 
+      {/* Function Plot Entry */}
+      {activeTool === 'function' && <FunctionInput />}
+      {activeTool === 'compass' && <CompassModeBar />}
+      {activeTool === 'regular_polygon' && <RegularPolygonBar />}
+
       {/* Text Editor Overlay */}
       {isTextEditing && textEditorPosition && (
         <div
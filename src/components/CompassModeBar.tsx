@@ -0,0 +1,28 @@
+'use client';
+
+import { useAppStore, type CompassMode } from '@/lib/store';
+
+const MODE_LABELS: Record<CompassMode, string> = {
+  center_point: 'Center through point',
+  radius: 'Compass',
+  three_points: 'Through three points',
+};
+
+// Mode picker shown over the canvas while the compass tool is active
+export default function CompassModeBar() {
+  const { compassMode, setCompassMode } = useAppStore();
+
+  return (
+    <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 bg-white border border-blue-400 rounded shadow-lg p-1 text-xs flex gap-1">
+      {(Object.keys(MODE_LABELS) as CompassMode[]).map(mode => (
+        <button
+          key={mode}
+          onClick={() => setCompassMode(mode)}
+          className={`px-2 py-1 rounded ${compassMode === mode ? 'bg-blue-500 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+        >
+          {MODE_LABELS[mode]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Plus, X } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import {
+  CONSTRAINT_INFO,
+  analyzeConstraints,
+  getConstraints,
+  getDefaultHandle,
+  type Constraint,
+  type ConstraintHandle,
+  type ConstraintStatus,
+  type ConstraintType,
+} from '@/lib/constraints';
+
+const STATUS_STYLES: Record<ConstraintStatus, string> = {
+  unconstrained: 'bg-gray-100 text-gray-600',
+  under: 'bg-yellow-100 text-yellow-800',
+  full: 'bg-green-100 text-green-800',
+  over: 'bg-red-100 text-red-700',
+};
+
+const HANDLE_LABELS: Record<ConstraintHandle, string> = {
+  position: 'Position',
+  start: 'Start',
+  end: 'End',
+};
+
+const selectClassName = 'h-7 text-xs w-full border border-gray-300 rounded px-1';
+
+interface ConstraintsCardProps {
+  objectId: string;
+}
+
+export default function ConstraintsCard({ objectId }: ConstraintsCardProps) {
+  const { objects, addConstraint, removeConstraint } = useAppStore();
+  const [type, setType] = useState<ConstraintType | ''>('');
+  const [targetId, setTargetId] = useState('');
+  const [handle, setHandle] = useState<ConstraintHandle>('start');
+  const [targetHandle, setTargetHandle] = useState<ConstraintHandle>('start');
+  const [value, setValue] = useState('');
+
+  const obj = objects.find(o => o.id === objectId);
+  if (!obj) return null;
+
+  const availableTypes = (Object.keys(CONSTRAINT_INFO) as ConstraintType[])
+    .filter(t => CONSTRAINT_INFO[t].ownerTypes.includes(obj.type));
+  if (availableTypes.length === 0) return null;
+
+  const info = type ? CONSTRAINT_INFO[type] : null;
+  const targets = info?.targetTypes
+    ? objects.filter(o => o.id !== obj.id && info.targetTypes!.includes(o.type))
+    : [];
+  const target = objects.find(o => o.id === targetId);
+  const constraints = getConstraints(obj);
+  const ownCount = obj.constraints?.length ?? 0;
+  const analysis = analyzeConstraints(obj, objects);
+
+  const statusLabel = {
+    unconstrained: 'No constraints',
+    under: `Under-constrained (${analysis.freedom} free)`,
+    full: 'Fully constrained',
+    over: analysis.freedom < 0 ? 'Over-constrained' : 'Conflicting constraints',
+  }[analysis.status];
+
+  const canAdd = !!info && (!info.targetTypes || !!target) && (!info.hasValue || (value.trim() !== '' && !isNaN(parseFloat(value))));
+
+  const handleAdd = () => {
+    if (!type || !canAdd) return;
+    const constraint: Constraint = { type };
+    if (info?.targetTypes) constraint.targetId = targetId;
+    if (info?.hasValue) constraint.value = parseFloat(value);
+    if (type === 'coincident') {
+      constraint.handle = obj.type === 'line' ? handle : getDefaultHandle(obj);
+      constraint.targetHandle = target?.type === 'line' ? targetHandle : getDefaultHandle(target!);
+    }
+    addConstraint(obj.id, constraint);
+    setType('');
+    setTargetId('');
+    setValue('');
+  };
+
+  const describe = (constraint: Constraint) => {
+    const parts = [CONSTRAINT_INFO[constraint.type].label];
+    if (constraint.targetId) {
+      const name = objects.find(o => o.id === constraint.targetId)?.name || constraint.targetId;
+      parts.push(constraint.type === 'coincident' && constraint.handle && constraint.handle !== 'position'
+        ? `(${HANDLE_LABELS[constraint.handle].toLowerCase()}) → ${name}`
+        : `→ ${name}`);
+    }
+    if (constraint.value !== undefined) {
+      parts.push(constraint.type === 'fixed_angle' ? `${constraint.value}°` : `${constraint.value}px`);
+    }
+    return parts.join(' ');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Constraints</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[analysis.status]}`}>
+          {statusLabel}
+        </div>
+
+        {constraints.length > 0 && (
+          <div className="space-y-1">
+            {constraints.map((constraint, index) => (
+              <div key={index} className="flex items-center justify-between text-xs text-gray-700">
+                <span className="truncate">{describe(constraint)}</span>
+                {index < ownCount ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeConstraint(obj.id, index)}
+                    className="h-5 w-5 p-0 text-gray-400 hover:text-red-600"
+                    title="Remove constraint"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                ) : (
+                  // Bindings made by the construction tools cannot be removed here
+                  <span className="text-gray-400">construction</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-xs">Add Constraint</Label>
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as ConstraintType | '');
+              setTargetId('');
+            }}
+            className={selectClassName}
+          >
+            <option value="">Choose…</option>
+            {availableTypes.map(t => (
+              <option key={t} value={t}>{CONSTRAINT_INFO[t].label}</option>
+            ))}
+          </select>
+
+          {info?.targetTypes && (
+            <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={selectClassName}>
+              <option value="">Target…</option>
+              {targets.map(o => (
+                <option key={o.id} value={o.id}>{o.name || o.id}</option>
+              ))}
+            </select>
+          )}
+
+          {type === 'coincident' && (obj.type === 'line' || target?.type === 'line') && (
+            <div className="grid grid-cols-2 gap-2">
+              {obj.type === 'line' && (
+                <select value={handle} onChange={(e) => setHandle(e.target.value as ConstraintHandle)} className={selectClassName}>
+                  <option value="start">{HANDLE_LABELS.start}</option>
+                  <option value="end">{HANDLE_LABELS.end}</option>
+                </select>
+              )}
+              {target?.type === 'line' && (
+                <select value={targetHandle} onChange={(e) => setTargetHandle(e.target.value as ConstraintHandle)} className={selectClassName}>
+                  <option value="start">Target {HANDLE_LABELS.start.toLowerCase()}</option>
+                  <option value="end">Target {HANDLE_LABELS.end.toLowerCase()}</option>
+                </select>
+              )}
+            </div>
+          )}
+
+          {info?.hasValue && (
+            <Input
+              type="number"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={type === 'fixed_angle' ? 'Angle (°)' : 'Length (px)'}
+              className="h-7 text-xs"
+            />
+          )}
+
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={!canAdd} className="h-7 w-full text-xs">
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Copy, Files, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+export default function DocumentLibrary() {
+  const {
+    documentId,
+    documents,
+    createDocument,
+    switchDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+  } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the panel
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const run = (action: Promise<void>) => {
+    action.catch((e) => console.error('Drawing library operation failed:', e));
+  };
+
+  const startRename = (id: string, name: string) => {
+    setRenamingId(id);
+    setRenameValue(name);
+  };
+
+  const finishRename = () => {
+    if (renamingId && renameValue.trim()) {
+      run(renameDocument(renamingId, renameValue));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Delete "${name}"? This cannot be undone.`)) {
+      run(deleteDocument(id));
+    }
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`h-7 px-2 text-xs ${isOpen ? 'bg-blue-100 text-blue-600' : ''}`}
+        title="Drawing library"
+      >
+        <Files className="h-4 w-4 mr-1" />
+        {documents.length}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-9 z-20 w-80 max-h-[70vh] flex flex-col bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between p-2 border-b border-gray-100">
+            <span className="text-sm font-medium text-gray-900">Drawings</span>
+            <Button variant="outline" size="sm" onClick={() => run(createDocument())} className="h-7 text-xs">
+              <Plus className="h-3 w-3 mr-1" />
+              New
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-1">
+            {documents.map(doc => (
+              <div
+                key={doc.id}
+                onClick={() => renamingId !== doc.id && run(switchDocument(doc.id))}
+                className={`group flex items-center space-x-2 p-1.5 rounded cursor-pointer ${
+                  doc.id === documentId ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="w-16 h-12 flex-shrink-0 bg-gray-100 border border-gray-200 rounded overflow-hidden">
+                  {doc.thumbnail && (
+                    <Image src={doc.thumbnail} alt="" width={64} height={48} unoptimized className="w-full h-full object-cover" />
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {renamingId === doc.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={finishRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      className="w-full px-1 text-sm border border-blue-300 rounded outline-none"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-800 truncate">{doc.name}</p>
+                  )}
+                  <p className="text-xs text-gray-400">{formatUpdatedAt(doc.updatedAt)}</p>
+                </div>
+
+                <div className="flex items-center opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" onClick={() => startRename(doc.id, doc.name)} className="h-6 w-6 p-0" title="Rename">
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => run(duplicateDocument(doc.id))} className="h-6 w-6 p-0" title="Duplicate">
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(doc.id, doc.name)}
+                    className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStore } from '@/lib/store';
+import { CURVE_DEFAULTS, validateCurve, type CurveDefinition, type CurveType } from '@/lib/expression';
+
+const CURVE_LABELS: Record<CurveType, string> = {
+  function: 'y = f(x)',
+  parametric: 'Parametric',
+  polar: 'Polar r(θ)',
+};
+
+const formatDefault = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Entry form shown over the canvas while the function tool is active
+export default function FunctionInput() {
+  const { addCurve } = useAppStore();
+  const [curveType, setCurveType] = useState<CurveType>('function');
+  const [expression, setExpression] = useState('');
+  const [xExpression, setXExpression] = useState('');
+  const [yExpression, setYExpression] = useState('');
+  const [domainMin, setDomainMin] = useState(formatDefault(CURVE_DEFAULTS.function.domainMin));
+  const [domainMax, setDomainMax] = useState(formatDefault(CURVE_DEFAULTS.function.domainMax));
+  const [samples, setSamples] = useState(String(CURVE_DEFAULTS.function.samples));
+  const [error, setError] = useState<string | null>(null);
+
+  const changeCurveType = (type: CurveType) => {
+    setCurveType(type);
+    setDomainMin(formatDefault(CURVE_DEFAULTS[type].domainMin));
+    setDomainMax(formatDefault(CURVE_DEFAULTS[type].domainMax));
+    setSamples(String(CURVE_DEFAULTS[type].samples));
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    const curve: CurveDefinition = {
+      type: curveType,
+      domainMin: parseFloat(domainMin),
+      domainMax: parseFloat(domainMax),
+      samples: Number(samples),
+      ...(curveType === 'parametric'
+        ? { xExpression: xExpression.trim(), yExpression: yExpression.trim() }
+        : { expression: expression.trim() }),
+    };
+    const message = validateCurve(curve);
+    setError(message);
+    if (message) return;
+    addCurve(curve);
+    setExpression('');
+    setXExpression('');
+    setYExpression('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep tool shortcuts from firing while typing
+    e.stopPropagation();
+    if (e.key === 'Enter') handleSubmit();
+  };
+
+  const inputClassName = 'h-7 px-1 text-xs border border-gray-300 rounded outline-none focus:border-blue-400';
+  const variable = curveType === 'function' ? 'x' : curveType === 'polar' ? 'θ' : 't';
+
+  const expressionInput = (label: string, value: string, onChange: (value: string) => void, placeholder: string, autoFocus = false) => (
+    <>
+      <span className="font-mono text-gray-700">{label}</span>
+      <input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={`${inputClassName} w-36 font-mono`}
+        autoFocus={autoFocus}
+      />
+    </>
+  );
+
+  return (
+    <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 bg-white border border-blue-400 rounded shadow-lg p-2 text-xs">
+      <div className="flex items-center gap-1">
+        <select
+          value={curveType}
+          onChange={(e) => changeCurveType(e.target.value as CurveType)}
+          className="h-7 text-xs border border-gray-300 rounded px-1 mr-1"
+        >
+          {(Object.keys(CURVE_LABELS) as CurveType[]).map(type => (
+            <option key={type} value={type}>{CURVE_LABELS[type]}</option>
+          ))}
+        </select>
+        {curveType === 'function' && expressionInput('y =', expression, setExpression, 'sin(x) + x^2/4', true)}
+        {curveType === 'polar' && expressionInput('r =', expression, setExpression, '1 + cos(θ)', true)}
+        {curveType === 'parametric' && (
+          <>
+            {expressionInput('x =', xExpression, setXExpression, 'cos(3t)', true)}
+            {expressionInput('y =', yExpression, setYExpression, 'sin(2t)')}
+          </>
+        )}
+        <span className="text-gray-500 ml-1">{variable} from</span>
+        <input type="number" value={domainMin} onChange={(e) => setDomainMin(e.target.value)} onKeyDown={handleKeyDown} className={`${inputClassName} w-14`} />
+        <span className="text-gray-500">to</span>
+        <input type="number" value={domainMax} onChange={(e) => setDomainMax(e.target.value)} onKeyDown={handleKeyDown} className={`${inputClassName} w-14`} />
+        <span className="text-gray-500 ml-1">samples</span>
+        <input type="number" value={samples} onChange={(e) => setSamples(e.target.value)} onKeyDown={handleKeyDown} className={`${inputClassName} w-14`} />
+        <button
+          onClick={handleSubmit}
+          className="ml-1 px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600"
+        >
+          Plot
+        </button>
+      </div>
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+}
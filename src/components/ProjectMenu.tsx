@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FolderOpen, Save, SaveAll } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { DEFAULT_PROJECT_NAME, PROJECT_FILE_EXTENSION, ProjectFileError, parseProject, serializeProject } from '@/lib/project';
+
+// File System Access API (Chromium) - not yet in the TypeScript DOM typings
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+type FilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+};
+
+const PICKER_TYPES = [{
+  description: 'TikzSketch project',
+  accept: { 'application/json': [PROJECT_FILE_EXTENSION] },
+}];
+
+const stripExtension = (fileName: string) => fileName.replace(/\.(tikzsketch|json)$/i, '');
+
+export default function ProjectMenu() {
+  const { projectName: rawProjectName, documentId, setProjectName, getProjectData, createDocument } = useAppStore();
+  const projectName = rawProjectName.trim() || DEFAULT_PROJECT_NAME;
+  // Handle of the file the open document was opened from or last saved to, so Save can overwrite it
+  const fileHandle = useRef<FileSystemFileHandle | null>(null);
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    fileHandle.current = null;
+  }, [documentId]);
+
+  const showStatus = (message: string, isError = false) => {
+    setStatus({ message, isError });
+    setTimeout(() => setStatus(null), 3000);
+  };
+
+  const handleError = (err: unknown) => {
+    // The user dismissed a file picker
+    if (err instanceof DOMException && err.name === 'AbortError') return;
+    if (err instanceof ProjectFileError) {
+      showStatus(err.message, true);
+    } else {
+      console.error('Project file operation failed:', err);
+      showStatus('Could not access the file', true);
+    }
+  };
+
+  const download = (name: string) => {
+    const blob = new Blob([serializeProject({ ...getProjectData(), name })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name}${PROJECT_FILE_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const writeToHandle = async (handle: FileSystemFileHandle, name: string) => {
+    const writable = await handle.createWritable();
+    await writable.write(serializeProject({ ...getProjectData(), name }));
+    await writable.close();
+  };
+
+  const handleSaveAs = async () => {
+    try {
+      const pickerWindow = window as FilePickerWindow;
+      if (pickerWindow.showSaveFilePicker) {
+        const handle = await pickerWindow.showSaveFilePicker({
+          suggestedName: `${projectName}${PROJECT_FILE_EXTENSION}`,
+          types: PICKER_TYPES,
+        });
+        const name = stripExtension(handle.name);
+        await writeToHandle(handle, name);
+        fileHandle.current = handle;
+        setProjectName(name);
+      } else {
+        // No file picker: ask for a name and download
+        const name = window.prompt('Save project as', projectName)?.trim();
+        if (!name) return;
+        download(name);
+        setProjectName(name);
+      }
+      showStatus('Saved');
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!fileHandle.current) {
+      // Without a picker there is no file to overwrite, so Save downloads under the current name
+      if ((window as FilePickerWindow).showSaveFilePicker) {
+        await handleSaveAs();
+      } else {
+        download(projectName);
+        showStatus('Saved');
+      }
+      return;
+    }
+    try {
+      await writeToHandle(fileHandle.current, projectName);
+      showStatus('Saved');
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  // Opened files become a new document in the drawing library
+  const openText = async (text: string, fileName: string) => {
+    const project = parseProject(text);
+    // Files saved before the project format carry no name
+    await createDocument({ ...project, name: project.name === DEFAULT_PROJECT_NAME ? stripExtension(fileName) : project.name });
+    showStatus(`Opened ${fileName}`);
+  };
+
+  const handleOpen = async () => {
+    const pickerWindow = window as FilePickerWindow;
+    if (pickerWindow.showOpenFilePicker) {
+      try {
+        const [handle] = await pickerWindow.showOpenFilePicker({ types: PICKER_TYPES });
+        const file = await handle.getFile();
+        await openText(await file.text(), file.name);
+        fileHandle.current = handle;
+      } catch (err) {
+        handleError(err);
+      }
+      return;
+    }
+
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${PROJECT_FILE_EXTENSION},.json,application/json`;
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (event) => {
+          openText(event.target?.result as string, file.name).catch(handleError);
+        };
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="flex items-center space-x-1">
+      <input
+        value={rawProjectName}
+        onChange={(e) => setProjectName(e.target.value)}
+        className="w-32 px-2 py-1 text-sm text-gray-700 border border-transparent rounded hover:border-gray-200 focus:border-blue-300 outline-none"
+        title="Project name"
+      />
+      <Button variant="ghost" size="sm" onClick={handleOpen} className="h-7 w-7 p-0" title="Open project">
+        <FolderOpen className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={handleSave} className="h-7 w-7 p-0" title="Save project">
+        <Save className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={handleSaveAs} className="h-7 w-7 p-0" title="Save project as...">
+        <SaveAll className="h-4 w-4" />
+      </Button>
+      {status && (
+        <span className={`text-xs ${status.isError ? 'text-red-600' : 'text-green-600'}`}>
+          {status.message}
+        </span>
+      )}
+    </div>
+  );
+}
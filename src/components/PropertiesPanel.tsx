@@ -8,10 +8,18 @@ import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
 import { Bold, Italic, Underline, Type, AlignLeft } from 'lucide-react';
+import ConstraintsCard from '@/components/ConstraintsCard';
+import TriangleCard from '@/components/TriangleCard';
+import TransformCard from '@/components/TransformCard';
+import VectorSumCard from '@/components/VectorSumCard';
+import type { ConstructionKind } from '@/lib/dependencies';
+import { useAppStore } from '@/lib/store';
+import { formatLength, fromUnit, roundToUnit } from '@/lib/units';
+import { getCurveRange, isCurve, validateCurve } from '@/lib/expression';
 
 interface ObjectProperties {
   id: string;
-  type: 'point' | 'line' | 'rectangle' | 'circle' | 'text' | 'polygon' | 'angle' | 'perpendicular' | 'parallel' | 'midpoint' | 'distance' | 'perp_bisector' | 'function' | 'image';
+  type: 'point' | 'line' | 'rectangle' | 'circle' | 'text' | 'polygon' | 'bezier' | 'arc' | 'ellipse' | 'angle' | 'perpendicular' | 'parallel' | 'midpoint' | 'distance' | 'perp_bisector' | 'function' | 'parametric' | 'polar' | 'image' | 'vector';
   name: string;
   x: number;
   y: number;
@@ -32,6 +40,8 @@ interface ObjectProperties {
   };
   // Type-specific properties
   radius?: number;
+  radiusX?: number;
+  radiusY?: number;
   width?: number;
   height?: number;
   text?: string;
@@ -41,9 +51,26 @@ interface ObjectProperties {
   textDecoration?: 'none' | 'underline';
   startAngle?: number;
   endAngle?: number;
+  arcKind?: 'arc' | 'sector' | 'segment';
+  sides?: number;
+  innerRadius?: number;
   angleValue?: number;
+  angleRadius?: number;
+  angleArcs?: number;
+  angleLabel?: 'degrees' | 'symbol' | 'none';
+  angleSymbol?: string;
+  showRightAngle?: boolean;
+  expression?: string;
+  xExpression?: string;
+  yExpression?: string;
+  domainMin?: number;
+  domainMax?: number;
+  samples?: number;
+  showEqualTicks?: boolean;
   magnitude?: number;
   direction?: number;
+  showComponents?: boolean;
+  construction?: ConstructionKind;
   // Arrow properties for lines
   arrowStart?: 'none' | 'arrow' | 'stealth' | 'latex';
   arrowEnd?: 'none' | 'arrow' | 'stealth' | 'latex';
@@ -68,6 +95,11 @@ export default function PropertiesPanel({
   selectedObjects = [], 
   onPropertyChange 
 }: PropertiesPanelProps) {
+  // Lengths are stored in pixels and shown in the display unit
+  const { canvas } = useAppStore();
+  const unit = canvas.displayUnit;
+  const parseLength = (text: string) => fromUnit(parseFloat(text) || 0, unit);
+
   // Demo selected object for display
   const demoObject: ObjectProperties = selectedObjects[0] || {
     id: 'demo-point',
@@ -115,7 +147,7 @@ export default function PropertiesPanel({
   const calculateLineLength = useCallback(() => {
     if (selectedObjects.length === 1 && selectedObjects[0].type === 'line' && selectedObjects[0].points) {
       const points = selectedObjects[0].points;
-      if (points.length < 2) return "0";
+      if (points.length < 2) return formatLength(0, unit);
       
       let totalLength = 0;
       for (let i = 1; i < points.length; i++) {
@@ -124,10 +156,10 @@ export default function PropertiesPanel({
         totalLength += Math.sqrt(dx * dx + dy * dy);
       }
       
-      return totalLength.toFixed(1);
+      return formatLength(totalLength, unit);
     }
     return "N/A";
-  }, [selectedObjects]);
+  }, [selectedObjects, unit]);
 
   // Sync with external changes
   useEffect(() => {
@@ -150,6 +182,21 @@ export default function PropertiesPanel({
     }, 150); // Reduced from 300ms to 150ms
   };
 
+  // Curves are only updated while the whole definition is valid
+  const curve = isCurve(properties) ? { ...properties, type: properties.type } : null;
+  const curveError = curve ? validateCurve(curve) : null;
+  const curveRange = curve ? getCurveRange(curve) : null;
+
+  const handleCurveUpdate = (property: 'expression' | 'xExpression' | 'yExpression' | 'domainMin' | 'domainMax' | 'samples', value: string | number) => {
+    if (!curve) return;
+    const next = { ...properties, [property]: value };
+    if (validateCurve({ ...curve, [property]: value })) {
+      setProperties(next);
+    } else {
+      handlePropertyUpdate(property, value);
+    }
+  };
+
   // Immediate update for sliders (no debounce during drag)
   const handleSliderUpdate = useCallback((property: string, value: any) => {
     setProperties(prev => ({ ...prev, [property]: value }));
@@ -228,22 +275,22 @@ export default function PropertiesPanel({
               )}
               <div className="grid grid-cols-2 gap-2">
                 <div>
-                  <Label htmlFor="x-pos" className="text-xs">X</Label>
+                  <Label htmlFor="x-pos" className="text-xs">X ({unit})</Label>
                   <Input
                     id="x-pos"
                     type="number"
-                    value={properties.x || 0}
-                    onChange={(e) => handlePropertyUpdate('x', parseFloat(e.target.value) || 0)}
+                    value={roundToUnit(properties.x || 0, unit)}
+                    onChange={(e) => handlePropertyUpdate('x', parseLength(e.target.value))}
                     className="h-7 text-xs"
                   />
                 </div>
                 <div>
-                  <Label htmlFor="y-pos" className="text-xs">Y</Label>
+                  <Label htmlFor="y-pos" className="text-xs">Y ({unit})</Label>
                   <Input
                     id="y-pos"
                     type="number"
-                    value={properties.y || 0}
-                    onChange={(e) => handlePropertyUpdate('y', parseFloat(e.target.value) || 0)}
+                    value={roundToUnit(properties.y || 0, unit)}
+                    onChange={(e) => handlePropertyUpdate('y', parseLength(e.target.value))}
                     className="h-7 text-xs"
                   />
                 </div>
@@ -358,7 +405,7 @@ export default function PropertiesPanel({
       </Card>
 
       {/* Dimensions (if applicable) */}
-      {(properties.type === 'rectangle' || properties.type === 'circle') && (
+      {(properties.type === 'rectangle' || properties.type === 'circle' || properties.type === 'ellipse') && (
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium">Dimensions</CardTitle>
@@ -366,35 +413,71 @@ export default function PropertiesPanel({
           <CardContent className="space-y-3">
             {properties.type === 'circle' && (
               <div>
-                <Label htmlFor="radius" className="text-xs">Radius</Label>
+                <Label htmlFor="radius" className="text-xs">Radius ({unit})</Label>
                 <Input
                   id="radius"
                   type="number"
-                  value={properties.radius || 0}
-                  onChange={(e) => handlePropertyUpdate('radius', parseFloat(e.target.value) || 0)}
+                  value={roundToUnit(properties.radius || 0, unit)}
+                  onChange={(e) => handlePropertyUpdate('radius', parseLength(e.target.value))}
                   className="h-7 text-xs"
                 />
               </div>
             )}
+            {properties.type === 'ellipse' && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="radius-x" className="text-xs">Radius X ({unit})</Label>
+                    <Input
+                      id="radius-x"
+                      type="number"
+                      value={roundToUnit(properties.radiusX || 0, unit)}
+                      onChange={(e) => handlePropertyUpdate('radiusX', parseLength(e.target.value))}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="radius-y" className="text-xs">Radius Y ({unit})</Label>
+                    <Input
+                      id="radius-y"
+                      type="number"
+                      value={roundToUnit(properties.radiusY || 0, unit)}
+                      onChange={(e) => handlePropertyUpdate('radiusY', parseLength(e.target.value))}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="ellipse-rotation" className="text-xs">Rotation (°, clockwise)</Label>
+                  <Input
+                    id="ellipse-rotation"
+                    type="number"
+                    value={properties.rotation || 0}
+                    onChange={(e) => handlePropertyUpdate('rotation', parseFloat(e.target.value) || 0)}
+                    className="h-7 text-xs"
+                  />
+                </div>
+              </>
+            )}
             {properties.type === 'rectangle' && (
               <div className="grid grid-cols-2 gap-2">
                 <div>
-                  <Label htmlFor="width" className="text-xs">Width</Label>
+                  <Label htmlFor="width" className="text-xs">Width ({unit})</Label>
                   <Input
                     id="width"
                     type="number"
-                    value={properties.width || 0}
-                    onChange={(e) => handlePropertyUpdate('width', parseFloat(e.target.value) || 0)}
+                    value={roundToUnit(properties.width || 0, unit)}
+                    onChange={(e) => handlePropertyUpdate('width', parseLength(e.target.value))}
                     className="h-7 text-xs"
                   />
                 </div>
                 <div>
-                  <Label htmlFor="height" className="text-xs">Height</Label>
+                  <Label htmlFor="height" className="text-xs">Height ({unit})</Label>
                   <Input
                     id="height"
                     type="number"
-                    value={properties.height || 0}
-                    onChange={(e) => handlePropertyUpdate('height', parseFloat(e.target.value) || 0)}
+                    value={roundToUnit(properties.height || 0, unit)}
+                    onChange={(e) => handlePropertyUpdate('height', parseLength(e.target.value))}
                     className="h-7 text-xs"
                   />
                 </div>
@@ -408,11 +491,11 @@ export default function PropertiesPanel({
                 <div className="p-2 bg-gray-50 rounded space-y-1 text-xs">
                   <div className="flex justify-between items-center">
                     <span className="font-medium">Bottom-Left:</span>
-                    <span className="font-mono">({(properties.x || 0).toFixed(1)}, {(properties.y || 0).toFixed(1)})</span>
+                    <span className="font-mono">({roundToUnit(properties.x || 0, unit)}, {roundToUnit(properties.y || 0, unit)}) {unit}</span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="font-medium">Top-Right:</span>
-                    <span className="font-mono">({((properties.x || 0) + (properties.width || 0)).toFixed(1)}, {((properties.y || 0) + (properties.height || 0)).toFixed(1)})</span>
+                    <span className="font-mono">({roundToUnit((properties.x || 0) + (properties.width || 0), unit)}, {roundToUnit((properties.y || 0) + (properties.height || 0), unit)}) {unit}</span>
                   </div>
                 </div>
               </div>
@@ -421,6 +504,121 @@ export default function PropertiesPanel({
         </Card>
       )}
 
+      {/* Arc Properties */}
+      {properties.type === 'arc' && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Arc</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <Label className="text-xs">Shape</Label>
+              <select
+                value={properties.arcKind || 'arc'}
+                onChange={(e) => handlePropertyUpdate('arcKind', e.target.value)}
+                className="h-7 text-xs w-full border border-gray-300 rounded px-1"
+              >
+                <option value="arc">Arc</option>
+                <option value="sector">Sector</option>
+                <option value="segment">Segment</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="arc-radius" className="text-xs">Radius ({unit})</Label>
+              <Input
+                id="arc-radius"
+                type="number"
+                value={roundToUnit(properties.radius || 0, unit)}
+                onChange={(e) => handlePropertyUpdate('radius', parseLength(e.target.value))}
+                className="h-7 text-xs"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="start-angle" className="text-xs">Start (°)</Label>
+                <Input
+                  id="start-angle"
+                  type="number"
+                  value={properties.startAngle ?? 0}
+                  onChange={(e) => handlePropertyUpdate('startAngle', parseFloat(e.target.value) || 0)}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label htmlFor="end-angle" className="text-xs">End (°)</Label>
+                <Input
+                  id="end-angle"
+                  type="number"
+                  value={properties.endAngle ?? 0}
+                  onChange={(e) => handlePropertyUpdate('endAngle', parseFloat(e.target.value) || 0)}
+                  className="h-7 text-xs"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Regular Polygon / Star Properties */}
+      {properties.type === 'polygon' && properties.sides && selectedObjects.length === 1 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{properties.innerRadius !== undefined ? 'Star' : 'Regular Polygon'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="polygon-sides" className="text-xs">{properties.innerRadius !== undefined ? 'Points' : 'Sides'}</Label>
+                <Input
+                  id="polygon-sides"
+                  type="number"
+                  min="3"
+                  step="1"
+                  value={properties.sides}
+                  onChange={(e) => handlePropertyUpdate('sides', Math.max(3, parseInt(e.target.value) || 3))}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label htmlFor="polygon-radius" className="text-xs">Radius ({unit})</Label>
+                <Input
+                  id="polygon-radius"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={roundToUnit(properties.radius || 0, unit)}
+                  onChange={(e) => handlePropertyUpdate('radius', Math.max(fromUnit(0.1, 'cm'), parseLength(e.target.value)))}
+                  className="h-7 text-xs"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={properties.innerRadius !== undefined}
+                onChange={(e) => handlePropertyUpdate('innerRadius', e.target.checked ? (properties.radius || 0) / 2 : undefined)}
+                className="w-3 h-3"
+              />
+              <Label className="text-xs">Star</Label>
+            </div>
+            {properties.innerRadius !== undefined && (
+              <div>
+                <Label htmlFor="polygon-inner-radius" className="text-xs">Inner radius ({unit})</Label>
+                <Input
+                  id="polygon-inner-radius"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={roundToUnit(properties.innerRadius, unit)}
+                  onChange={(e) => handlePropertyUpdate('innerRadius', Math.max(fromUnit(0.1, 'cm'), parseLength(e.target.value)))}
+                  className="h-7 text-xs"
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Arrow Properties (for lines) */}
       {properties.type === 'line' && (
         <Card>
@@ -435,11 +633,11 @@ export default function PropertiesPanel({
                 <div className="p-2 bg-gray-50 rounded space-y-1 text-xs">
                   <div className="flex justify-between items-center">
                     <span className="font-medium">Start:</span>
-                    <span className="font-mono">({selectedObjects[0].points[0].x.toFixed(1)}, {selectedObjects[0].points[0].y.toFixed(1)})</span>
+                    <span className="font-mono">({roundToUnit(selectedObjects[0].points[0].x, unit)}, {roundToUnit(selectedObjects[0].points[0].y, unit)}) {unit}</span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="font-medium">End:</span>
-                    <span className="font-mono">({selectedObjects[0].points[selectedObjects[0].points.length - 1].x.toFixed(1)}, {selectedObjects[0].points[selectedObjects[0].points.length - 1].y.toFixed(1)})</span>
+                    <span className="font-mono">({roundToUnit(selectedObjects[0].points[selectedObjects[0].points.length - 1].x, unit)}, {roundToUnit(selectedObjects[0].points[selectedObjects[0].points.length - 1].y, unit)}) {unit}</span>
                   </div>
                 </div>
               </div>
@@ -485,7 +683,7 @@ export default function PropertiesPanel({
           </CardHeader>
           <CardContent className="space-y-3">
             <div>
-              <Label className="text-xs">Length: {calculateLineLength()}px</Label>
+              <Label className="text-xs">Length: {calculateLineLength()}</Label>
               <div className="mt-1 text-xs text-gray-500">
                 Use construction tools or select individual points to adjust length
               </div>
@@ -494,6 +692,78 @@ export default function PropertiesPanel({
         </Card>
       )}
 
+      {/* Vector Properties */}
+      {properties.type === 'vector' && selectedObjects.length === 1 && properties.points && properties.points.length >= 2 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Vector</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {/* Sums and differences are set by the vectors they are built from */}
+            {!properties.construction && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="vector-magnitude" className="text-xs">Magnitude ({unit})</Label>
+                  <Input
+                    id="vector-magnitude"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={roundToUnit(properties.magnitude || 0, unit)}
+                    onChange={(e) => handlePropertyUpdate('magnitude', Math.max(0, parseLength(e.target.value)))}
+                    className="h-7 text-xs"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="vector-direction" className="text-xs">Direction (°)</Label>
+                  <Input
+                    id="vector-direction"
+                    type="number"
+                    value={Number((properties.direction || 0).toFixed(2))}
+                    onChange={(e) => handlePropertyUpdate('direction', parseFloat(e.target.value) || 0)}
+                    className="h-7 text-xs"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <Label className="text-xs">Components</Label>
+              <div className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-600 font-mono">
+                ({roundToUnit(properties.points[1].x - properties.points[0].x, unit)}, {roundToUnit(properties.points[1].y - properties.points[0].y, unit)}) {unit}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={properties.showComponents || false}
+                onChange={(e) => handlePropertyUpdate('showComponents', e.target.checked)}
+                className="w-3 h-3"
+              />
+              <Label className="text-xs">Show dashed components</Label>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sum and differences of two vectors */}
+      {selectedObjects.length === 2 && selectedObjects.every(obj => obj.type === 'vector') && (
+        <VectorSumCard vectorIds={[selectedObjects[0].id, selectedObjects[1].id]} />
+      )}
+
+      {/* Constraints */}
+      {selectedObjects.length === 1 && (
+        <ConstraintsCard objectId={selectedObjects[0].id} />
+      )}
+
+      {/* Triangle centres and constructions: a triangle, or three points */}
+      {((selectedObjects.length === 1 && selectedObjects[0].type === 'polygon' && selectedObjects[0].points?.length === 3) ||
+        (selectedObjects.length === 3 && selectedObjects.every(obj => obj.type === 'point'))) && (
+        <TriangleCard sourceIds={selectedObjects.map(obj => obj.id)} />
+      )}
+
+      {/* Reflect, rotate, translate or dilate the selection */}
+      <TransformCard objectIds={selectedObjects.map(obj => obj.id)} />
+
       {/* Angle Properties */}
       {properties.type === 'angle' && (
         <Card>
@@ -507,6 +777,177 @@ export default function PropertiesPanel({
                 {properties.angleValue?.toFixed(1)}°
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="angle-radius" className="text-xs">Arc Radius ({unit})</Label>
+                <Input
+                  id="angle-radius"
+                  type="number"
+                  min={4}
+                  value={roundToUnit(properties.angleRadius || 20, unit)}
+                  onChange={(e) => handlePropertyUpdate('angleRadius', Math.max(4, parseLength(e.target.value)))}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Arcs</Label>
+                <select
+                  value={properties.angleArcs || 1}
+                  onChange={(e) => handlePropertyUpdate('angleArcs', parseInt(e.target.value, 10))}
+                  className="h-7 text-xs w-full border border-gray-300 rounded px-1"
+                >
+                  <option value={1}>Single</option>
+                  <option value={2}>Double</option>
+                  <option value={3}>Triple</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs">Label</Label>
+              <select
+                value={properties.angleLabel || 'degrees'}
+                onChange={(e) => handlePropertyUpdate('angleLabel', e.target.value)}
+                className="h-7 text-xs w-full border border-gray-300 rounded px-1"
+              >
+                <option value="degrees">Degrees</option>
+                <option value="symbol">Symbol</option>
+                <option value="none">None</option>
+              </select>
+            </div>
+            {properties.angleLabel === 'symbol' && (
+              <div>
+                <Label htmlFor="angle-symbol" className="text-xs">Symbol (LaTeX)</Label>
+                <Input
+                  id="angle-symbol"
+                  value={properties.angleSymbol || ''}
+                  onChange={(e) => handlePropertyUpdate('angleSymbol', e.target.value)}
+                  placeholder="\alpha"
+                  className="h-7 text-xs font-mono"
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-500">A right angle is marked with a square.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Distance Properties */}
+      {properties.type === 'distance' && properties.points && properties.points.length >= 2 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Distance Measurement</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <Label className="text-xs">Length</Label>
+              <div className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-600">
+                {formatLength(Math.hypot(
+                  properties.points[1].x - properties.points[0].x,
+                  properties.points[1].y - properties.points[0].y
+                ), unit)}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Perpendicular Bisector Properties */}
+      {properties.type === 'perp_bisector' && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Bisector Markers</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={properties.showRightAngle || false}
+                onChange={(e) => handlePropertyUpdate('showRightAngle', e.target.checked)}
+                className="w-3 h-3"
+              />
+              <Label className="text-xs">Right-angle mark</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={properties.showEqualTicks || false}
+                onChange={(e) => handlePropertyUpdate('showEqualTicks', e.target.checked)}
+                className="w-3 h-3"
+              />
+              <Label className="text-xs">Equal-length ticks</Label>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Curve Properties */}
+      {curve && curveRange && selectedObjects.length === 1 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">
+              {curve.type === 'function' ? 'Function' : curve.type === 'parametric' ? 'Parametric Curve' : 'Polar Curve'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {curve.type === 'parametric' ? (
+              <>
+                <div>
+                  <Label className="text-xs">x(t)</Label>
+                  <Input
+                    value={properties.xExpression || ''}
+                    onChange={(e) => handleCurveUpdate('xExpression', e.target.value)}
+                    className="h-7 text-xs font-mono"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">y(t)</Label>
+                  <Input
+                    value={properties.yExpression || ''}
+                    onChange={(e) => handleCurveUpdate('yExpression', e.target.value)}
+                    className="h-7 text-xs font-mono"
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <Label className="text-xs">{curve.type === 'polar' ? 'r(θ)' : 'y = f(x)'}</Label>
+                <Input
+                  value={properties.expression || ''}
+                  onChange={(e) => handleCurveUpdate('expression', e.target.value)}
+                  className="h-7 text-xs font-mono"
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="text-xs">{curve.type === 'function' ? 'x' : curve.type === 'polar' ? 'θ' : 't'} from</Label>
+                <Input
+                  type="number"
+                  value={Number.isNaN(curveRange.domainMin) ? '' : curveRange.domainMin}
+                  onChange={(e) => handleCurveUpdate('domainMin', parseFloat(e.target.value))}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">to</Label>
+                <Input
+                  type="number"
+                  value={Number.isNaN(curveRange.domainMax) ? '' : curveRange.domainMax}
+                  onChange={(e) => handleCurveUpdate('domainMax', parseFloat(e.target.value))}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Samples</Label>
+                <Input
+                  type="number"
+                  value={Number.isNaN(curveRange.samples) ? '' : curveRange.samples}
+                  onChange={(e) => handleCurveUpdate('samples', parseInt(e.target.value, 10))}
+                  className="h-7 text-xs"
+                />
+              </div>
+            </div>
+            {curveError && <div className="text-xs text-red-600">{curveError}</div>}
           </CardContent>
         </Card>
       )}
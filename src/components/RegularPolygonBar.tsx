@@ -0,0 +1,48 @@
+'use client';
+
+import { useAppStore } from '@/lib/store';
+
+// Number of sides and star options shown over the canvas while the regular polygon tool is active
+export default function RegularPolygonBar() {
+  const { regularPolygonOptions, setRegularPolygonOptions } = useAppStore();
+  const { sides, star, innerRatio } = regularPolygonOptions;
+
+  return (
+    <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 bg-white border border-blue-400 rounded shadow-lg p-1 text-xs flex items-center gap-2">
+      <label className="flex items-center gap-1 px-1">
+        {star ? 'Points' : 'Sides'}
+        <input
+          type="number"
+          min={3}
+          max={50}
+          value={sides}
+          onChange={(e) => setRegularPolygonOptions({ sides: Math.max(3, Math.min(50, parseInt(e.target.value) || 3)) })}
+          className="w-12 border border-gray-300 rounded px-1"
+        />
+      </label>
+      {([false, true] as const).map(isStar => (
+        <button
+          key={String(isStar)}
+          onClick={() => setRegularPolygonOptions({ star: isStar })}
+          className={`px-2 py-1 rounded ${star === isStar ? 'bg-blue-500 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+        >
+          {isStar ? 'Star' : 'Polygon'}
+        </button>
+      ))}
+      {star && (
+        <label className="flex items-center gap-1 px-1">
+          Inner / outer
+          <input
+            type="number"
+            min={0.05}
+            max={0.95}
+            step={0.05}
+            value={innerRatio}
+            onChange={(e) => setRegularPolygonOptions({ innerRatio: Math.max(0.05, Math.min(0.95, parseFloat(e.target.value) || 0.5)) })}
+            className="w-14 border border-gray-300 rounded px-1"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,16 @@ import {
   Target,
   Route,
   Crosshair,
-  Image
+  Image,
+  SquareFunction,
+  Spline,
+  PieChart,
+  Egg,
+  X,
+  Tangent,
+  Compass,
+  MoveUpRight,
+  Hexagon
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -26,7 +35,12 @@ export type Tool =
   | 'line' 
   | 'rectangle' 
   | 'circle' 
+  | 'ellipse'
   | 'polygon'
+  | 'regular_polygon'
+  | 'bezier'
+  | 'arc'
+  | 'vector'
   | 'text'
   | 'image'
   | 'perpendicular'
@@ -35,6 +49,9 @@ export type Tool =
   | 'angle'
   | 'distance'
   | 'perp_bisector'
+  | 'intersection'
+  | 'tangent'
+  | 'compass'
   | 'function';
 
 interface ToolbarProps {
@@ -50,12 +67,18 @@ const basicTools = [
   { id: 'line' as Tool, icon: Minus, label: 'Line', shortcut: 'L' },
   { id: 'rectangle' as Tool, icon: Square, label: 'Rectangle', shortcut: 'R' },
   { id: 'circle' as Tool, icon: Circle, label: 'Circle', shortcut: 'C' },
+  { id: 'ellipse' as Tool, icon: Egg, label: 'Ellipse', shortcut: 'W' },
 ];
 
 const advancedTools = [
   { id: 'polygon' as Tool, icon: Pentagon, label: 'Polygon', shortcut: 'G' },
+  { id: 'regular_polygon' as Tool, icon: Hexagon, label: 'Regular Polygon / Star', shortcut: 'S' },
+  { id: 'bezier' as Tool, icon: Spline, label: 'Bézier Curve', shortcut: 'K' },
+  { id: 'arc' as Tool, icon: PieChart, label: 'Arc / Sector', shortcut: 'O' },
+  { id: 'vector' as Tool, icon: MoveUpRight, label: 'Vector', shortcut: 'U' },
   { id: 'text' as Tool, icon: Type, label: 'Text', shortcut: 'T' },
   { id: 'image' as Tool, icon: Image, label: 'Image', shortcut: 'I' },
+  { id: 'function' as Tool, icon: SquareFunction, label: 'Function Plot', shortcut: 'F' },
 ];
 
 const geometryTools = [
@@ -65,6 +88,9 @@ const geometryTools = [
   { id: 'angle' as Tool, icon: Route, label: 'Angle', shortcut: 'N' },
   { id: 'distance' as Tool, icon: Target, label: 'Distance', shortcut: 'D' },
   { id: 'perp_bisector' as Tool, icon: CornerUpRight, label: 'Perpendicular Bisector', shortcut: 'B' },
+  { id: 'intersection' as Tool, icon: X, label: 'Intersection', shortcut: 'X' },
+  { id: 'tangent' as Tool, icon: Tangent, label: 'Tangent', shortcut: 'J' },
+  { id: 'compass' as Tool, icon: Compass, label: 'Compass', shortcut: 'H' },
 ];
 
 
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { fromUnit } from '@/lib/units';
+import type { Transform, TransformKind } from '@/lib/transform';
+
+const KIND_LABELS: Record<TransformKind, string> = {
+  reflect: 'Reflect in a line',
+  rotate: 'Rotate about a point',
+  translate: 'Translate by a vector',
+  dilate: 'Dilate from a point',
+};
+
+const selectClassName = 'h-7 text-xs w-full border border-gray-300 rounded px-1';
+
+interface TransformCardProps {
+  objectIds: string[];
+}
+
+// Transformed copies of the selection, optionally linked so they follow the originals
+export default function TransformCard({ objectIds }: TransformCardProps) {
+  const { objects, transformObjects, canvas } = useAppStore();
+  const [kind, setKind] = useState<TransformKind>('reflect');
+  const [mirrorId, setMirrorId] = useState('');
+  const [centerId, setCenterId] = useState('');
+  const [angle, setAngle] = useState('90');
+  const [vectorX, setVectorX] = useState('1');
+  const [vectorY, setVectorY] = useState('0');
+  const [factor, setFactor] = useState('2');
+  const [linked, setLinked] = useState(true);
+
+  const mirrors = objects.filter(o => (o.type === 'line' || o.type === 'perp_bisector') && o.points && o.points.length >= 2);
+  const centers = objects.filter(o => o.type === 'point' && !objectIds.includes(o.id));
+
+  const numbers = { angle: parseFloat(angle), vectorX: parseFloat(vectorX), vectorY: parseFloat(vectorY), factor: parseFloat(factor) };
+  const canApply = {
+    reflect: !!mirrorId,
+    rotate: !isNaN(numbers.angle),
+    translate: !isNaN(numbers.vectorX) && !isNaN(numbers.vectorY),
+    dilate: !isNaN(numbers.factor) && numbers.factor !== 0,
+  }[kind];
+
+  const handleApply = () => {
+    if (!canApply) return;
+    const transform: Transform = { kind };
+    if (kind === 'reflect') transform.mirrorId = mirrorId;
+    if ((kind === 'rotate' || kind === 'dilate') && centerId) transform.centerId = centerId;
+    if (kind === 'rotate') transform.angle = numbers.angle;
+    // Entered in the display unit with Y up, stored in canvas pixels
+    if (kind === 'translate') {
+      transform.vector = { x: fromUnit(numbers.vectorX, canvas.displayUnit), y: -fromUnit(numbers.vectorY, canvas.displayUnit) };
+    }
+    if (kind === 'dilate') transform.factor = numbers.factor;
+    transformObjects(objectIds, transform, linked);
+  };
+
+  const centerSelect = (
+    <select value={centerId} onChange={(e) => setCenterId(e.target.value)} className={selectClassName}>
+      <option value="">Origin (0, 0)</option>
+      {centers.map(o => (
+        <option key={o.id} value={o.id}>{o.name || o.id}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Transform</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <select value={kind} onChange={(e) => setKind(e.target.value as TransformKind)} className={selectClassName}>
+          {(Object.keys(KIND_LABELS) as TransformKind[]).map(k => (
+            <option key={k} value={k}>{KIND_LABELS[k]}</option>
+          ))}
+        </select>
+
+        {kind === 'reflect' && (
+          <select value={mirrorId} onChange={(e) => setMirrorId(e.target.value)} className={selectClassName}>
+            <option value="">Mirror line…</option>
+            {mirrors.map(o => (
+              <option key={o.id} value={o.id}>{o.name || o.id}</option>
+            ))}
+          </select>
+        )}
+
+        {kind === 'rotate' && (
+          <div className="grid grid-cols-2 gap-2">
+            {centerSelect}
+            <Input type="number" value={angle} onChange={(e) => setAngle(e.target.value)} placeholder="Angle (°)" className="h-7 text-xs" />
+          </div>
+        )}
+
+        {kind === 'translate' && (
+          <div className="grid grid-cols-2 gap-2">
+            <Input type="number" value={vectorX} onChange={(e) => setVectorX(e.target.value)} placeholder={`x (${canvas.displayUnit})`} className="h-7 text-xs" />
+            <Input type="number" value={vectorY} onChange={(e) => setVectorY(e.target.value)} placeholder={`y (${canvas.displayUnit})`} className="h-7 text-xs" />
+          </div>
+        )}
+
+        {kind === 'dilate' && (
+          <div className="grid grid-cols-2 gap-2">
+            {centerSelect}
+            <Input type="number" value={factor} onChange={(e) => setFactor(e.target.value)} placeholder="Factor" className="h-7 text-xs" />
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={linked}
+            onChange={(e) => setLinked(e.target.checked)}
+            className="w-3 h-3"
+          />
+          <Label className="text-xs">Follow the originals</Label>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={handleApply} disabled={!canApply} className="h-7 w-full text-xs">
+          Create {objectIds.length === 1 ? 'copy' : `${objectIds.length} copies`}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
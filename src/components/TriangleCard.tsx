@@ -0,0 +1,73 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import type { TriangleElement } from '@/lib/dependencies';
+
+const CENTERS: { element: TriangleElement; label: string }[] = [
+  { element: 'centroid', label: 'Centroid' },
+  { element: 'circumcenter', label: 'Circumcenter' },
+  { element: 'incenter', label: 'Incenter' },
+  { element: 'orthocenter', label: 'Orthocenter' },
+];
+
+const CIRCLES: { element: TriangleElement; label: string }[] = [
+  { element: 'circumcircle', label: 'Circumcircle' },
+  { element: 'incircle', label: 'Incircle' },
+];
+
+const CEVIANS: { element: TriangleElement; label: string }[] = [
+  { element: 'altitude', label: 'Altitudes' },
+  { element: 'median', label: 'Medians' },
+  { element: 'angle_bisector', label: 'Bisectors' },
+];
+
+interface TriangleCardProps {
+  // A polygon with three corners, or three points in order
+  sourceIds: string[];
+}
+
+// One-click triangle centres, circles and cevians; they follow the triangle when it changes
+export default function TriangleCard({ sourceIds }: TriangleCardProps) {
+  const { addTriangleConstruction } = useAppStore();
+
+  const renderButtons = (items: typeof CENTERS, columns: string) => (
+    <div className={`grid ${columns} gap-1`}>
+      {items.map(({ element, label }) => (
+        <Button
+          key={element}
+          variant="outline"
+          size="sm"
+          onClick={() => addTriangleConstruction(element, sourceIds)}
+          className="h-7 text-xs px-1"
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Triangle</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Centers</Label>
+          {renderButtons(CENTERS, 'grid-cols-2')}
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Circles</Label>
+          {renderButtons(CIRCLES, 'grid-cols-2')}
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Through each corner</Label>
+          {renderButtons(CEVIANS, 'grid-cols-3')}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
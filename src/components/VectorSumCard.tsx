@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useAppStore, type DrawingObject } from '@/lib/store';
+
+type VectorRule = NonNullable<DrawingObject['vectorRule']>;
+
+interface VectorSumCardProps {
+  // Two vectors, in the order they were selected
+  vectorIds: [string, string];
+}
+
+// Sum and differences of two vectors; the result follows the vectors when they change
+export default function VectorSumCard({ vectorIds }: VectorSumCardProps) {
+  const { addVectorSum, getObjectById } = useAppStore();
+  const [rule, setRule] = useState<VectorRule>('parallelogram');
+
+  const [aId, bId] = vectorIds;
+  const a = getObjectById(aId)?.name || 'a';
+  const b = getObjectById(bId)?.name || 'b';
+
+  const operations: { label: string; kind: 'vector_sum' | 'vector_difference'; first: string; second: string }[] = [
+    { label: `${a} + ${b}`, kind: 'vector_sum', first: aId, second: bId },
+    { label: `${a} − ${b}`, kind: 'vector_difference', first: aId, second: bId },
+    { label: `${b} − ${a}`, kind: 'vector_difference', first: bId, second: aId },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Vector Sum</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <Label className="text-xs">Construction</Label>
+          <select
+            value={rule}
+            onChange={(e) => setRule(e.target.value as VectorRule)}
+            className="h-7 text-xs w-full border border-gray-300 rounded px-1"
+          >
+            <option value="parallelogram">Parallelogram</option>
+            <option value="tip_to_tail">Tip to tail</option>
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {operations.map(({ label, kind, first, second }) => (
+            <Button
+              key={`${kind}-${first}`}
+              variant="outline"
+              size="sm"
+              onClick={() => addVectorSum(kind, first, second, rule)}
+              className="h-7 text-xs px-1"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from '@/lib/store';
+import { analyzeConstraints, propagateChanges, solveConstraints } from '@/lib/constraints';
+import { distance } from '@/lib/geometry';
+import { circle, clone, line, object, point } from '@/lib/testUtils';
+
+const expectPoint = (actual: Point, expected: Point) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+};
+
+describe('solveConstraints', () => {
+  it('projects points onto lines and circles', () => {
+    const objects = [
+      line('g', { x: 0, y: 0 }, { x: 100, y: 0 }),
+      circle('k', { x: 0, y: 0 }, 50),
+      point('P', { x: 30, y: 20 }, { constraints: [{ type: 'point_on_line', targetId: 'g' }] }),
+      point('Q', { x: 0, y: 10 }, { constraints: [{ type: 'point_on_circle', targetId: 'k' }] }),
+    ];
+    expect(solveConstraints(objects).sort()).toEqual(['P', 'Q']);
+    expectPoint(objects[2].position, { x: 30, y: 0 });
+    expectPoint(objects[3].position, { x: 0, y: 50 });
+  });
+
+  it('reports nothing when every constraint already holds', () => {
+    const objects = [
+      line('g', { x: 0, y: 0 }, { x: 100, y: 0 }),
+      point('P', { x: 30, y: 0 }, { constraints: [{ type: 'point_on_line', targetId: 'g' }] }),
+    ];
+    expect(solveConstraints(objects)).toEqual([]);
+  });
+
+  it('turns a line around the endpoint pinned to a point', () => {
+    const objects = [
+      point('A', { x: 10, y: 10 }),
+      line('g', { x: 0, y: 0 }, { x: 30, y: 40 }, {
+        constraints: [
+          { type: 'coincident', targetId: 'A', handle: 'start' },
+          { type: 'horizontal' },
+          { type: 'fixed_length', value: 100 },
+        ],
+      }),
+    ];
+    solveConstraints(objects);
+    expectPoint(objects[1].points![0], { x: 10, y: 10 });
+    expectPoint(objects[1].points![1], { x: 110, y: 10 });
+  });
+
+  it('sets an angle counter-clockwise from the target line', () => {
+    const objects = [
+      line('g', { x: 0, y: 0 }, { x: 100, y: 0 }),
+      line('h', { x: 0, y: 0 }, { x: 100, y: 0 }, {
+        constraints: [{ type: 'coincident', targetId: 'g', handle: 'start' }, { type: 'fixed_angle', targetId: 'g', value: 90 }],
+      }),
+    ];
+    solveConstraints(objects);
+    // Canvas Y points down, so counter-clockwise on screen is up
+    expectPoint(objects[1].points![1], { x: 0, y: -100 });
+  });
+
+  it('moves a line or circle to touch a circle from the side it is on', () => {
+    const objects = [
+      circle('k', { x: 0, y: 0 }, 50),
+      line('t', { x: -100, y: 80 }, { x: 100, y: 80 }, { constraints: [{ type: 'tangent', targetId: 'k' }] }),
+      circle('c', { x: 100, y: 0 }, 20, { constraints: [{ type: 'tangent', targetId: 'k' }] }),
+      circle('e', { x: 200, y: 0 }, 10, { constraints: [{ type: 'equal_radius', targetId: 'k' }] }),
+    ];
+    solveConstraints(objects);
+    expect(objects[1].points![0].y).toBeCloseTo(50);
+    expect(distance(objects[2].position, objects[0].position)).toBeCloseTo(70);
+    expect(objects[3].radius).toBe(50);
+  });
+});
+
+describe('propagateChanges', () => {
+  it('moves owners with their targets and recomputes what is built on them', () => {
+    const objects = [
+      point('A', { x: 0, y: 0 }),
+      point('B', { x: 40, y: 0 }, { constraints: [{ type: 'coincident', targetId: 'A', offset: { x: 40, y: 0 } }] }),
+      object('point', { id: 'M', position: { x: 20, y: 0 }, construction: 'midpoint', pointAId: 'A', pointBId: 'B' }),
+    ];
+    const previous = clone(objects);
+    objects[0].position = { x: 100, y: 100 };
+    propagateChanges(objects, previous, ['A']);
+
+    expectPoint(objects[1].position, { x: 140, y: 100 });
+    expectPoint(objects[2].position, { x: 120, y: 100 });
+  });
+});
+
+describe('analyzeConstraints', () => {
+  it('counts the degrees of freedom left', () => {
+    const g = line('g', { x: 0, y: 0 }, { x: 100, y: 0 });
+    expect(analyzeConstraints(g, [g])).toEqual({ status: 'unconstrained', freedom: 4, residual: 0 });
+
+    const horizontal = line('h', { x: 0, y: 0 }, { x: 100, y: 0 }, { constraints: [{ type: 'horizontal' }] });
+    expect(analyzeConstraints(horizontal, [horizontal]).status).toBe('under');
+
+    const A = point('A', { x: 0, y: 0 });
+    const pinned = point('P', { x: 0, y: 0 }, { constraints: [{ type: 'coincident', targetId: 'A' }] });
+    expect(analyzeConstraints(pinned, [A, pinned])).toMatchObject({ status: 'full', freedom: 0 });
+  });
+
+  it('flags constraints that contradict each other', () => {
+    const both = line('g', { x: 0, y: 0 }, { x: 100, y: 0 }, { constraints: [{ type: 'horizontal' }, { type: 'vertical' }] });
+    solveConstraints([both]);
+    expect(analyzeConstraints(both, [both]).status).toBe('over');
+  });
+});
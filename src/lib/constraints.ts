@@ -0,0 +1,328 @@
+import type { DrawingObject, Point } from '@/lib/store';
+import { getConstructionKind, getParentIds, isDerived, updateDependents } from '@/lib/dependencies';
+import { distance, midpoint, pointOnCircle, pointOnSegment, segmentParameter } from '@/lib/geometry';
+
+// Geometric constraints. Each constraint belongs to the object it constrains (the
+// owner) and may name a target; solving moves the owner until the relation holds,
+// so owners follow their targets around. Constraints are solved by relaxation:
+// every pass projects each owner onto its constraints in turn, until nothing moves.
+
+export type ConstraintType =
+  | 'point_on_line' // point lies on target line
+  | 'point_on_circle' // point lies on target circle
+  | 'coincident' // owner handle sits on target handle (+ offset)
+  | 'fixed_length' // line has length `value` (px)
+  | 'fixed_angle' // line makes `value` degrees (counter-clockwise) with target line
+  | 'horizontal'
+  | 'vertical'
+  | 'tangent' // line or circle touches target circle
+  | 'equal_radius'; // circle has the target circle's radius
+
+// A point of an object that coincident constraints can pin
+export type ConstraintHandle = 'position' | 'start' | 'end';
+
+export interface Constraint {
+  type: ConstraintType;
+  targetId?: string;
+  handle?: ConstraintHandle; // coincident: owner point (default: start for lines, position otherwise)
+  targetHandle?: ConstraintHandle; // coincident: target point (same default)
+  value?: number;
+  offset?: Point; // coincident: owner handle = target handle + offset
+}
+
+export type ConstraintStatus = 'unconstrained' | 'under' | 'full' | 'over';
+
+export interface ConstraintAnalysis {
+  status: ConstraintStatus;
+  freedom: number; // Degrees of freedom left (negative when over-constrained)
+  residual: number; // Largest remaining violation in pixels
+}
+
+interface ConstraintInfo {
+  label: string;
+  ownerTypes: DrawingObject['type'][];
+  targetTypes: DrawingObject['type'][] | null; // null: no target
+  removes: number; // Degrees of freedom the constraint takes away
+  hasValue?: boolean;
+}
+
+export const CONSTRAINT_INFO: Record<ConstraintType, ConstraintInfo> = {
+  point_on_line: { label: 'Point on line', ownerTypes: ['point'], targetTypes: ['line'], removes: 1 },
+  point_on_circle: { label: 'Point on circle', ownerTypes: ['point'], targetTypes: ['circle'], removes: 1 },
+  coincident: {
+    label: 'Coincident',
+    ownerTypes: ['point', 'line', 'circle'],
+    targetTypes: ['point', 'line', 'circle', 'rectangle', 'text', 'polygon'],
+    removes: 2,
+  },
+  fixed_length: { label: 'Fixed length', ownerTypes: ['line'], targetTypes: null, removes: 1, hasValue: true },
+  fixed_angle: { label: 'Fixed angle', ownerTypes: ['line'], targetTypes: ['line'], removes: 1, hasValue: true },
+  horizontal: { label: 'Horizontal', ownerTypes: ['line'], targetTypes: null, removes: 1 },
+  vertical: { label: 'Vertical', ownerTypes: ['line'], targetTypes: null, removes: 1 },
+  tangent: { label: 'Tangent', ownerTypes: ['line', 'circle'], targetTypes: ['circle'], removes: 1 },
+  equal_radius: { label: 'Equal radius', ownerTypes: ['circle'], targetTypes: ['circle'], removes: 1 },
+};
+
+// Violations below this many pixels count as solved
+const TOLERANCE = 0.01;
+const MAX_ITERATIONS = 50;
+const DEFAULT_RADIUS = 30;
+
+const degreesOfFreedom = (obj: DrawingObject) => {
+  switch (obj.type) {
+    case 'line': return 4;
+    case 'circle': return 3;
+    default: return 2;
+  }
+};
+
+export const getDefaultHandle = (obj: DrawingObject): ConstraintHandle => (obj.type === 'line' ? 'start' : 'position');
+
+// Constraints to solve for an object: its own, plus the curve binding of points
+// constructed on a line or circle
+export const getConstraints = (obj: DrawingObject): Constraint[] => {
+  const constraints = obj.constraints ?? [];
+  const kind = getConstructionKind(obj);
+  if ((kind === 'point_on_line' || kind === 'point_on_circle') && obj.baseLineId) {
+    return [...constraints, { type: kind, targetId: obj.baseLineId }];
+  }
+  return constraints;
+};
+
+const getHandle = (obj: DrawingObject, handle: ConstraintHandle): Point | null => {
+  if (handle === 'position') return obj.position;
+  if (!obj.points || obj.points.length < 2) return null;
+  return handle === 'start' ? obj.points[0] : obj.points[obj.points.length - 1];
+};
+
+const setHandle = (obj: DrawingObject, handle: ConstraintHandle, point: Point) => {
+  if (handle === 'position') {
+    obj.position = { ...point };
+  } else if (obj.points && obj.points.length >= 2) {
+    obj.points[handle === 'start' ? 0 : obj.points.length - 1] = { ...point };
+  }
+};
+
+// Lines turn and stretch around an endpoint pinned by a coincident constraint, or their middle
+const getLineAnchor = (obj: DrawingObject): ConstraintHandle | 'middle' => {
+  const pinned = (obj.constraints ?? []).find(c => c.type === 'coincident' && c.handle !== 'position');
+  return pinned ? pinned.handle ?? 'start' : 'middle';
+};
+
+// Replace a line's endpoints with a segment of the given direction and length around its anchor
+const setLineDirection = (obj: DrawingObject, angle: number, length: number) => {
+  const [start, end] = [obj.points![0], obj.points![obj.points!.length - 1]];
+  // Canvas Y points down; angles are counter-clockwise on screen
+  const dx = Math.cos(angle) * length;
+  const dy = -Math.sin(angle) * length;
+  const anchor = getLineAnchor(obj);
+  let newStart: Point;
+  if (anchor === 'start') {
+    newStart = start;
+  } else if (anchor === 'end') {
+    newStart = { x: end.x - dx, y: end.y - dy };
+  } else {
+    const middle = midpoint(start, end);
+    newStart = { x: middle.x - dx / 2, y: middle.y - dy / 2 };
+  }
+  obj.points![0] = { ...newStart };
+  obj.points![obj.points!.length - 1] = { x: newStart.x + dx, y: newStart.y + dy };
+};
+
+const lineAngle = (points: Point[]) => {
+  const [start, end] = [points[0], points[points.length - 1]];
+  return Math.atan2(-(end.y - start.y), end.x - start.x);
+};
+
+const lineLength = (points: Point[]) => distance(points[0], points[points.length - 1]);
+
+const hasSegment = (obj?: DrawingObject): obj is DrawingObject & { points: Point[] } => {
+  return !!obj?.points && obj.points.length >= 2;
+};
+
+// Move `obj` so that `constraint` holds. Returns how far off it was, in pixels,
+// or null when the constraint does not apply (missing or unsuitable target).
+// With `dryRun` only the violation is measured.
+const applyConstraint = (
+  obj: DrawingObject,
+  constraint: Constraint,
+  target: DrawingObject | undefined,
+  dryRun = false
+): number | null => {
+  switch (constraint.type) {
+    case 'point_on_line': {
+      if (!hasSegment(target)) return null;
+      const [a, b] = [target.points[0], target.points[target.points.length - 1]];
+      const projected = pointOnSegment(a, b, segmentParameter(obj.position, a, b));
+      const error = distance(obj.position, projected);
+      if (!dryRun) obj.position = projected;
+      return error;
+    }
+
+    case 'point_on_circle': {
+      if (!target || target.type !== 'circle') return null;
+      const radius = target.radius || DEFAULT_RADIUS;
+      const current = distance(obj.position, target.position);
+      const angle = current === 0 ? 0 : Math.atan2(obj.position.y - target.position.y, obj.position.x - target.position.x);
+      if (!dryRun) obj.position = pointOnCircle(target.position, radius, angle);
+      return Math.abs(current - radius);
+    }
+
+    case 'coincident': {
+      if (!target) return null;
+      const handle = getHandle(obj, constraint.handle ?? getDefaultHandle(obj));
+      const targetHandle = getHandle(target, constraint.targetHandle ?? getDefaultHandle(target));
+      if (!handle || !targetHandle) return null;
+      const goal = {
+        x: targetHandle.x + (constraint.offset?.x ?? 0),
+        y: targetHandle.y + (constraint.offset?.y ?? 0),
+      };
+      const error = distance(handle, goal);
+      if (!dryRun) setHandle(obj, constraint.handle ?? getDefaultHandle(obj), goal);
+      return error;
+    }
+
+    case 'fixed_length': {
+      if (!hasSegment(obj) || constraint.value === undefined) return null;
+      const error = Math.abs(lineLength(obj.points) - constraint.value);
+      if (!dryRun) setLineDirection(obj, lineLength(obj.points) === 0 ? 0 : lineAngle(obj.points), constraint.value);
+      return error;
+    }
+
+    case 'horizontal':
+    case 'vertical': {
+      if (!hasSegment(obj)) return null;
+      const [start, end] = [obj.points[0], obj.points[obj.points.length - 1]];
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const error = constraint.type === 'horizontal' ? Math.abs(dy) : Math.abs(dx);
+      if (!dryRun && error > 0) {
+        // Keep the direction the line already points in
+        const angle = constraint.type === 'horizontal'
+          ? (dx < 0 ? Math.PI : 0)
+          : (dy > 0 ? -Math.PI / 2 : Math.PI / 2);
+        setLineDirection(obj, angle, lineLength(obj.points));
+      }
+      return error;
+    }
+
+    case 'fixed_angle': {
+      if (!hasSegment(obj) || !hasSegment(target) || constraint.value === undefined) return null;
+      const length = lineLength(obj.points);
+      const goal = lineAngle(target.points) + (constraint.value * Math.PI) / 180;
+      // Distance the free end has to travel
+      const error = Math.abs(length * Math.sin((lineAngle(obj.points) - goal) / 2)) * 2;
+      if (!dryRun) setLineDirection(obj, goal, length);
+      return error;
+    }
+
+    case 'tangent': {
+      if (!target || target.type !== 'circle') return null;
+      const radius = target.radius || DEFAULT_RADIUS;
+
+      if (hasSegment(obj)) {
+        const [a, b] = [obj.points[0], obj.points[obj.points.length - 1]];
+        const length = distance(a, b);
+        if (length === 0) return null;
+        const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+        // Signed distance from the centre; stay on the side the line is on
+        const signed = (target.position.x - a.x) * normal.x + (target.position.y - a.y) * normal.y;
+        const shift = signed - (signed < 0 ? -radius : radius);
+        if (!dryRun) {
+          obj.points = obj.points.map(p => ({ x: p.x + normal.x * shift, y: p.y + normal.y * shift }));
+        }
+        return Math.abs(shift);
+      }
+
+      if (obj.type === 'circle') {
+        const ownRadius = obj.radius || DEFAULT_RADIUS;
+        const current = distance(obj.position, target.position);
+        // Touch from outside or inside, whichever is closer
+        const outside = ownRadius + radius;
+        const inside = Math.abs(ownRadius - radius);
+        const goal = Math.abs(current - outside) <= Math.abs(current - inside) ? outside : inside;
+        if (!dryRun) {
+          const angle = current === 0 ? 0 : Math.atan2(obj.position.y - target.position.y, obj.position.x - target.position.x);
+          obj.position = pointOnCircle(target.position, goal, angle);
+        }
+        return Math.abs(current - goal);
+      }
+      return null;
+    }
+
+    case 'equal_radius': {
+      if (obj.type !== 'circle' || !target || target.type !== 'circle') return null;
+      const goal = target.radius || DEFAULT_RADIUS;
+      const error = Math.abs((obj.radius || DEFAULT_RADIUS) - goal);
+      if (!dryRun) obj.radius = goal;
+      return error;
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Solve all constraints in place. Returns the ids of the objects that moved.
+export const solveConstraints = (objects: DrawingObject[]) => {
+  const byId = new Map(objects.map(obj => [obj.id, obj]));
+  const owners = objects.filter(obj => getConstraints(obj).length > 0);
+  const changed = new Set<string>();
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let largestError = 0;
+    owners.forEach(obj => {
+      getConstraints(obj).forEach(constraint => {
+        const target = constraint.targetId ? byId.get(constraint.targetId) : undefined;
+        const error = applyConstraint(obj, constraint, target);
+        if (error !== null && error > TOLERANCE) {
+          changed.add(obj.id);
+          largestError = Math.max(largestError, error);
+        }
+      });
+    });
+    if (largestError <= TOLERANCE) break;
+  }
+
+  return Array.from(changed);
+};
+
+// After objects in `changedIds` moved: recompute constructions, solve constraints,
+// and recompute the constructions that depend on whatever the solver moved
+export const propagateChanges = (objects: DrawingObject[], previous: DrawingObject[], changedIds: string[]) => {
+  updateDependents(objects, previous, changedIds);
+  const solvedIds = solveConstraints(objects);
+  if (solvedIds.length > 0) {
+    // Objects whose parents the solver moved are recomputed from those parents
+    const moved = new Set(solvedIds);
+    const byId = new Map(objects.map(obj => [obj.id, obj]));
+    updateDependents(objects, previous, solvedIds.filter(id => !getParentIds(byId.get(id)!).some(parentId => moved.has(parentId))));
+  }
+};
+
+// How constrained an object is, for display
+export const analyzeConstraints = (obj: DrawingObject, objects: DrawingObject[]): ConstraintAnalysis => {
+  const constraints = getConstraints(obj);
+  if (constraints.length === 0) {
+    return { status: 'unconstrained', freedom: degreesOfFreedom(obj), residual: 0 };
+  }
+
+  const byId = new Map(objects.map(o => [o.id, o]));
+  // Constructed objects are already fully determined by their parents, apart from
+  // points that can slide along a curve
+  const kind = getConstructionKind(obj);
+  const curvePoint = kind === 'point_on_line' || kind === 'point_on_circle';
+  let freedom = isDerived(obj) && !curvePoint ? 0 : degreesOfFreedom(obj);
+  let residual = 0;
+
+  constraints.forEach(constraint => {
+    freedom -= CONSTRAINT_INFO[constraint.type].removes;
+    const target = constraint.targetId ? byId.get(constraint.targetId) : undefined;
+    // Measure on a copy so nothing moves
+    const error = applyConstraint(JSON.parse(JSON.stringify(obj)), constraint, target, true);
+    residual = Math.max(residual, error ?? 0);
+  });
+
+  const status = freedom < 0 || residual > TOLERANCE * 100 ? 'over' : freedom === 0 ? 'full' : 'under';
+  return { status, freedom, residual };
+};
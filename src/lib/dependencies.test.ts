@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { collectDescendants, createsCycle, intersectObjects, sortDescendants, updateDependents } from '@/lib/dependencies';
+import { circle, clone, find, line, object, point } from '@/lib/testUtils';
+
+// A and B with their midpoint M, and N halfway from M to C
+const chain = () => [
+  object('point', { id: 'N', construction: 'midpoint', pointAId: 'M', pointBId: 'C' }),
+  point('A', { x: 0, y: 0 }),
+  point('B', { x: 100, y: 0 }),
+  object('point', { id: 'M', construction: 'midpoint', pointAId: 'A', pointBId: 'B' }),
+  point('C', { x: 50, y: 50 }),
+];
+
+describe('dependency graph', () => {
+  it('collects everything built on an object', () => {
+    expect(collectDescendants(chain(), ['A']).sort()).toEqual(['M', 'N']);
+    expect(collectDescendants(chain(), ['C'])).toEqual(['N']);
+  });
+
+  it('orders descendants after their parents', () => {
+    expect(sortDescendants(chain(), ['A'])).toEqual({ order: ['M', 'N'], cyclic: [] });
+  });
+
+  it('refuses a dependency that closes a cycle', () => {
+    expect(createsCycle(chain(), 'A', ['N'])).toBe(true);
+    expect(createsCycle(chain(), 'A', ['A'])).toBe(true);
+    expect(createsCycle(chain(), 'C', ['B'])).toBe(false);
+  });
+});
+
+describe('updateDependents', () => {
+  it('recomputes constructions through the chain', () => {
+    const objects = chain();
+    updateDependents(objects, clone(objects), ['A', 'B']);
+    expect(find(objects, 'M').position).toEqual({ x: 50, y: 0 });
+    expect(find(objects, 'N').position).toEqual({ x: 50, y: 25 });
+
+    const previous = clone(objects);
+    find(objects, 'B').position = { x: 200, y: 100 };
+    updateDependents(objects, previous, ['B']);
+    expect(find(objects, 'M').position).toEqual({ x: 100, y: 50 });
+    expect(find(objects, 'N').position).toEqual({ x: 75, y: 50 });
+  });
+
+  it('carries a point on a line along at the same fraction', () => {
+    const objects = [
+      line('g', { x: 0, y: 0 }, { x: 100, y: 0 }),
+      point('P', { x: 25, y: 0 }, { construction: 'point_on_line', baseLineId: 'g', pointAId: 'line' }),
+    ];
+    const previous = clone(objects);
+    find(objects, 'g').points = [{ x: 0, y: 0 }, { x: 0, y: 200 }];
+    updateDependents(objects, previous, ['g']);
+    expect(find(objects, 'P').position).toEqual({ x: 0, y: 50 });
+  });
+
+  it('hides an intersection while its parents do not cross and shows it again when they do', () => {
+    const objects = [
+      line('g', { x: 0, y: 0 }, { x: 100, y: 0 }),
+      line('h', { x: 50, y: -50 }, { x: 50, y: 50 }),
+      object('point', { id: 'S', construction: 'intersection', pointAId: 'g', pointBId: 'h', intersectionIndex: 0 }),
+    ];
+    updateDependents(objects, clone(objects), ['g']);
+    expect(find(objects, 'S')).toMatchObject({ position: { x: 50, y: 0 }, visible: true });
+
+    find(objects, 'h').points = [{ x: 150, y: -50 }, { x: 150, y: 50 }];
+    updateDependents(objects, clone(objects), ['h']);
+    expect(find(objects, 'S')).toMatchObject({ position: { x: 50, y: 0 }, visible: false, constructionMissing: true });
+
+    find(objects, 'h').points = [{ x: 80, y: -50 }, { x: 80, y: 50 }];
+    updateDependents(objects, clone(objects), ['h']);
+    expect(find(objects, 'S')).toMatchObject({ position: { x: 80, y: 0 }, visible: true, constructionMissing: false });
+  });
+
+  it('hides a bisector or circle through two points while the points coincide', () => {
+    const objects = [
+      point('A', { x: 0, y: 0 }),
+      point('B', { x: 100, y: 0 }),
+      object('perp_bisector', { id: 'm', construction: 'perp_bisector', pointAId: 'A', pointBId: 'B' }),
+      object('circle', { id: 'k', construction: 'circle_through', pointAId: 'A', pointBId: 'B' }),
+    ];
+    updateDependents(objects, clone(objects), ['A']);
+    expect(find(objects, 'm')).toMatchObject({ position: { x: 50, y: 0 }, visible: true });
+    expect(find(objects, 'k')).toMatchObject({ radius: 100, visible: true });
+
+    find(objects, 'B').position = { x: 0, y: 0 };
+    updateDependents(objects, clone(objects), ['B']);
+    expect(find(objects, 'm')).toMatchObject({ position: { x: 50, y: 0 }, visible: false, constructionMissing: true });
+    expect(find(objects, 'k')).toMatchObject({ radius: 100, visible: false, constructionMissing: true });
+
+    find(objects, 'B').position = { x: 0, y: 60 };
+    updateDependents(objects, clone(objects), ['B']);
+    expect(find(objects, 'm')).toMatchObject({ position: { x: 0, y: 30 }, visible: true, constructionMissing: false });
+    expect(find(objects, 'k')).toMatchObject({ radius: 60, visible: true, constructionMissing: false });
+  });
+
+  it('skips objects on a cycle', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const objects = [
+      point('A', { x: 0, y: 0 }),
+      object('point', { id: 'M', construction: 'midpoint', pointAId: 'A', pointBId: 'N' }),
+      object('point', { id: 'N', construction: 'midpoint', pointAId: 'A', pointBId: 'M' }),
+    ];
+    expect(updateDependents(objects, clone(objects), ['A']).sort()).toEqual(['M', 'N']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('intersectObjects', () => {
+  it('finds crossings of segments only between their ends', () => {
+    const g = line('g', { x: 0, y: 0 }, { x: 100, y: 0 });
+    expect(intersectObjects(g, line('h', { x: 50, y: -50 }, { x: 50, y: 50 }))).toEqual([{ x: 50, y: 0 }]);
+    expect(intersectObjects(g, line('h', { x: 150, y: -50 }, { x: 150, y: 50 }))).toEqual([null]);
+    // Constructed lines extend indefinitely
+    const parallel = line('p', { x: 0, y: 0 }, { x: 100, y: 0 }, { construction: 'parallel' });
+    expect(intersectObjects(parallel, line('h', { x: 150, y: -50 }, { x: 150, y: 50 }))).toEqual([{ x: 150, y: 0 }]);
+  });
+
+  it('keeps a slot for each crossing of circles', () => {
+    const crossings = intersectObjects(circle('a', { x: 0, y: 0 }, 50), circle('b', { x: 60, y: 0 }, 50));
+    expect(crossings).toHaveLength(2);
+    crossings.forEach(crossing => expect(crossing?.x).toBeCloseTo(30));
+    expect(intersectObjects(circle('a', { x: 0, y: 0 }, 50), circle('b', { x: 200, y: 0 }, 50))).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,560 @@
+import type { DrawingObject, Point } from '@/lib/store';
+import {
+  angleAt,
+  angleBisectorFoot,
+  centroid,
+  circleIntersections,
+  circumcenter,
+  commonTangents,
+  directionAngle,
+  distance,
+  footOfPerpendicular,
+  incenter,
+  inradius,
+  isDegenerateTriangle,
+  lineCircleIntersections,
+  lineIntersection,
+  midpoint,
+  orthocenter,
+  parallelThrough,
+  perpendicularBisector,
+  perpendicularThrough,
+  pointOnCircle,
+  pointOnSegment,
+  reflectPoint,
+  segmentParameter,
+  segmentThrough,
+  tangentAt,
+  tangentPointsFrom,
+} from '@/lib/geometry';
+import { getTransformMatrix, transformObject } from '@/lib/transform';
+
+// Dependency graph for geometric constructions. A derived object names its parents
+// through baseLineId / pointAId / pointBId / pointCId / vertexId; when a parent changes, its descendants
+// are recomputed in topological order.
+
+export type ConstructionKind =
+  | 'midpoint' // point between pointAId and pointBId
+  | 'perpendicular' // line perpendicular to baseLineId, through pointAId if set
+  | 'parallel' // line parallel to baseLineId, through pointAId if set
+  | 'angle' // angle at vertexId between the arms through pointAId and pointBId
+  | 'distance' // dimension line from pointAId to pointBId
+  | 'perp_bisector' // perpendicular bisector of pointAId-pointBId
+  | 'intersection' // point where the lines/circles pointAId and pointBId cross
+  | 'tangent_at' // tangent to circle baseLineId where the ray from its centre to pointAId meets it
+  | 'tangent_from' // tangent from the outside point pointAId to circle baseLineId (tangentIndex 0-1)
+  | 'common_tangent' // tangent to both circles pointAId and pointBId (tangentIndex 0-3)
+  | 'circle_through' // circle centred on pointAId through pointBId
+  | 'compass' // circle centred on pointCId with radius |pointAId pointBId|
+  | 'transform' // copy of pointAId under `transform` (its mirror line and centre are parents too)
+  | 'triangle' // triangleElement of the triangle baseLineId (a polygon) or pointAId-pointBId-pointCId
+  | 'vector_sum' // vector pointAId + pointBId, from the tail of pointAId
+  | 'vector_difference' // vector pointAId - pointBId, from the tail of pointAId
+  | 'point_on_line' // point bound to line baseLineId (pointAId holds 'line')
+  | 'point_on_circle'; // point bound to circle baseLineId (pointAId holds 'circle')
+
+// Centres, circles and cevians (lines from a vertex to the opposite side) of a triangle
+export type TriangleElement =
+  | 'centroid'
+  | 'circumcenter'
+  | 'incenter'
+  | 'orthocenter'
+  | 'circumcircle'
+  | 'incircle'
+  | 'altitude'
+  | 'median'
+  | 'angle_bisector';
+
+export const TRIANGLE_CEVIANS: TriangleElement[] = ['altitude', 'median', 'angle_bisector'];
+
+// Half length of a constructed perpendicular/parallel line that has no length of its own
+const DEFAULT_HALF_LENGTH = 100;
+
+// Files from before the `construction` field are classified by the project migrations
+export const getConstructionKind = (obj: DrawingObject): ConstructionKind | null => obj.construction ?? null;
+
+// Ids of the objects a derived object is computed from
+export const getParentIds = (obj: DrawingObject): string[] => {
+  switch (getConstructionKind(obj)) {
+    case 'midpoint':
+    case 'distance':
+    case 'perp_bisector':
+    case 'intersection':
+    case 'common_tangent':
+    case 'circle_through':
+    case 'vector_sum':
+    case 'vector_difference':
+      return [obj.pointAId, obj.pointBId].filter((id): id is string => !!id);
+    case 'angle':
+      return [obj.pointAId, obj.vertexId, obj.pointBId].filter((id): id is string => !!id);
+    case 'perpendicular':
+    case 'parallel':
+    case 'tangent_at':
+    case 'tangent_from':
+      return [obj.baseLineId, obj.pointAId].filter((id): id is string => !!id);
+    case 'point_on_line':
+    case 'point_on_circle':
+      // pointAId only records the curve type here
+      return obj.baseLineId ? [obj.baseLineId] : [];
+    case 'compass':
+      return [obj.pointAId, obj.pointBId, obj.pointCId].filter((id): id is string => !!id);
+    case 'transform':
+      return [obj.pointAId, obj.transform?.mirrorId, obj.transform?.centerId].filter((id): id is string => !!id);
+    case 'triangle':
+      return obj.baseLineId ? [obj.baseLineId] : [obj.pointAId, obj.pointBId, obj.pointCId].filter((id): id is string => !!id);
+    default:
+      return [];
+  }
+};
+
+export const isDerived = (obj: DrawingObject) => getParentIds(obj).length > 0;
+
+// Derived objects whose whole geometry comes from their parents cannot be dragged
+const FIXED_KINDS: ConstructionKind[] = [
+  'midpoint',
+  'angle',
+  'distance',
+  'perp_bisector',
+  'intersection',
+  'tangent_at',
+  'tangent_from',
+  'common_tangent',
+  'circle_through',
+  'compass',
+  'transform',
+  'triangle',
+  'vector_sum',
+  'vector_difference',
+];
+
+export const isDraggable = (obj: DrawingObject) => {
+  const kind = getConstructionKind(obj);
+  return !kind || !FIXED_KINDS.includes(kind);
+};
+
+// Lines that only exist between their endpoints; constructed lines extend indefinitely
+const INFINITE_LINES: (ConstructionKind | undefined)[] = ['perpendicular', 'parallel', 'tangent_at', 'tangent_from', 'common_tangent'];
+
+const isSegment = (obj: DrawingObject) => obj.type === 'line' && !INFINITE_LINES.includes(obj.construction);
+
+const isStraight = (obj: DrawingObject) => {
+  return (obj.type === 'line' || obj.type === 'perp_bisector') && !!obj.points && obj.points.length >= 2;
+};
+
+// Can two objects be intersected with intersectObjects?
+export const canIntersect = (obj: DrawingObject) => isStraight(obj) || obj.type === 'circle';
+
+// Candidate crossings of two lines/circles: one for two lines, two otherwise, in a fixed
+// order so an intersection point keeps its index while the parents move. A candidate is
+// null when it does not exist (parallel lines, disjoint circles, off the end of a segment).
+export const intersectObjects = (a: DrawingObject, b: DrawingObject): (Point | null)[] => {
+  const withinSegment = (obj: DrawingObject, t: number) => !isSegment(obj) || (t >= -1e-9 && t <= 1 + 1e-9);
+
+  if (isStraight(a) && isStraight(b)) {
+    const crossing = lineIntersection(a.points![0], a.points![1], b.points![0], b.points![1]);
+    return [crossing && withinSegment(a, crossing.t) && withinSegment(b, crossing.u) ? crossing.point : null];
+  }
+
+  if (a.type === 'circle' && b.type === 'circle') {
+    const crossings = circleIntersections(a.position, a.radius || 30, b.position, b.radius || 30);
+    return [crossings[0] ?? null, crossings[1] ?? null];
+  }
+
+  const line = isStraight(a) ? a : isStraight(b) ? b : null;
+  const circle = a.type === 'circle' ? a : b.type === 'circle' ? b : null;
+  if (line && circle) {
+    const crossings = lineCircleIntersections(line.points![0], line.points![1], circle.position, circle.radius || 30);
+    return [0, 1].map(i => (crossings[i] && withinSegment(line, crossings[i].t) ? crossings[i].point : null));
+  }
+
+  return [];
+};
+
+// parent id -> ids of the objects computed from it
+export const buildDependents = (objects: DrawingObject[]) => {
+  const dependents = new Map<string, string[]>();
+  objects.forEach(obj => {
+    getParentIds(obj).forEach(parentId => {
+      const children = dependents.get(parentId);
+      if (children) {
+        children.push(obj.id);
+      } else {
+        dependents.set(parentId, [obj.id]);
+      }
+    });
+  });
+  return dependents;
+};
+
+// All objects that (transitively) depend on any of `ids`, not including `ids` themselves
+export const collectDescendants = (objects: DrawingObject[], ids: string[]) => {
+  const dependents = buildDependents(objects);
+  const found = new Set<string>();
+  const queue = [...ids];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (dependents.get(id) ?? []).forEach(childId => {
+      if (!found.has(childId) && !ids.includes(childId)) {
+        found.add(childId);
+        queue.push(childId);
+      }
+    });
+  }
+  return Array.from(found);
+};
+
+// Order the descendants of `changedIds` so every object comes after its parents.
+// Objects on a dependency cycle can never be ordered and are returned separately.
+export const sortDescendants = (objects: DrawingObject[], changedIds: string[]) => {
+  const byId = new Map(objects.map(obj => [obj.id, obj]));
+  const affected = new Set(collectDescendants(objects, changedIds));
+
+  // Kahn's algorithm over the affected subgraph
+  const pending = new Map<string, number>();
+  affected.forEach(id => {
+    const parents = getParentIds(byId.get(id)!).filter(parentId => affected.has(parentId));
+    pending.set(id, parents.length);
+  });
+
+  const dependents = buildDependents(objects);
+  const ready = Array.from(affected).filter(id => pending.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    (dependents.get(id) ?? []).forEach(childId => {
+      if (!affected.has(childId)) return;
+      const remaining = pending.get(childId)! - 1;
+      pending.set(childId, remaining);
+      if (remaining === 0) ready.push(childId);
+    });
+  }
+
+  const cyclic = Array.from(affected).filter(id => !order.includes(id));
+  return { order, cyclic };
+};
+
+// Would making `childId` depend on `parentIds` close a cycle?
+export const createsCycle = (objects: DrawingObject[], childId: string, parentIds: string[]) => {
+  return parentIds.includes(childId) || collectDescendants(objects, [childId]).some(id => parentIds.includes(id));
+};
+
+// Endpoints of a tangent line, or null when it does not exist. `circle` is the circle
+// baseLineId (or pointAId for common tangents) and `other` the point or second circle.
+export const computeTangent = (
+  kind: 'tangent_at' | 'tangent_from' | 'common_tangent',
+  circle: DrawingObject,
+  other: DrawingObject,
+  index = 0
+): [Point, Point] | null => {
+  if (circle.type !== 'circle') return null;
+  const radius = circle.radius || 30;
+
+  if (kind === 'tangent_at') {
+    const tangent = tangentAt(circle.position, radius, other.position);
+    return tangent && segmentThrough(tangent.touch, -tangent.normal.y, tangent.normal.x, DEFAULT_HALF_LENGTH);
+  }
+
+  if (kind === 'tangent_from') {
+    // From the point to as far past the touching point
+    const touch = tangentPointsFrom(other.position, circle.position, radius)[index];
+    if (!touch || distance(touch, other.position) === 0) return null;
+    return [other.position, reflectPoint(other.position, touch)];
+  }
+
+  if (other.type !== 'circle') return null;
+  const tangent = commonTangents(circle.position, radius, other.position, other.radius || 30)[index];
+  if (!tangent) return null;
+  // Between the touching points, with some overhang on either side
+  const halfLength = distance(tangent.touch1, tangent.touch2) / 2 + DEFAULT_HALF_LENGTH / 2;
+  return segmentThrough(midpoint(tangent.touch1, tangent.touch2), -tangent.normal.y, tangent.normal.x, halfLength);
+};
+
+// Hidden while the construction has no solution, and shown again when it has one
+const showIfSolved = (obj: DrawingObject, updates: Partial<DrawingObject> | null): Partial<DrawingObject> => {
+  if (!updates) return { visible: false, constructionMissing: true };
+  return obj.constructionMissing ? { ...updates, visible: true, constructionMissing: false } : updates;
+};
+
+// Corners of the triangle a construction is built on: the vertices of the polygon
+// baseLineId, or the points pointAId, pointBId and pointCId. Null unless there are exactly three.
+export const getTriangleVertices = (
+  refs: Pick<DrawingObject, 'baseLineId' | 'pointAId' | 'pointBId' | 'pointCId'>,
+  getObject: (id?: string) => DrawingObject | undefined
+): [Point, Point, Point] | null => {
+  if (refs.baseLineId) {
+    const polygon = getObject(refs.baseLineId);
+    if (polygon?.type !== 'polygon' || polygon.points?.length !== 3) return null;
+    return [polygon.points[0], polygon.points[1], polygon.points[2]];
+  }
+  const corners = [refs.pointAId, refs.pointBId, refs.pointCId].map(id => getObject(id));
+  if (!corners.every(corner => corner?.type === 'point')) return null;
+  return [corners[0]!.position, corners[1]!.position, corners[2]!.position];
+};
+
+// Geometry of a triangle element: a position for centres, position and radius for
+// circles, and the segment from vertex `vertexIndex` to the opposite side for cevians.
+// Null for a degenerate triangle.
+export const computeTriangleElement = (
+  element: TriangleElement,
+  vertices: [Point, Point, Point],
+  vertexIndex = 0
+): Partial<DrawingObject> | null => {
+  const [a, b, c] = vertices;
+  if (isDegenerateTriangle(a, b, c)) return null;
+
+  const atPosition = (position: Point | null) => (position ? { position } : null);
+  switch (element) {
+    case 'centroid':
+      return { position: centroid(a, b, c) };
+    case 'circumcenter':
+      return atPosition(circumcenter(a, b, c));
+    case 'incenter':
+      return atPosition(incenter(a, b, c));
+    case 'orthocenter':
+      return atPosition(orthocenter(a, b, c));
+    case 'circumcircle': {
+      const center = circumcenter(a, b, c);
+      return center && { position: center, radius: distance(center, a) };
+    }
+    case 'incircle': {
+      const center = incenter(a, b, c);
+      return center && { position: center, radius: inradius(a, b, c) };
+    }
+    case 'altitude':
+    case 'median':
+    case 'angle_bisector': {
+      const vertex = vertices[vertexIndex];
+      const p1 = vertices[(vertexIndex + 1) % 3];
+      const p2 = vertices[(vertexIndex + 2) % 3];
+      const foot = element === 'altitude'
+        ? footOfPerpendicular(vertex, p1, p2)
+        : element === 'median' ? midpoint(p1, p2) : angleBisectorFoot(vertex, p1, p2);
+      return { position: vertex, points: [vertex, foot] };
+    }
+    default:
+      return null;
+  }
+};
+
+// Geometry of the vector from `tail` to `head`
+export const vectorBetween = (tail: Point, head: Point): Partial<DrawingObject> => ({
+  position: tail,
+  points: [tail, head],
+  magnitude: distance(tail, head),
+  direction: directionAngle(tail, head),
+});
+
+// Sum or difference of the vectors a and b, drawn from the tail of a, with dashed copies
+// of the vectors it is built from as `vectorGuides`: b (or -b) moved to the head of a for
+// the tip-to-tail rule, and also moved to the tail of a, with a from its head, to close the
+// parallelogram. Null unless both are vectors.
+export const computeVectorSum = (
+  kind: 'vector_sum' | 'vector_difference',
+  a: DrawingObject,
+  b: DrawingObject,
+  rule: DrawingObject['vectorRule'] = 'parallelogram'
+): Partial<DrawingObject> | null => {
+  if (a.type !== 'vector' || b.type !== 'vector' || a.points?.length !== 2 || b.points?.length !== 2) return null;
+  const [tail, headA] = a.points;
+  const sign = kind === 'vector_sum' ? 1 : -1;
+  const shift = (p: Point): Point => ({
+    x: p.x + sign * (b.points![1].x - b.points![0].x),
+    y: p.y + sign * (b.points![1].y - b.points![0].y),
+  });
+  const head = shift(headA);
+  const guides = [headA, head];
+  if (rule === 'parallelogram') {
+    guides.push(tail, shift(tail), shift(tail), head);
+  }
+  return { ...vectorBetween(tail, head), vectorGuides: guides };
+};
+
+// Geometry of a derived object given the current and previous state of its parents.
+// Returns null when a parent is missing or unusable.
+const recompute = (
+  obj: DrawingObject,
+  getCurrent: (id?: string) => DrawingObject | undefined,
+  getPrevious: (id?: string) => DrawingObject | undefined
+): Partial<DrawingObject> | null => {
+  switch (getConstructionKind(obj)) {
+    case 'midpoint': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      if (!a || !b) return null;
+      return { position: midpoint(a.position, b.position) };
+    }
+
+    case 'angle': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      if (!a || !b) return null;
+      // Angles saved before the vertex was recorded are measured at the midpoint
+      const vertex = obj.vertexId ? getCurrent(obj.vertexId)?.position : midpoint(a.position, b.position);
+      if (!vertex) return null;
+      return {
+        position: vertex,
+        points: [a.position, vertex, b.position],
+        angleValue: angleAt(a.position, vertex, b.position),
+      };
+    }
+
+    case 'distance': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      if (!a || !b) return null;
+      return {
+        position: midpoint(a.position, b.position),
+        points: [a.position, b.position],
+      };
+    }
+
+    case 'perp_bisector': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      if (!a || !b) return null;
+      // As long as the segment it bisects; there is none while the points coincide
+      const length = distance(a.position, b.position);
+      return showIfSolved(obj, length > 0 ? {
+        position: midpoint(a.position, b.position),
+        points: perpendicularBisector(a.position, b.position, length / 2),
+      } : null);
+    }
+
+    case 'intersection': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      if (!a || !b) return null;
+      const crossing = intersectObjects(a, b)[obj.intersectionIndex ?? 0];
+      return showIfSolved(obj, crossing && { position: crossing });
+    }
+
+    case 'tangent_at':
+    case 'tangent_from':
+    case 'common_tangent': {
+      const kind = getConstructionKind(obj) as 'tangent_at' | 'tangent_from' | 'common_tangent';
+      const circle = getCurrent(kind === 'common_tangent' ? obj.pointAId : obj.baseLineId);
+      const other = getCurrent(kind === 'common_tangent' ? obj.pointBId : obj.pointAId);
+      if (!circle || !other) return null;
+      const points = computeTangent(kind, circle, other, obj.tangentIndex);
+      return showIfSolved(obj, points && { position: points[0], points });
+    }
+
+    case 'circle_through':
+    case 'compass': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      const center = getConstructionKind(obj) === 'compass' ? getCurrent(obj.pointCId) : a;
+      if (!a || !b || !center) return null;
+      const radius = distance(a.position, b.position);
+      return showIfSolved(obj, radius > 0 ? { position: center.position, radius } : null);
+    }
+
+    case 'transform': {
+      const source = getCurrent(obj.pointAId);
+      const matrix = obj.transform && getTransformMatrix(obj.transform, getCurrent);
+      if (!source || !matrix) return null;
+      return transformObject(source, matrix, obj.type);
+    }
+
+    case 'triangle': {
+      const vertices = getTriangleVertices(obj, getCurrent);
+      if (!vertices || !obj.triangleElement) return null;
+      return computeTriangleElement(obj.triangleElement, vertices, obj.triangleVertex);
+    }
+
+    case 'vector_sum':
+    case 'vector_difference': {
+      const a = getCurrent(obj.pointAId);
+      const b = getCurrent(obj.pointBId);
+      if (!a || !b) return null;
+      return computeVectorSum(getConstructionKind(obj) as 'vector_sum' | 'vector_difference', a, b, obj.vectorRule);
+    }
+
+    case 'perpendicular':
+    case 'parallel': {
+      const base = getCurrent(obj.baseLineId);
+      if (!base?.points || base.points.length < 2) return null;
+      const [p1, p2] = base.points;
+      if (distance(p1, p2) === 0) return null;
+
+      // Through the chosen point, or keep the line centred where it is
+      let through;
+      let halfLength = DEFAULT_HALF_LENGTH;
+      if (obj.points && obj.points.length >= 2) {
+        through = midpoint(obj.points[0], obj.points[1]);
+        halfLength = distance(obj.points[0], obj.points[1]) / 2 || DEFAULT_HALF_LENGTH;
+      }
+      if (obj.pointAId) {
+        const throughPoint = getCurrent(obj.pointAId);
+        if (!throughPoint) return null;
+        through = throughPoint.position;
+      }
+      if (!through) return null;
+
+      const construct = getConstructionKind(obj) === 'perpendicular' ? perpendicularThrough : parallelThrough;
+      return { points: construct(p1, p2, through, halfLength) };
+    }
+
+    case 'point_on_line': {
+      const line = getCurrent(obj.baseLineId);
+      if (!line?.points || line.points.length < 2) return null;
+      // Keep the point at the same fraction along the line
+      const previous = getPrevious(obj.baseLineId)?.points ?? line.points;
+      const t = segmentParameter(obj.position, previous[0], previous[1]);
+      return { position: pointOnSegment(line.points[0], line.points[1], t) };
+    }
+
+    case 'point_on_circle': {
+      const circle = getCurrent(obj.baseLineId);
+      if (!circle || circle.type !== 'circle') return null;
+      // Keep the point at the same angle around the centre
+      const previousCenter = getPrevious(obj.baseLineId)?.position ?? circle.position;
+      const angle = Math.atan2(obj.position.y - previousCenter.y, obj.position.x - previousCenter.x);
+      return { position: pointOnCircle(circle.position, circle.radius || 30, angle) };
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Recompute everything that depends on `changedIds`, in place. `previous` is the object
+// list before the change, used to carry points on curves along with their curve.
+// Returns the ids skipped because they sit on a dependency cycle.
+export const updateDependents = (objects: DrawingObject[], previous: DrawingObject[], changedIds: string[]) => {
+  const byId = new Map(objects.map(obj => [obj.id, obj]));
+  const previousById = new Map(previous.map(obj => [obj.id, obj]));
+  const getCurrent = (id?: string) => (id ? byId.get(id) : undefined);
+  const getPrevious = (id?: string) => (id ? previousById.get(id) : undefined);
+
+  const { order, cyclic } = sortDescendants(objects, changedIds);
+  order.forEach(id => {
+    const obj = byId.get(id)!;
+    const updates = recompute(obj, getCurrent, getPrevious);
+    if (updates) Object.assign(obj, updates);
+  });
+
+  if (cyclic.length > 0) {
+    console.warn('Dependency cycle between objects, not updated:', cyclic);
+  }
+  return cyclic;
+};
+
+// Turn a derived object into a free one that keeps its current geometry
+export const detachConstruction = (obj: DrawingObject) => {
+  delete obj.construction;
+  delete obj.baseLineId;
+  delete obj.pointAId;
+  delete obj.pointBId;
+  delete obj.pointCId;
+  delete obj.vertexId;
+  delete obj.intersectionIndex;
+  delete obj.constructionMissing;
+  delete obj.tangentIndex;
+  delete obj.transform;
+  delete obj.triangleElement;
+  delete obj.triangleVertex;
+  delete obj.vectorRule;
+  delete obj.vectorGuides;
+};
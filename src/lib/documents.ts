@@ -0,0 +1,146 @@
+import type { DrawingObject } from '@/lib/store';
+import {
+  PROJECT_VERSION,
+  createProjectFile,
+  migrateProject,
+  readProjectFile,
+  type ProjectData,
+  type ProjectFile,
+} from '@/lib/project';
+
+// Drawing library: every document is kept in IndexedDB as a project file plus its
+// undo history and a thumbnail of the canvas
+
+const DB_NAME = 'tikzsketch';
+const DB_VERSION = 1;
+const STORE_NAME = 'documents';
+
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  thumbnail: string | null; // PNG data URL rendered from the canvas
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StoredDocument extends DocumentSummary {
+  project: ProjectFile;
+  history: DrawingObject[][];
+  historyIndex: number;
+}
+
+// A document ready to load into the store
+export interface LoadedDocument {
+  summary: DocumentSummary;
+  project: ProjectData;
+  history: DrawingObject[][];
+  historyIndex: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against the documents store
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const toSummary = ({ id, name, thumbnail, createdAt, updatedAt }: StoredDocument): DocumentSummary => ({
+  id, name, thumbnail, createdAt, updatedAt,
+});
+
+export const generateDocumentId = () => `doc-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+// All documents, most recently edited first
+export const listDocuments = async () => {
+  const documents = await withStore<StoredDocument[]>('readonly', (store) => store.getAll());
+  return documents.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadDocument = async (id: string): Promise<LoadedDocument | null> => {
+  const stored = await withStore<StoredDocument | undefined>('readonly', (store) => store.get(id));
+  if (!stored) return null;
+
+  const project = readProjectFile(migrateProject(stored.project));
+  // Undo history is kept as raw objects, so it is only trusted for the current format
+  const historyIsCurrent = stored.project.version === PROJECT_VERSION && stored.history.length > 0;
+
+  return {
+    summary: toSummary(stored),
+    project,
+    history: historyIsCurrent ? stored.history : [project.objects],
+    historyIndex: historyIsCurrent ? Math.min(stored.historyIndex, stored.history.length - 1) : 0,
+  };
+};
+
+// The stored name always comes from the project
+export const saveDocument = async (
+  summary: Omit<DocumentSummary, 'name'>,
+  project: ProjectData,
+  history: DrawingObject[][],
+  historyIndex: number
+) => {
+  const stored: StoredDocument = {
+    id: summary.id,
+    thumbnail: summary.thumbnail,
+    createdAt: summary.createdAt,
+    updatedAt: summary.updatedAt,
+    name: project.name,
+    project: createProjectFile(project),
+    history,
+    historyIndex,
+  };
+  await withStore('readwrite', (store) => store.put(stored));
+  return toSummary(stored);
+};
+
+export const deleteStoredDocument = async (id: string) => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+// Canvas thumbnails: the canvas registers a renderer while it is mounted
+let thumbnailRenderer: (() => string | null) | null = null;
+
+export const setThumbnailRenderer = (renderer: (() => string | null) | null) => {
+  thumbnailRenderer = renderer;
+};
+
+export const renderThumbnail = () => {
+  try {
+    return thumbnailRenderer?.() ?? null;
+  } catch (e) {
+    console.warn('Failed to render thumbnail:', e);
+    return null;
+  }
+};
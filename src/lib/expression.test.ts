@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExpressionError,
+  evaluateExpression,
+  getCurveSegments,
+  parseExpression,
+  sampleCurve,
+  toPgfMath,
+  validateCurve,
+} from '@/lib/expression';
+
+const evaluate = (source: string, x: number, variables?: readonly string[]) => evaluateExpression(parseExpression(source, variables), x);
+
+const pgf = (source: string) => toPgfMath(parseExpression(source));
+
+describe('parseExpression', () => {
+  it('follows the usual precedence', () => {
+    expect(evaluate('1 + 2 * 3', 0)).toBe(7);
+    expect(evaluate('2^3^2', 0)).toBe(512);
+    expect(evaluate('-x^2', 3)).toBe(-9);
+    expect(evaluate('8 / 4 / 2', 0)).toBe(1);
+  });
+
+  it('reads implicit multiplication', () => {
+    expect(evaluate('2x', 3)).toBe(6);
+    expect(evaluate('3sin(x)', Math.PI / 2)).toBeCloseTo(3);
+    expect(evaluate('(x+1)(x-1)', 3)).toBe(8);
+    expect(evaluate('2pi', 0)).toBeCloseTo(2 * Math.PI);
+  });
+
+  it('accepts a prefix and the variable names of the curve', () => {
+    expect(evaluate('f(x) = x^2', 2)).toBe(4);
+    expect(evaluate('y = x + 1', 2)).toBe(3);
+    expect(evaluate('r = 1 + cos(θ)', 0, ['t', 'theta', 'θ'])).toBe(2);
+  });
+
+  it('points at the mistake', () => {
+    expect(() => parseExpression('x +')).toThrow('Unexpected end of expression');
+    expect(() => parseExpression('x $ 2')).toThrow(new ExpressionError("Unexpected '$' at position 3", 2));
+    expect(() => parseExpression('y = ')).toThrow('Expression is empty');
+  });
+});
+
+describe('toPgfMath', () => {
+  it('keeps a negative variable value inside its power', () => {
+    expect(pgf('x^2')).toBe('(\\x)^2');
+    expect(toPgfMath(parseExpression('t^2', ['t']), '\\t')).toBe('(\\t)^2');
+  });
+
+  it('writes the parentheses the tree needs', () => {
+    expect(pgf('-x^2')).toBe('-((\\x)^2)');
+    expect(pgf('(x+1)^2')).toBe('((\\x)+1)^2');
+    expect(pgf('1 - (x - 1)')).toBe('1-((\\x)-1)');
+    expect(pgf('1 / (2x)')).toBe('1/(2*(\\x))');
+  });
+
+  it('gives trigonometric functions radians', () => {
+    expect(pgf('sin(2x)')).toBe('sin((2*(\\x)) r)');
+    expect(pgf('ln(x) + e')).toBe('ln((\\x))+exp(1)');
+  });
+
+  it('writes numbers without exponent notation', () => {
+    expect(pgf('1e-7 * x')).toBe('0.0000001*(\\x)');
+    expect(pgf('2.5e-8')).toBe('0.000000025');
+    expect(pgf('1.25e21')).toBe('1250000000000000000000');
+  });
+});
+
+describe('sampleCurve', () => {
+  it('splits a curve where it is undefined or runs off', () => {
+    const segments = getCurveSegments({ type: 'function', expression: '1/x', domainMin: -2, domainMax: 2, samples: 41 });
+    expect(segments).toHaveLength(2);
+    expect(segments[0].to).toBeLessThan(0);
+    expect(segments[1].from).toBeGreaterThan(0);
+  });
+
+  it('drops pieces of a single sample', () => {
+    const segments = sampleCurve(t => ({ x: t, y: t === 1 ? NaN : t }), 0, 2, 3);
+    expect(segments).toEqual([]);
+  });
+});
+
+describe('validateCurve', () => {
+  it('names the expression that does not parse', () => {
+    expect(validateCurve({ type: 'parametric', xExpression: 'cos(t)', yExpression: 'sin(' })).toBe('y(t): Unexpected end of expression');
+  });
+
+  it('checks the domain and sample count', () => {
+    expect(validateCurve({ type: 'function', expression: 'x', domainMin: 1, domainMax: 1 })).toBe('Domain start must be less than its end');
+    expect(validateCurve({ type: 'polar', expression: 't', samples: 1 })).toBe('Samples must be a whole number from 2 to 1000');
+    expect(validateCurve({ type: 'function', expression: 'x^2' })).toBeNull();
+  });
+});
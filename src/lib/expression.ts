@@ -0,0 +1,400 @@
+import type { DrawingObject, Point } from '@/lib/store';
+
+// Expressions for function plots and curves: + - * / ^, implicit multiplication
+// (2x, 3sin(x), (x+1)(x-1)), the constants pi and e, and the functions below, in one
+// variable. Parsed once into a tree that can be evaluated or written out as pgfmath.
+
+export const EXPRESSION_FUNCTIONS = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  ln: Math.log,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+};
+
+type FunctionName = keyof typeof EXPRESSION_FUNCTIONS;
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable' }
+  | { kind: 'constant'; name: 'pi' | 'e' }
+  | { kind: 'negate'; arg: ExpressionNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: FunctionName; arg: ExpressionNode };
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`, i);
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[a-zA-Zθ]/.test(char)) {
+      const match = /^[a-zA-Zθ]+/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0].toLowerCase(), position: i });
+      i += match[0].length;
+    } else if ('+-*/^()'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, position: i });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected '${char}' at position ${i + 1}`, i);
+    }
+  }
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+};
+
+// Split a run of letters such as "xsin" or "pix" into known names, longest first
+const splitName = (name: string, position: number, variables: readonly string[]): string[] => {
+  const known = [...Object.keys(EXPRESSION_FUNCTIONS), 'pi', 'e', ...variables].sort((a, b) => b.length - a.length);
+  const parts: string[] = [];
+  let rest = name;
+  while (rest.length > 0) {
+    const match = known.find(k => rest.startsWith(k));
+    if (!match) throw new ExpressionError(`Unknown name '${rest}' at position ${position + name.length - rest.length + 1}`, position);
+    parts.push(match);
+    rest = rest.slice(match.length);
+  }
+  return parts;
+};
+
+// Recursive descent, lowest precedence first:
+//   sum     := product (('+' | '-') product)*
+//   product := unary (('*' | '/') unary | implicit unary)*
+//   unary   := '-' unary | power
+//   power   := atom ('^' unary)?
+class Parser {
+  private tokens: Token[] = [];
+  private index = 0;
+
+  constructor(source: string, private variables: readonly string[]) {
+    // Names are split up front so "2xsin(x)" reads as 2 * x * sin(x)
+    tokenize(source).forEach(token => {
+      if (token.type === 'name') {
+        splitName(token.value, token.position, variables).forEach(value => this.tokens.push({ ...token, value }));
+      } else {
+        this.tokens.push(token);
+      }
+    });
+  }
+
+  parse() {
+    const node = this.sum();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ExpressionError(`Unexpected '${'value' in next ? next.value : ''}' at position ${next.position + 1}`, next.position);
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private isSymbol(value: string) {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isSymbol(value)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected '${value}' at position ${token.position + 1}`, token.position);
+    }
+    this.index++;
+  }
+
+  private sum(): ExpressionNode {
+    let node = this.product();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const op = (this.tokens[this.index++] as { value: '+' | '-' }).value;
+      node = { kind: 'binary', op, left: node, right: this.product() };
+    }
+    return node;
+  }
+
+  private product(): ExpressionNode {
+    let node = this.unary();
+    for (;;) {
+      if (this.isSymbol('*') || this.isSymbol('/')) {
+        const op = (this.tokens[this.index++] as { value: '*' | '/' }).value;
+        node = { kind: 'binary', op, left: node, right: this.unary() };
+      } else if (this.startsAtom()) {
+        node = { kind: 'binary', op: '*', left: node, right: this.unary() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  // Can the next token begin an implicitly multiplied factor?
+  private startsAtom() {
+    const token = this.peek();
+    return token.type === 'number' || token.type === 'name' || this.isSymbol('(');
+  }
+
+  private unary(): ExpressionNode {
+    if (this.isSymbol('-')) {
+      this.index++;
+      return { kind: 'negate', arg: this.unary() };
+    }
+    if (this.isSymbol('+')) {
+      this.index++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): ExpressionNode {
+    const base = this.atom();
+    if (this.isSymbol('^')) {
+      this.index++;
+      // Right associative: 2^3^2 = 2^(3^2)
+      return { kind: 'binary', op: '^', left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private atom(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.type === 'name') {
+      this.index++;
+      if (this.variables.includes(token.value)) return { kind: 'variable' };
+      if (token.value === 'pi' || token.value === 'e') return { kind: 'constant', name: token.value };
+      this.expect('(');
+      const arg = this.sum();
+      this.expect(')');
+      return { kind: 'call', name: token.value as FunctionName, arg };
+    }
+    if (this.isSymbol('(')) {
+      this.index++;
+      const node = this.sum();
+      this.expect(')');
+      return node;
+    }
+    throw new ExpressionError(
+      token.type === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.value}' at position ${token.position + 1}`,
+      token.position
+    );
+  }
+}
+
+// Optional "y =", "f(x) =", "x(t) =", "r =", ... in front of an expression
+const EXPRESSION_PREFIX = /^\s*([a-z]|[a-z]\s*\(\s*([a-z]+|θ)\s*\))\s*=/i;
+
+export const stripExpressionPrefix = (source: string) => source.replace(EXPRESSION_PREFIX, '').trim();
+
+// Accepts "x^2", "y = x^2" or "f(x) = x^2"; `variables` are the names of the variable
+export const parseExpression = (source: string, variables: readonly string[] = ['x']) => {
+  // Blank the prefix out rather than removing it, so error positions match the input
+  const body = source.replace(EXPRESSION_PREFIX, prefix => ' '.repeat(prefix.length));
+  if (!body.trim()) throw new ExpressionError('Expression is empty', 0);
+  return new Parser(body, variables).parse();
+};
+
+export const evaluateExpression = (node: ExpressionNode, x: number): number => {
+  switch (node.kind) {
+    case 'number': return node.value;
+    case 'variable': return x;
+    case 'constant': return node.name === 'pi' ? Math.PI : Math.E;
+    case 'negate': return -evaluateExpression(node.arg, x);
+    case 'call': return EXPRESSION_FUNCTIONS[node.name](evaluateExpression(node.arg, x));
+    case 'binary': {
+      const left = evaluateExpression(node.left, x);
+      const right = evaluateExpression(node.right, x);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+      }
+    }
+  }
+};
+
+const PRECEDENCE = { '+': 1, '-': 1, '*': 2, '/': 2, '^': 4 };
+
+// pgfmath cannot read exponent notation, so 1e-7 is written out as 0.0000001
+export const formatPgfNumber = (value: number) => {
+  const text = String(value);
+  const match = /^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+  const [, sign, whole, fraction = '', exponent] = match;
+  const digits = whole + fraction;
+  const point = 1 + Number(exponent); // Digits before the decimal point
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  return `${sign}${digits.padEnd(point, '0')}${digits.length > point ? `.${digits.slice(point)}` : ''}`;
+};
+
+// pgfmath source for a TikZ `plot` whose variable is `variable`. Trigonometric functions
+// in pgfmath take degrees, so their argument gets the `r` (radians) suffix.
+export const toPgfMath = (node: ExpressionNode, variable = '\\x'): string => {
+  const write = (node: ExpressionNode, parentPrecedence: number): string => {
+    const wrap = (text: string, precedence: number) => (precedence < parentPrecedence ? `(${text})` : text);
+    switch (node.kind) {
+      case 'number': return formatPgfNumber(node.value);
+      // pgfmath substitutes the value as text, so \x^2 would read as -2^2 for \x = -2
+      case 'variable': return `(${variable})`;
+      case 'constant': return node.name === 'pi' ? 'pi' : 'exp(1)';
+      // Anything but a plain operand is parenthesised, so -x^2 cannot be misread
+      case 'negate': return wrap(`-${write(node.arg, 5)}`, 3);
+      case 'call': {
+        const arg = write(node.arg, 0);
+        return ['sin', 'cos', 'tan'].includes(node.name) ? `${node.name}((${arg}) r)` : `${node.name}(${arg})`;
+      }
+      case 'binary': {
+        const precedence = PRECEDENCE[node.op];
+        // Bases of powers and right operands of - and / need their own parentheses
+        const left = write(node.left, node.op === '^' ? precedence + 1 : precedence);
+        const right = write(node.right, node.op === '^' ? precedence : precedence + 1);
+        return wrap(`${left}${node.op}${right}`, precedence);
+      }
+    }
+  };
+  return write(node, 0);
+};
+
+// A continuous piece of a sampled curve and the parameter range it covers
+export interface CurveSegment {
+  from: number;
+  to: number;
+  points: Point[];
+}
+
+// Sample a curve over [min, max]. It is split where it is undefined or runs off to
+// infinity, so asymptotes are not joined up.
+export const sampleCurve = (curve: (t: number) => Point, min: number, max: number, samples: number, limit = 1000) => {
+  const segments: CurveSegment[] = [];
+  let current: CurveSegment | null = null;
+  const count = Math.max(2, Math.round(samples));
+  for (let i = 0; i < count; i++) {
+    const t = min + ((max - min) * i) / (count - 1);
+    const point = curve(t);
+    if (Number.isFinite(point.x) && Number.isFinite(point.y) && Math.abs(point.x) <= limit && Math.abs(point.y) <= limit) {
+      if (!current) current = { from: t, to: t, points: [] };
+      current.to = t;
+      current.points.push(point);
+    } else if (current) {
+      segments.push(current);
+      current = null;
+    }
+  }
+  if (current) segments.push(current);
+  return segments.filter(segment => segment.points.length > 1);
+};
+
+// Plotted objects: y = f(x), parametric (x(t), y(t)) and polar r(θ)
+export type CurveType = 'function' | 'parametric' | 'polar';
+
+export type CurveDefinition = Pick<DrawingObject, 'expression' | 'xExpression' | 'yExpression' | 'domainMin' | 'domainMax' | 'samples'> & {
+  type: CurveType;
+};
+
+export const isCurve = (obj: { type: string }): obj is { type: CurveType } => {
+  return obj.type === 'function' || obj.type === 'parametric' || obj.type === 'polar';
+};
+
+// Accepted names of each curve's variable
+export const CURVE_VARIABLES: Record<CurveType, readonly string[]> = {
+  function: ['x'],
+  parametric: ['t'],
+  polar: ['t', 'theta', 'θ'],
+};
+
+// Domain (x in TikZ units, or the parameter) and sample count of a new curve
+export const CURVE_DEFAULTS: Record<CurveType, { domainMin: number; domainMax: number; samples: number }> = {
+  function: { domainMin: -5, domainMax: 5, samples: 100 },
+  parametric: { domainMin: 0, domainMax: 2 * Math.PI, samples: 200 },
+  polar: { domainMin: 0, domainMax: 2 * Math.PI, samples: 200 },
+};
+
+const MAX_CURVE_SAMPLES = 1000;
+
+// The expressions a curve is made of, by field
+export const getCurveExpressions = (curve: CurveDefinition) => {
+  return curve.type === 'parametric'
+    ? { xExpression: curve.xExpression ?? '', yExpression: curve.yExpression ?? '' }
+    : { expression: curve.expression ?? '' };
+};
+
+// Domain and sample count of a curve, falling back to the defaults for its type
+export const getCurveRange = (curve: CurveDefinition) => {
+  const defaults = CURVE_DEFAULTS[curve.type];
+  return {
+    domainMin: curve.domainMin ?? defaults.domainMin,
+    domainMax: curve.domainMax ?? defaults.domainMax,
+    samples: curve.samples ?? defaults.samples,
+  };
+};
+
+// Check a curve definition; returns an error message or null
+export const validateCurve = (curve: CurveDefinition) => {
+  for (const [field, source] of Object.entries(getCurveExpressions(curve))) {
+    try {
+      parseExpression(source, CURVE_VARIABLES[curve.type]);
+    } catch (e) {
+      const label = field === 'xExpression' ? 'x(t): ' : field === 'yExpression' ? 'y(t): ' : '';
+      return label + (e instanceof ExpressionError ? e.message : 'Invalid expression');
+    }
+  }
+  const { domainMin, domainMax, samples } = getCurveRange(curve);
+  if (!Number.isFinite(domainMin) || !Number.isFinite(domainMax) || domainMin >= domainMax) {
+    return `${curve.type === 'function' ? 'Domain' : 'Parameter range'} start must be less than its end`;
+  }
+  if (!Number.isInteger(samples) || samples < 2 || samples > MAX_CURVE_SAMPLES) {
+    return `Samples must be a whole number from 2 to ${MAX_CURVE_SAMPLES}`;
+  }
+  return null;
+};
+
+// Point on the curve (in TikZ units) for each value of its variable. Throws ExpressionError.
+export const compileCurve = (curve: CurveDefinition): ((t: number) => Point) => {
+  const variables = CURVE_VARIABLES[curve.type];
+  if (curve.type === 'parametric') {
+    const x = parseExpression(curve.xExpression ?? '', variables);
+    const y = parseExpression(curve.yExpression ?? '', variables);
+    return (t) => ({ x: evaluateExpression(x, t), y: evaluateExpression(y, t) });
+  }
+  const node = parseExpression(curve.expression ?? '', variables);
+  if (curve.type === 'polar') {
+    return (t) => {
+      const r = evaluateExpression(node, t);
+      return { x: r * Math.cos(t), y: r * Math.sin(t) };
+    };
+  }
+  return (x) => ({ x, y: evaluateExpression(node, x) });
+};
+
+// Sampled pieces of a curve in TikZ units, or none if it does not parse
+export const getCurveSegments = (curve: CurveDefinition) => {
+  try {
+    const { domainMin, domainMax, samples } = getCurveRange(curve);
+    return sampleCurve(compileCurve(curve), domainMin, domainMax, samples);
+  } catch {
+    return [];
+  }
+};
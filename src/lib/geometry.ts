@@ -0,0 +1,309 @@
+import type { Point } from '@/lib/store';
+
+// Plain geometry helpers in canvas coordinates (pixels, Y down)
+
+export const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+export const midpoint = (a: Point, b: Point): Point => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+// Unsigned angle at `vertex` between the rays to a and c, in degrees
+export const angleAt = (a: Point, vertex: Point, c: Point) => {
+  const ab = { x: a.x - vertex.x, y: a.y - vertex.y };
+  const cb = { x: c.x - vertex.x, y: c.y - vertex.y };
+  const cosTheta = (ab.x * cb.x + ab.y * cb.y) / (Math.hypot(ab.x, ab.y) * Math.hypot(cb.x, cb.y));
+  return (Math.acos(Math.max(-1, Math.min(1, cosTheta))) * 180) / Math.PI;
+};
+
+// Segment of length 2 * halfLength centred on `through` along direction (dx, dy)
+export const segmentThrough = (through: Point, dx: number, dy: number, halfLength: number): [Point, Point] => {
+  const magnitude = Math.hypot(dx, dy) || 1;
+  const unitX = dx / magnitude;
+  const unitY = dy / magnitude;
+  return [
+    { x: through.x - unitX * halfLength, y: through.y - unitY * halfLength },
+    { x: through.x + unitX * halfLength, y: through.y + unitY * halfLength },
+  ];
+};
+
+export const perpendicularThrough = (p1: Point, p2: Point, through: Point, halfLength: number) => {
+  return segmentThrough(through, -(p2.y - p1.y), p2.x - p1.x, halfLength);
+};
+
+export const parallelThrough = (p1: Point, p2: Point, through: Point, halfLength: number) => {
+  return segmentThrough(through, p2.x - p1.x, p2.y - p1.y, halfLength);
+};
+
+// Perpendicular bisector of segment a-b, centred on its midpoint
+export const perpendicularBisector = (a: Point, b: Point, halfLength: number) => {
+  return perpendicularThrough(a, b, midpoint(a, b), halfLength);
+};
+
+// Parameter t of the projection of `point` onto segment p1-p2, clamped to [0, 1]
+export const segmentParameter = (point: Point, p1: Point, p2: Point) => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return 0;
+  return Math.max(0, Math.min(1, ((point.x - p1.x) * dx + (point.y - p1.y) * dy) / lengthSq));
+};
+
+export const pointOnSegment = (p1: Point, p2: Point, t: number): Point => ({
+  x: p1.x + t * (p2.x - p1.x),
+  y: p1.y + t * (p2.y - p1.y),
+});
+
+export const pointOnCircle = (center: Point, radius: number, angle: number): Point => ({
+  x: center.x + radius * Math.cos(angle),
+  y: center.y + radius * Math.sin(angle),
+});
+
+// Mirror image of `point` through `center`
+export const reflectPoint = (point: Point, center: Point): Point => ({
+  x: 2 * center.x - point.x,
+  y: 2 * center.y - point.y,
+});
+
+// Control points of a smooth cubic Bézier path: each anchor's outgoing handle, and its
+// reflection as the incoming handle. A handle on its anchor gives a sharp corner.
+export const bezierControlPoints = (anchors: Point[], handles: Point[]) => {
+  const controlPoints: Point[] = [];
+  for (let i = 0; i < anchors.length - 1; i++) {
+    controlPoints.push(handles[i] ?? anchors[i], reflectPoint(handles[i + 1] ?? anchors[i + 1], anchors[i + 1]));
+  }
+  return controlPoints;
+};
+
+// Direction from `center` to `point` in degrees, counter-clockwise from +x with Y up (as in TikZ)
+export const directionAngle = (center: Point, point: Point) => {
+  return (Math.atan2(-(point.y - center.y), point.x - center.x) * 180) / Math.PI;
+};
+
+// Head of the vector from `tail` with length `magnitude` pointing `direction` degrees
+// counter-clockwise from +x (the inverse of distance and directionAngle)
+export const vectorHead = (tail: Point, magnitude: number, direction: number): Point => {
+  const angle = (direction * Math.PI) / 180;
+  // Rounded so that right angles give exactly horizontal and vertical vectors
+  const cos = Math.round(Math.cos(angle) * 1e12) / 1e12;
+  const sin = Math.round(Math.sin(angle) * 1e12) / 1e12;
+  return { x: tail.x + magnitude * cos, y: tail.y - magnitude * sin };
+};
+
+// Corners of the regular polygon with `sides` corners on the circle around `center`, the
+// first at `angle` (radians, clockwise on the canvas). With an inner radius, the corners of
+// a star with `sides` points instead, alternating between the two circles.
+export const regularPolygonCorners = (center: Point, radius: number, angle: number, sides: number, innerRadius?: number) => {
+  const corners: Point[] = [];
+  const step = (2 * Math.PI) / sides;
+  for (let i = 0; i < sides; i++) {
+    corners.push(pointOnCircle(center, radius, angle - i * step));
+    if (innerRadius !== undefined) corners.push(pointOnCircle(center, innerRadius, angle - (i + 0.5) * step));
+  }
+  return corners;
+};
+
+// Centre of a regular polygon or star: the average of its corners
+export const cornerCentroid = (corners: Point[]): Point => ({
+  x: corners.reduce((sum, p) => sum + p.x, 0) / corners.length,
+  y: corners.reduce((sum, p) => sum + p.y, 0) / corners.length,
+});
+
+// End angle of a counter-clockwise arc, moved by whole turns into (startAngle, startAngle + 360]
+export const normalizeArcEnd = (startAngle: number, endAngle: number) => {
+  const sweep = ((endAngle - startAngle) % 360 + 360) % 360;
+  return startAngle + (sweep === 0 ? 360 : sweep);
+};
+
+// Arc around `center` from the direction of `start` counter-clockwise to the direction of
+// `end`, with the radius set by `start`
+export const arcThrough = (center: Point, start: Point, end: Point) => {
+  const startAngle = directionAngle(center, start);
+  const endAngle = normalizeArcEnd(startAngle, directionAngle(center, end));
+  return { radius: distance(center, start), startAngle, endAngle };
+};
+
+// Half-width and half-height of the bounding box of an ellipse turned by `rotation` degrees
+export const ellipseExtents = (radiusX: number, radiusY: number, rotation: number) => {
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: Math.hypot(radiusX * cos, radiusY * sin),
+    y: Math.hypot(radiusX * sin, radiusY * cos),
+  };
+};
+
+// Angle markers: gap between concentric arcs, and the side of a right-angle square
+// relative to the arc radius
+export const ANGLE_ARC_SPACING = 4;
+export const RIGHT_ANGLE_SIZE = 0.7;
+
+// Angles within half a degree of 90 are marked with a square instead of an arc
+export const isRightAngle = (degrees: number) => Math.abs(degrees - 90) < 0.5;
+
+// The arc between the arms of the angle a-vertex-c on its inner side, as a start direction
+// and a sweep, both in degrees clockwise on the canvas
+export const interiorArc = (a: Point, vertex: Point, c: Point) => {
+  const angleA = (Math.atan2(a.y - vertex.y, a.x - vertex.x) * 180) / Math.PI;
+  const angleC = (Math.atan2(c.y - vertex.y, c.x - vertex.x) * 180) / Math.PI;
+  const sweep = ((angleC - angleA) % 360 + 360) % 360;
+  return sweep <= 180 ? { start: angleA, sweep } : { start: angleC, sweep: 360 - sweep };
+};
+
+// Crossing of the lines through p1-p2 and p3-p4, with its parameters t along p1-p2 and
+// u along p3-p4 (0 and 1 at the given points). Null for parallel lines.
+export const lineIntersection = (p1: Point, p2: Point, p3: Point, p4: Point) => {
+  const d1 = { x: p2.x - p1.x, y: p2.y - p1.y };
+  const d2 = { x: p4.x - p3.x, y: p4.y - p3.y };
+  const denominator = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(denominator) < 1e-9) return null;
+  const t = ((p3.x - p1.x) * d2.y - (p3.y - p1.y) * d2.x) / denominator;
+  const u = ((p3.x - p1.x) * d1.y - (p3.y - p1.y) * d1.x) / denominator;
+  return { point: pointOnSegment(p1, p2, t), t, u };
+};
+
+// Crossings of the line through p1-p2 with a circle, ordered along p1-p2, each with its
+// parameter t. A tangent line touches twice at the same point; a line that misses gives [].
+export const lineCircleIntersections = (p1: Point, p2: Point, center: Point, radius: number) => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const a = dx * dx + dy * dy;
+  if (a === 0) return [];
+  const b = 2 * (dx * (p1.x - center.x) + dy * (p1.y - center.y));
+  const c = (p1.x - center.x) ** 2 + (p1.y - center.y) ** 2 - radius * radius;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  const root = Math.sqrt(discriminant);
+  return [(-b - root) / (2 * a), (-b + root) / (2 * a)].map(t => ({ point: pointOnSegment(p1, p2, t), t }));
+};
+
+// Crossings of two circles: the one on the left of the line from the first centre to the
+// second (as seen on the canvas) comes first. Touching circles meet twice at the same point;
+// concentric, nested or separate circles give [].
+export const circleIntersections = (center1: Point, radius1: number, center2: Point, radius2: number) => {
+  const d = distance(center1, center2);
+  if (d === 0 || d > radius1 + radius2 || d < Math.abs(radius1 - radius2)) return [];
+  const along = (d * d + radius1 * radius1 - radius2 * radius2) / (2 * d);
+  const h = Math.sqrt(Math.max(0, radius1 * radius1 - along * along));
+  const ux = (center2.x - center1.x) / d;
+  const uy = (center2.y - center1.y) / d;
+  const base = { x: center1.x + ux * along, y: center1.y + uy * along };
+  return [
+    { x: base.x + uy * h, y: base.y - ux * h },
+    { x: base.x - uy * h, y: base.y + ux * h },
+  ];
+};
+
+// Triangle centres. Those defined by perpendiculars are null for a degenerate (flat) triangle.
+
+const doubleArea = (a: Point, b: Point, c: Point) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+export const isDegenerateTriangle = (a: Point, b: Point, c: Point) => Math.abs(doubleArea(a, b, c)) < 1e-6;
+
+export const centroid = (a: Point, b: Point, c: Point): Point => ({
+  x: (a.x + b.x + c.x) / 3,
+  y: (a.y + b.y + c.y) / 3,
+});
+
+export const circumcenter = (a: Point, b: Point, c: Point): Point | null => {
+  const d = 2 * doubleArea(a, b, c);
+  if (Math.abs(d) < 1e-6) return null;
+  const aSq = a.x * a.x + a.y * a.y;
+  const bSq = b.x * b.x + b.y * b.y;
+  const cSq = c.x * c.x + c.y * c.y;
+  return {
+    x: (aSq * (c.y - b.y) + bSq * (a.y - c.y) + cSq * (b.y - a.y)) / -d,
+    y: (aSq * (c.x - b.x) + bSq * (a.x - c.x) + cSq * (b.x - a.x)) / d,
+  };
+};
+
+// Weighted by the length of the opposite sides
+export const incenter = (a: Point, b: Point, c: Point): Point | null => {
+  const sideA = distance(b, c);
+  const sideB = distance(c, a);
+  const sideC = distance(a, b);
+  const perimeter = sideA + sideB + sideC;
+  if (perimeter === 0 || isDegenerateTriangle(a, b, c)) return null;
+  return {
+    x: (sideA * a.x + sideB * b.x + sideC * c.x) / perimeter,
+    y: (sideA * a.y + sideB * b.y + sideC * c.y) / perimeter,
+  };
+};
+
+export const inradius = (a: Point, b: Point, c: Point) => {
+  const perimeter = distance(b, c) + distance(c, a) + distance(a, b);
+  return perimeter === 0 ? 0 : Math.abs(doubleArea(a, b, c)) / perimeter;
+};
+
+// On the Euler line: H = A + B + C - 2O
+export const orthocenter = (a: Point, b: Point, c: Point): Point | null => {
+  const o = circumcenter(a, b, c);
+  if (!o) return null;
+  return { x: a.x + b.x + c.x - 2 * o.x, y: a.y + b.y + c.y - 2 * o.y };
+};
+
+// Foot of the perpendicular from `point` to the line through p1-p2 (not clamped to the segment)
+export const footOfPerpendicular = (point: Point, p1: Point, p2: Point): Point => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return p1;
+  return pointOnSegment(p1, p2, ((point.x - p1.x) * dx + (point.y - p1.y) * dy) / lengthSq);
+};
+
+// Where the bisector of the angle at `vertex` meets the opposite side p1-p2, which it
+// divides in the ratio of the adjacent sides
+export const angleBisectorFoot = (vertex: Point, p1: Point, p2: Point): Point => {
+  const toP1 = distance(vertex, p1);
+  const total = toP1 + distance(vertex, p2);
+  return total === 0 ? p1 : pointOnSegment(p1, p2, toP1 / total);
+};
+
+// Tangents. Touching points are on the circles; a `normal` is the unit vector from a
+// centre to its touching point, so the tangent runs along (-normal.y, normal.x).
+
+// Touching point and normal of the tangent at the point of the circle in the direction of `toward`
+export const tangentAt = (center: Point, radius: number, toward: Point) => {
+  const d = distance(center, toward);
+  if (d === 0) return null;
+  const normal = { x: (toward.x - center.x) / d, y: (toward.y - center.y) / d };
+  return { touch: { x: center.x + normal.x * radius, y: center.y + normal.y * radius }, normal };
+};
+
+// Where the two tangents from `point` touch the circle; [] when the point is inside it
+export const tangentPointsFrom = (point: Point, center: Point, radius: number) => {
+  const d = distance(center, point);
+  if (d === 0 || d < radius) return [];
+  const direction = Math.atan2(point.y - center.y, point.x - center.x);
+  const spread = Math.acos(Math.min(1, radius / d));
+  return [direction - spread, direction + spread].map(angle => pointOnCircle(center, radius, angle));
+};
+
+// The common tangents of two circles: two outer ones, then two that cross between the
+// circles. Each is null when it does not exist (one circle inside the other, or overlapping
+// circles for the inner pair).
+export const commonTangents = (center1: Point, radius1: number, center2: Point, radius2: number) => {
+  const d = distance(center1, center2);
+  const tangents: ({ touch1: Point; touch2: Point; normal: Point } | null)[] = [];
+  [1, -1].forEach(side => {
+    const c = d === 0 ? Infinity : (radius1 - side * radius2) / d;
+    [1, -1].forEach(turn => {
+      if (Math.abs(c) > 1) {
+        tangents.push(null);
+        return;
+      }
+      const h = Math.sqrt(1 - c * c);
+      const ux = (center2.x - center1.x) / d;
+      const uy = (center2.y - center1.y) / d;
+      const normal = { x: ux * c - turn * h * uy, y: uy * c + turn * h * ux };
+      tangents.push({
+        touch1: { x: center1.x + radius1 * normal.x, y: center1.y + radius1 * normal.y },
+        touch2: { x: center2.x + side * radius2 * normal.x, y: center2.y + side * radius2 * normal.y },
+        normal,
+      });
+    });
+  });
+  return tangents;
+};
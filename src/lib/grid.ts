@@ -0,0 +1,48 @@
+import type { CanvasSettings, Point } from '@/lib/store';
+
+// Grid geometry shared by the canvas, grid snapping and the TikZ coordinate system.
+// Every grid is centred on the origin, with `spacing` between neighbouring lines,
+// rings or lattice points.
+
+export type GridType = CanvasSettings['gridType'];
+
+// Polar grids have a spoke every POLAR_GRID_ANGLE degrees
+export const POLAR_GRID_ANGLE = 15;
+
+// Distance between the rows of an isometric (60°) lattice, per unit of spacing
+export const ISOMETRIC_ROW_HEIGHT = Math.sqrt(3) / 2;
+
+const clean = (value: number) => Math.round(value * 1e9) / 1e9 || 0;
+
+// Nearest grid point: a lattice point for cartesian and isometric grids; for polar
+// grids, where a ring crosses a spoke (or the centre)
+export const snapToGrid = (point: Point, gridType: GridType, spacing: number): Point => {
+  switch (gridType) {
+    case 'polar': {
+      const radius = Math.round(Math.hypot(point.x, point.y) / spacing) * spacing;
+      if (radius === 0) return { x: 0, y: 0 };
+      const step = (POLAR_GRID_ANGLE * Math.PI) / 180;
+      const angle = Math.round(Math.atan2(point.y, point.x) / step) * step;
+      return { x: clean(radius * Math.cos(angle)), y: clean(radius * Math.sin(angle)) };
+    }
+    case 'isometric': {
+      // Each row is shifted half a spacing from its neighbours, so try the rows either side
+      const rowHeight = spacing * ISOMETRIC_ROW_HEIGHT;
+      const row = point.y / rowHeight;
+      const candidates = [Math.floor(row), Math.ceil(row)].map(r => {
+        const shift = (r * spacing) / 2;
+        return { x: clean(Math.round((point.x - shift) / spacing) * spacing + shift), y: clean(r * rowHeight) };
+      });
+      return candidates.reduce((best, candidate) => (
+        Math.hypot(candidate.x - point.x, candidate.y - point.y) < Math.hypot(best.x - point.x, best.y - point.y)
+          ? candidate
+          : best
+      ));
+    }
+    default:
+      return {
+        x: Math.round(point.x / spacing) * spacing,
+        y: Math.round(point.y / spacing) * spacing,
+      };
+  }
+};
@@ -0,0 +1,262 @@
+import type { CanvasSettings, DrawingObject } from '@/lib/store';
+import type { Constraint } from '@/lib/constraints';
+import type { ConstructionKind } from '@/lib/dependencies';
+import { GRID_SUBDIVISIONS, PIXELS_PER_CM } from '@/lib/units';
+
+// .tikzsketch project files: versioned JSON holding the objects, canvas settings
+// and the image assets they reference.
+//
+// Version history:
+//   0 - unversioned: a bare DrawingObject[] (the old localStorage / scene format)
+//       or { objects, canvas } without format and version fields
+//   1 - { format, version, name, savedAt, canvas, objects, assets }, with image
+//       data moved out of the objects into the assets table
+//   2 - derived objects record their `construction` kind
+//   3 - centre and line-end constraints become `coincident` constraints
+//   4 - the canvas grid is set by units (`gridSubdivision` of a major step in
+//       `displayUnit`) instead of `gridSpacing` in pixels
+
+export const PROJECT_FORMAT = 'tikzsketch';
+export const PROJECT_VERSION = 4;
+export const PROJECT_FILE_EXTENSION = '.tikzsketch';
+export const DEFAULT_PROJECT_NAME = 'Untitled';
+
+export interface ProjectAsset {
+  mimeType: string;
+  data: string; // Base64 data URL
+}
+
+// Objects as stored in a file: image data is replaced by a reference into the assets table
+export type ProjectObject = Omit<DrawingObject, 'imageData'> & { assetId?: string };
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  canvas: Partial<CanvasSettings>;
+  objects: ProjectObject[];
+  assets: { [assetId: string]: ProjectAsset };
+}
+
+// What the app works with once a file has been loaded and its assets resolved
+export interface ProjectData {
+  name: string;
+  canvas: Partial<CanvasSettings>;
+  objects: DrawingObject[];
+}
+
+export class ProjectFileError extends Error {}
+
+// Parsed JSON of some earlier version, before migration
+type RawProject = Partial<Omit<ProjectFile, 'format' | 'objects'>> & {
+  format?: string;
+  objects?: (ProjectObject & { imageData?: string })[];
+};
+
+const getMimeType = (dataUrl: string) => {
+  const match = /^data:([^;,]+)/.exec(dataUrl);
+  return match ? match[1] : 'application/octet-stream';
+};
+
+// Move inline image data into a deduplicated assets table
+const extractAssets = (objects: DrawingObject[]) => {
+  const assets: ProjectFile['assets'] = {};
+  const assetIds = new Map<string, string>();
+
+  const fileObjects = objects.map(({ imageData, ...obj }): ProjectObject => {
+    if (!imageData) return obj;
+
+    let assetId = assetIds.get(imageData);
+    if (!assetId) {
+      assetId = `image${assetIds.size + 1}`;
+      assetIds.set(imageData, assetId);
+      assets[assetId] = { mimeType: getMimeType(imageData), data: imageData };
+    }
+    return { ...obj, assetId };
+  });
+
+  return { objects: fileObjects, assets };
+};
+
+// Version 1 derived objects only carried parent ids; tell the constructions apart by shape
+const inferConstruction = (obj: ProjectObject, objects: ProjectObject[]): ConstructionKind | undefined => {
+  if (obj.type === 'point' && obj.baseLineId && obj.pointAId === 'line') return 'point_on_line';
+  if (obj.type === 'point' && obj.baseLineId && obj.pointAId === 'circle') return 'point_on_circle';
+  if (obj.type === 'point' && obj.pointAId && obj.pointBId) return 'midpoint';
+  if (obj.type === 'angle' && obj.pointAId && obj.pointBId) return 'angle';
+
+  if (obj.type === 'line' && obj.baseLineId) {
+    const base = objects.find(o => o.id === obj.baseLineId);
+    if (!base?.points || base.points.length < 2 || !obj.points || obj.points.length < 2) return undefined;
+    const [b1, b2] = base.points;
+    const [p1, p2] = obj.points;
+    const cross = (b2.x - b1.x) * (p2.y - p1.y) - (b2.y - b1.y) * (p2.x - p1.x);
+    const dot = (b2.x - b1.x) * (p2.x - p1.x) + (b2.y - b1.y) * (p2.y - p1.y);
+    return Math.abs(dot) < Math.abs(cross) ? 'perpendicular' : 'parallel';
+  }
+  return undefined;
+};
+
+// Version 2 constraints could only pin a circle centre or a line end to another object
+const LEGACY_CONSTRAINT_HANDLES: Record<string, Constraint['handle']> = {
+  center: 'position',
+  start_point: 'start',
+  end_point: 'end',
+};
+
+const upgradeConstraint = (constraint: Constraint): Constraint => {
+  const handle = LEGACY_CONSTRAINT_HANDLES[constraint.type];
+  if (!handle) return constraint;
+  return { type: 'coincident', targetId: constraint.targetId, handle, targetHandle: 'position', offset: constraint.offset };
+};
+
+// Files before version 4 measured the grid in pixels, with 1cm lines by default. The grid is
+// now 1cm in cm, so a finer spacing becomes the nearest subdivision.
+const upgradeGridSpacing = ({ gridSpacing, ...canvas }: Partial<CanvasSettings> & { gridSpacing?: number }) => {
+  if (!gridSpacing || gridSpacing <= 0) return canvas;
+  const wanted = PIXELS_PER_CM / gridSpacing;
+  const gridSubdivision = GRID_SUBDIVISIONS.reduce((best, n) => (Math.abs(n - wanted) < Math.abs(best - wanted) ? n : best));
+  return { ...canvas, gridSubdivision };
+};
+
+// Each migration upgrades a file from version N to N + 1. When a change to
+// DrawingObject or CanvasSettings needs more than defaults for new optional
+// fields, bump PROJECT_VERSION and add the step here.
+const migrations: { [fromVersion: number]: (data: RawProject) => RawProject } = {
+  0: (data) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    name: data.name || DEFAULT_PROJECT_NAME,
+    savedAt: new Date().toISOString(),
+    canvas: data.canvas ?? {},
+    ...extractAssets((data.objects ?? []) as DrawingObject[]),
+  }),
+  1: (data) => ({
+    ...data,
+    version: 2,
+    objects: data.objects?.map((obj, _index, objects) => {
+      const construction = inferConstruction(obj, objects);
+      return construction ? { ...obj, construction } : obj;
+    }),
+  }),
+  2: (data) => ({
+    ...data,
+    version: 3,
+    objects: data.objects?.map(obj => (obj.constraints ? { ...obj, constraints: obj.constraints.map(upgradeConstraint) } : obj)),
+  }),
+  3: (data) => ({
+    ...data,
+    version: 4,
+    canvas: data.canvas && upgradeGridSpacing(data.canvas),
+  }),
+};
+
+// Fill in fields every DrawingObject must have, so files written by older
+// versions (or by hand) still render
+const normalizeObject = (obj: ProjectObject, index: number): ProjectObject => {
+  if (!obj || typeof obj !== 'object' || typeof obj.type !== 'string') {
+    throw new ProjectFileError(`Object ${index + 1} is not a drawing object`);
+  }
+  return {
+    ...obj,
+    id: obj.id || `obj${index + 1}`,
+    name: obj.name ?? '',
+    visible: obj.visible ?? true,
+    selected: false,
+    position: obj.position ?? { x: 0, y: 0 },
+    stroke: obj.stroke ?? '#000000',
+    strokeWidth: obj.strokeWidth ?? 2,
+    fill: obj.fill ?? 'transparent',
+    createdAt: obj.createdAt ?? index,
+  };
+};
+
+// Bring parsed JSON of any known version up to PROJECT_VERSION
+export const migrateProject = (data: RawProject | DrawingObject[]): ProjectFile => {
+  if (!data || typeof data !== 'object') {
+    throw new ProjectFileError('Not a TikzSketch project');
+  }
+
+  let version: number;
+  if (Array.isArray(data) || data.format === undefined) {
+    if (!Array.isArray(data) && !Array.isArray(data.objects)) {
+      throw new ProjectFileError('Not a TikzSketch project');
+    }
+    version = 0;
+  } else if (data.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError(`Unknown file format "${data.format}"`);
+  } else {
+    version = data.version ?? NaN;
+  }
+
+  if (!Number.isInteger(version) || version < 0) {
+    throw new ProjectFileError(`Invalid project version "${version}"`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `This project was saved by a newer version of TikzSketch (format ${version}, supported up to ${PROJECT_VERSION})`
+    );
+  }
+
+  // A bare object array is the oldest scene format
+  let project: RawProject = Array.isArray(data) ? { objects: data } : data;
+  while (version < PROJECT_VERSION) {
+    project = migrations[version](project);
+    version++;
+  }
+
+  if (!Array.isArray(project.objects)) {
+    throw new ProjectFileError('Project has no object list');
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: project.name || DEFAULT_PROJECT_NAME,
+    savedAt: project.savedAt ?? new Date().toISOString(),
+    canvas: project.canvas ?? {},
+    objects: project.objects.map(normalizeObject),
+    assets: project.assets ?? {},
+  };
+};
+
+// Build a project file for the current drawing
+export const createProjectFile = ({ name, canvas, objects }: ProjectData): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  name,
+  savedAt: new Date().toISOString(),
+  canvas,
+  ...extractAssets(objects.map(obj => ({ ...obj, selected: false }))),
+});
+
+// Resolve asset references back into inline image data
+export const readProjectFile = (project: ProjectFile): ProjectData => {
+  const objects = project.objects.map(({ assetId, ...obj }): DrawingObject => {
+    if (!assetId) return obj;
+
+    const imageData = project.assets[assetId]?.data;
+    if (!imageData) {
+      throw new ProjectFileError(`Object "${obj.name || obj.id}" references missing image asset "${assetId}"`);
+    }
+    return { ...obj, imageData };
+  });
+
+  return { name: project.name, canvas: project.canvas, objects };
+};
+
+export const serializeProject = (data: ProjectData) => {
+  return JSON.stringify(createProjectFile(data), null, 2);
+};
+
+// Parse the text of a .tikzsketch file (or a legacy object array) of any supported version
+export const parseProject = (text: string): ProjectData => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('File is not valid JSON');
+  }
+  return readProjectFile(migrateProject(data));
+};
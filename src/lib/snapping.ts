@@ -0,0 +1,385 @@
+import type { DrawingObject, Point } from '@/lib/store';
+import { isCurve } from '@/lib/expression';
+import {
+  circleIntersections,
+  cornerCentroid,
+  directionAngle,
+  distance,
+  footOfPerpendicular,
+  lineCircleIntersections,
+  lineIntersection,
+  midpoint,
+  normalizeArcEnd,
+  pointOnCircle,
+  pointOnSegment,
+  segmentParameter,
+  tangentPointsFrom,
+} from '@/lib/geometry';
+
+// Object snapping. Each visible object offers typed candidates near the cursor; the
+// candidate with the highest-priority type within the snap distance wins, and the
+// nearest one breaks ties within a type.
+
+export type SnapType =
+  | 'endpoint' // points, line ends and corners
+  | 'intersection' // where two edges cross
+  | 'midpoint' // middle of a segment or polygon side
+  | 'center' // centre of a circle, arc, ellipse, rectangle or regular polygon
+  | 'quadrant' // top, bottom, left and right of a circle or ellipse
+  | 'tangent' // where a line from the start point touches a circle
+  | 'perpendicular' // foot of the perpendicular from the start point onto a segment
+  | 'edge'; // nearest point on any edge or curve
+
+// Highest priority first
+export const SNAP_TYPES: SnapType[] = [
+  'endpoint',
+  'intersection',
+  'midpoint',
+  'center',
+  'quadrant',
+  'tangent',
+  'perpendicular',
+  'edge',
+];
+
+export const SNAP_TYPE_LABELS: Record<SnapType, string> = {
+  endpoint: 'Endpoint',
+  intersection: 'Intersection',
+  midpoint: 'Midpoint',
+  center: 'Center',
+  quadrant: 'Quadrant',
+  tangent: 'Tangent',
+  perpendicular: 'Perpendicular',
+  edge: 'On edge',
+};
+
+export const DEFAULT_SNAP_TYPES: Record<SnapType, boolean> = {
+  endpoint: true,
+  intersection: true,
+  midpoint: true,
+  center: true,
+  quadrant: true,
+  tangent: true,
+  perpendicular: true,
+  edge: true,
+};
+
+export interface SnapTarget {
+  point: Point;
+  type: SnapType;
+  objectId: string;
+  otherObjectId?: string; // For intersections: the second object
+  pointIndex?: number; // For endpoints of lines and corners of polygons: index into `points`
+  distance: number;
+}
+
+export interface SnapOptions {
+  types: Record<SnapType, boolean>;
+  distance: number;
+  from?: Point; // Start of the line being drawn, for tangent and perpendicular snaps
+  excludeIds?: string[]; // Objects that must not snap to themselves, e.g. while dragged
+}
+
+// The straight and round edges of an object, in canvas coordinates. Arcs are circles limited to
+// `range`: degrees counter-clockwise with Y up, as stored on the arc, the end after the start.
+// Ellipses turn by `rotation` radians, clockwise on the canvas.
+type Edge =
+  | { kind: 'segment'; a: Point; b: Point; objectId: string }
+  | { kind: 'circle'; center: Point; radius: number; range?: [number, number]; objectId: string }
+  | { kind: 'ellipse'; center: Point; radiusX: number; radiusY: number; rotation: number; objectId: string };
+
+type CircleEdge = Extract<Edge, { kind: 'circle' }>;
+type EllipseEdge = Extract<Edge, { kind: 'ellipse' }>;
+
+const STRAIGHT_TYPES = ['line', 'vector', 'perpendicular', 'parallel', 'perp_bisector'];
+
+const rectangleCorners = (obj: DrawingObject): Point[] => {
+  const { x, y } = obj.position;
+  const width = obj.width || 80;
+  const height = obj.height || 60;
+  return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+};
+
+// Corners of an object, in order around it; closed shapes also join the last to the first
+const getCorners = (obj: DrawingObject): { corners: Point[]; closed: boolean } => {
+  if (obj.type === 'rectangle') return { corners: rectangleCorners(obj), closed: true };
+  if (obj.type === 'polygon' && obj.points) return { corners: obj.points, closed: true };
+  if ((STRAIGHT_TYPES.includes(obj.type) || obj.type === 'bezier') && obj.points) {
+    return { corners: obj.points, closed: false };
+  }
+  return { corners: [], closed: false };
+};
+
+// Point of an arc `degrees` counter-clockwise from +x
+const pointOnArc = (center: Point, radius: number, degrees: number): Point => {
+  const angle = (degrees * Math.PI) / 180;
+  return { x: center.x + radius * Math.cos(angle), y: center.y - radius * Math.sin(angle) };
+};
+
+const getArcEdges = (obj: DrawingObject): Edge[] => {
+  if (obj.startAngle === undefined || obj.endAngle === undefined) return [];
+  const radius = obj.radius || 30;
+  const range: [number, number] = [obj.startAngle, normalizeArcEnd(obj.startAngle, obj.endAngle)];
+  const edges: Edge[] = [{ kind: 'circle', center: obj.position, radius, range, objectId: obj.id }];
+  const start = pointOnArc(obj.position, radius, range[0]);
+  const end = pointOnArc(obj.position, radius, range[1]);
+  // Sectors are closed through the centre, segments by the chord
+  if (obj.arcKind === 'sector') {
+    edges.push({ kind: 'segment', a: obj.position, b: start, objectId: obj.id });
+    edges.push({ kind: 'segment', a: end, b: obj.position, objectId: obj.id });
+  } else if (obj.arcKind === 'segment') {
+    edges.push({ kind: 'segment', a: end, b: start, objectId: obj.id });
+  }
+  return edges;
+};
+
+const getEdges = (obj: DrawingObject): Edge[] => {
+  if (obj.type === 'circle') {
+    return [{ kind: 'circle', center: obj.position, radius: obj.radius || 30, objectId: obj.id }];
+  }
+  if (obj.type === 'ellipse') {
+    return [{
+      kind: 'ellipse',
+      center: obj.position,
+      radiusX: obj.radiusX || 40,
+      radiusY: obj.radiusY || 25,
+      rotation: ((obj.rotation || 0) * Math.PI) / 180,
+      objectId: obj.id,
+    }];
+  }
+  if (obj.type === 'arc') return getArcEdges(obj);
+  // Curves snap along their sampled polylines
+  if (isCurve(obj) && obj.points) {
+    return obj.points.slice(1).map((b, i) => ({ kind: 'segment', a: obj.points![i], b, objectId: obj.id }));
+  }
+  // Bezier curves only snap to their anchors
+  if (obj.type === 'bezier') return [];
+  const { corners, closed } = getCorners(obj);
+  const edges: Edge[] = corners.slice(1).map((b, i) => ({ kind: 'segment', a: corners[i], b, objectId: obj.id }));
+  if (closed && corners.length > 2) {
+    edges.push({ kind: 'segment', a: corners[corners.length - 1], b: corners[0], objectId: obj.id });
+  }
+  return edges;
+};
+
+// Is a point of the circle within the edge's arc?
+const onArc = (edge: CircleEdge, point: Point) => {
+  if (!edge.range) return true;
+  const [start, end] = edge.range;
+  const sweep = (((directionAngle(edge.center, point) - start) % 360) + 360) % 360;
+  return sweep <= end - start + 1e-6 || sweep >= 360 - 1e-6;
+};
+
+// Point of an ellipse at parameter `theta` along its own axes
+const pointOnEllipse = (edge: EllipseEdge, theta: number): Point => {
+  const x = edge.radiusX * Math.cos(theta);
+  const y = edge.radiusY * Math.sin(theta);
+  const cos = Math.cos(edge.rotation);
+  const sin = Math.sin(edge.rotation);
+  return { x: edge.center.x + x * cos - y * sin, y: edge.center.y + x * sin + y * cos };
+};
+
+// A point in the ellipse's own axes, scaled so the ellipse becomes the unit circle.
+// Lines stay lines and keep their parameters.
+const toUnitCircle = (edge: EllipseEdge, point: Point): Point => {
+  const dx = point.x - edge.center.x;
+  const dy = point.y - edge.center.y;
+  const cos = Math.cos(edge.rotation);
+  const sin = Math.sin(edge.rotation);
+  return { x: (dx * cos + dy * sin) / edge.radiusX, y: (-dx * sin + dy * cos) / edge.radiusY };
+};
+
+const ELLIPSE_SAMPLES = 72;
+
+// The nearest point has no closed form: take the nearest sample, then narrow it down
+// between its neighbours
+const nearestOnEllipse = (edge: EllipseEdge, cursor: Point): Point => {
+  const step = (2 * Math.PI) / ELLIPSE_SAMPLES;
+  const distanceAt = (theta: number) => distance(pointOnEllipse(edge, theta), cursor);
+  let best = 0;
+  for (let i = 1; i < ELLIPSE_SAMPLES; i++) {
+    if (distanceAt(i * step) < distanceAt(best)) best = i * step;
+  }
+  let low = best - step;
+  let high = best + step;
+  for (let i = 0; i < 40; i++) {
+    const a = low + (high - low) / 3;
+    const b = high - (high - low) / 3;
+    if (distanceAt(a) < distanceAt(b)) high = b;
+    else low = a;
+  }
+  return pointOnEllipse(edge, (low + high) / 2);
+};
+
+const nearestOnEdge = (edge: Edge, cursor: Point): Point => {
+  if (edge.kind === 'segment') return pointOnSegment(edge.a, edge.b, segmentParameter(cursor, edge.a, edge.b));
+  if (edge.kind === 'ellipse') return nearestOnEllipse(edge, cursor);
+  const angle = Math.atan2(cursor.y - edge.center.y, cursor.x - edge.center.x);
+  const nearest = pointOnCircle(edge.center, edge.radius, angle);
+  if (!edge.range || onArc(edge, nearest)) return nearest;
+  // Beyond the arc, its nearer end
+  const [start, end] = edge.range.map(degrees => pointOnArc(edge.center, edge.radius, degrees));
+  return distance(cursor, start) <= distance(cursor, end) ? start : end;
+};
+
+const onSegment = (t: number) => t >= -1e-9 && t <= 1 + 1e-9;
+
+// Crossings of a circle or ellipse with an ellipse, found where the ellipse passes in or
+// out of the other shape and narrowed down by bisection
+const ellipseCrossings = (other: CircleEdge | EllipseEdge, ellipse: EllipseEdge): Point[] => {
+  // Negative inside the other shape, positive outside
+  const outside = (point: Point) => {
+    if (other.kind === 'circle') return distance(point, other.center) / other.radius - 1;
+    const local = toUnitCircle(other, point);
+    return Math.hypot(local.x, local.y) - 1;
+  };
+  const valueAt = (theta: number) => outside(pointOnEllipse(ellipse, theta));
+  const samples = ELLIPSE_SAMPLES * 4;
+  const step = (2 * Math.PI) / samples;
+  const crossings: Point[] = [];
+  for (let i = 0; i < samples; i++) {
+    let low = i * step;
+    let high = low + step;
+    if (valueAt(low) === 0) {
+      crossings.push(pointOnEllipse(ellipse, low));
+      continue;
+    }
+    if (Math.sign(valueAt(low)) === Math.sign(valueAt(high))) continue;
+    for (let j = 0; j < 40; j++) {
+      const middle = (low + high) / 2;
+      if (Math.sign(valueAt(middle)) === Math.sign(valueAt(low))) low = middle;
+      else high = middle;
+    }
+    crossings.push(pointOnEllipse(ellipse, (low + high) / 2));
+  }
+  return other.kind === 'circle' ? crossings.filter(point => onArc(other, point)) : crossings;
+};
+
+const EDGE_ORDER: Edge['kind'][] = ['segment', 'circle', 'ellipse'];
+
+const edgeIntersections = (e1: Edge, e2: Edge): Point[] => {
+  // Segments first, then circles, then ellipses
+  const [first, second] = EDGE_ORDER.indexOf(e1.kind) <= EDGE_ORDER.indexOf(e2.kind) ? [e1, e2] : [e2, e1];
+  if (second.kind === 'ellipse') {
+    if (first.kind !== 'segment') return ellipseCrossings(first, second);
+    return lineCircleIntersections(toUnitCircle(second, first.a), toUnitCircle(second, first.b), { x: 0, y: 0 }, 1)
+      .filter(({ t }) => onSegment(t))
+      .map(({ t }) => pointOnSegment(first.a, first.b, t));
+  }
+  if (first.kind === 'segment' && second.kind === 'segment') {
+    const crossing = lineIntersection(first.a, first.b, second.a, second.b);
+    return crossing && onSegment(crossing.t) && onSegment(crossing.u) ? [crossing.point] : [];
+  }
+  if (first.kind === 'circle' && second.kind === 'circle') {
+    return circleIntersections(first.center, first.radius, second.center, second.radius)
+      .filter(point => onArc(first, point) && onArc(second, point));
+  }
+  if (first.kind !== 'segment' || second.kind !== 'circle') return [];
+  return lineCircleIntersections(first.a, first.b, second.center, second.radius)
+    .filter(({ t, point }) => onSegment(t) && onArc(second, point))
+    .map(({ point }) => point);
+};
+
+// Every candidate of the enabled types within `options.distance` of the cursor
+export const getSnapCandidates = (cursor: Point, objects: DrawingObject[], options: SnapOptions): SnapTarget[] => {
+  const { types, from } = options;
+  const candidates: SnapTarget[] = [];
+  const offer = (type: SnapType, point: Point, objectId: string, extra?: Partial<SnapTarget>) => {
+    if (!types[type]) return;
+    const d = distance(cursor, point);
+    if (d <= options.distance) candidates.push({ point, type, objectId, distance: d, ...extra });
+  };
+
+  const snappable = objects.filter(obj => obj.visible && !options.excludeIds?.includes(obj.id));
+  // Edges passing near the cursor; only these can carry a nearby intersection
+  const nearEdges: Edge[] = [];
+
+  for (const obj of snappable) {
+    if (obj.type === 'point' || obj.type === 'midpoint') {
+      offer('endpoint', obj.position, obj.id);
+      continue;
+    }
+
+    const { corners, closed } = getCorners(obj);
+    corners.forEach((corner, i) => {
+      offer('endpoint', corner, obj.id, obj.type === 'rectangle' ? undefined : { pointIndex: i });
+    });
+    if (obj.type !== 'bezier') {
+      corners.slice(1).forEach((b, i) => offer('midpoint', midpoint(corners[i], b), obj.id));
+      if (closed && corners.length > 2) offer('midpoint', midpoint(corners[corners.length - 1], corners[0]), obj.id);
+    }
+
+    switch (obj.type) {
+      case 'circle':
+      case 'ellipse': {
+        offer('center', obj.position, obj.id);
+        const radiusX = obj.type === 'circle' ? obj.radius || 30 : obj.radiusX || 40;
+        const radiusY = obj.type === 'circle' ? obj.radius || 30 : obj.radiusY || 25;
+        // The ellipse's own axes turn with it
+        const rotation = obj.type === 'ellipse' ? ((obj.rotation || 0) * Math.PI) / 180 : 0;
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        [[radiusX, 0], [0, radiusY], [-radiusX, 0], [0, -radiusY]].forEach(([dx, dy]) => {
+          offer('quadrant', { x: obj.position.x + dx * cos - dy * sin, y: obj.position.y + dx * sin + dy * cos }, obj.id);
+        });
+        if (obj.type === 'circle' && from) {
+          tangentPointsFrom(from, obj.position, radiusX).forEach(point => offer('tangent', point, obj.id));
+        }
+        break;
+      }
+      case 'arc':
+        offer('center', obj.position, obj.id);
+        break;
+      case 'rectangle':
+        offer('center', { x: obj.position.x + (obj.width || 80) / 2, y: obj.position.y + (obj.height || 60) / 2 }, obj.id);
+        break;
+      case 'polygon':
+        // Regular polygons and stars are drawn around their centre
+        if (obj.sides && obj.points) offer('center', cornerCentroid(obj.points), obj.id);
+        break;
+    }
+
+    for (const edge of getEdges(obj)) {
+      const nearest = nearestOnEdge(edge, cursor);
+      if (distance(cursor, nearest) > options.distance) continue;
+      nearEdges.push(edge);
+      offer('edge', nearest, obj.id);
+      if (from && edge.kind === 'segment' && !isCurve(obj)) {
+        const foot = footOfPerpendicular(from, edge.a, edge.b);
+        const withinSegment = distance(foot, nearestOnEdge(edge, foot)) < 1e-6;
+        if (withinSegment && distance(foot, from) > 1e-6) {
+          offer('perpendicular', foot, obj.id);
+        }
+      }
+    }
+  }
+
+  if (types.intersection) {
+    nearEdges.forEach((e1, i) => {
+      nearEdges.slice(i + 1).forEach(e2 => {
+        // Neighbouring sides of one shape meet at its corners, which are endpoints already
+        if (e1.objectId === e2.objectId) return;
+        edgeIntersections(e1, e2).forEach(point => {
+          offer('intersection', point, e1.objectId, { otherObjectId: e2.objectId });
+        });
+      });
+    });
+  }
+
+  return candidates;
+};
+
+// The best candidate near the cursor, or null when nothing is in reach
+export const findSnapTarget = (cursor: Point, objects: DrawingObject[], options: SnapOptions): SnapTarget | null => {
+  const candidates = getSnapCandidates(cursor, objects, options);
+  let best: SnapTarget | null = null;
+  for (const candidate of candidates) {
+    if (!best) {
+      best = candidate;
+      continue;
+    }
+    const rank = SNAP_TYPES.indexOf(candidate.type) - SNAP_TYPES.indexOf(best.type);
+    if (rank < 0 || (rank === 0 && candidate.distance < best.distance)) best = candidate;
+  }
+  return best;
+};
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useAppStore } from '@/lib/store';
+import type { DrawingObject } from '@/lib/store';
+import { circle, line, point } from '@/lib/testUtils';
+
+const store = () => useAppStore.getState();
+
+const byName = (name: string) => store().objects.find(obj => obj.name === name)!;
+
+// A line from (0,0) to (100,0) with a point bound to it at x=50
+const addLineWithPoint = () => {
+  store().addObject(line('g', { x: 0, y: 0 }, { x: 100, y: 0 }, { name: 'g' }));
+  const g = byName('g');
+  store().addObject(point('P', { x: 50, y: 0 }, { name: 'P', baseLineId: g.id, pointAId: 'line', construction: 'point_on_line' }));
+  return g;
+};
+
+// The updates Canvas makes for a line dragged by `dx` (see getDragUpdates)
+const shiftLine = (g: DrawingObject, dx: number): Partial<DrawingObject> => ({
+  position: { x: 0, y: 0 },
+  points: g.points!.map(p => ({ x: p.x + dx, y: p.y })),
+});
+
+describe('dragging', () => {
+  beforeEach(() => store().clearCanvas());
+
+  it('keeps the dragged object at its start until the drag ends', () => {
+    const g = addLineWithPoint();
+    const solved = store().previewDrag(g.id, shiftLine(g, 10));
+    expect(solved?.points).toEqual([{ x: 10, y: 0 }, { x: 110, y: 0 }]);
+    expect(byName('g').points).toEqual(g.points);
+    expect(byName('P').position).toEqual({ x: 60, y: 0 });
+  });
+
+  it('moves dependents by the whole drag over many frames', () => {
+    const g = addLineWithPoint();
+    for (const dx of [10, 20, 30, 40]) {
+      store().previewDrag(g.id, shiftLine(g, dx));
+      expect(byName('P').position.x).toBeCloseTo(50 + dx);
+    }
+    store().updateObject(g.id, shiftLine(g, 40));
+
+    expect(byName('g').points).toEqual([{ x: 40, y: 0 }, { x: 140, y: 0 }]);
+    expect(byName('P').position.x).toBeCloseTo(90);
+    expect(store().dragStart).toBeNull();
+  });
+
+  it('undoes a drag in one step', () => {
+    const g = addLineWithPoint();
+    [10, 20].forEach(dx => store().previewDrag(g.id, shiftLine(g, dx)));
+    store().updateObject(g.id, shiftLine(g, 20));
+    store().undo();
+
+    expect(byName('g').points).toEqual(g.points);
+    expect(byName('P').position.x).toBeCloseTo(50);
+  });
+
+  it('leaves what the drag cannot move alone', () => {
+    const g = addLineWithPoint();
+    store().addObject(point('Q', { x: 0, y: 50 }, { name: 'Q' }));
+    const q = byName('Q');
+    store().previewDrag(g.id, shiftLine(g, 10));
+    expect(byName('Q')).toBe(q);
+  });
+
+  it('puts dependents back when a drag ends without an update', () => {
+    const g = addLineWithPoint();
+    store().previewDrag(g.id, shiftLine(g, 30));
+    store().endDrag();
+
+    expect(byName('P').position.x).toBeCloseTo(50);
+    expect(store().dragStart).toBeNull();
+    // The next drag starts from where things are now
+    store().updateObject(byName('P').id, { position: { x: 20, y: 0 } });
+    store().previewDrag(g.id, shiftLine(g, 10));
+    expect(byName('P').position.x).toBeCloseTo(30);
+  });
+});
+
+describe('tangent construction', () => {
+  beforeEach(() => store().clearCanvas());
+
+  it('creates tangents that do not exist yet hidden, and shows them once they do', () => {
+    store().addObject(circle('k', { x: 0, y: 0 }, 50, { name: 'k' }));
+    store().addObject(point('A', { x: 10, y: 0 }, { name: 'A' }));
+    store().addObjects(store().calculateTangentLines(byName('k').id, byName('A').id));
+
+    const tangents = () => store().objects.filter(obj => obj.construction === 'tangent_from');
+    expect(tangents()).toHaveLength(2);
+    tangents().forEach(tangent => expect(tangent).toMatchObject({ visible: false, constructionMissing: true }));
+
+    store().updateObject(byName('A').id, { position: { x: 100, y: 0 } });
+    tangents().forEach(tangent => expect(tangent).toMatchObject({ visible: true, constructionMissing: false }));
+  });
+});
+
+describe('generateObjectName', () => {
+  beforeEach(() => store().clearCanvas());
+
+  it('does not reuse the name of an object still on the canvas', () => {
+    store().addObjects([line('a', { x: 0, y: 0 }, { x: 10, y: 0 }), line('b', { x: 0, y: 10 }, { x: 10, y: 10 })]);
+    expect(store().objects.map(obj => obj.name)).toEqual(['L1', 'L2']);
+
+    store().deleteObject(byName('L1').id);
+    expect(store().generateObjectName('line')).toBe('L3');
+  });
+});
+
+describe('triangle construction', () => {
+  beforeEach(() => store().clearCanvas());
+
+  it('gives every object it makes its own name when run twice', () => {
+    [point('A', { x: 0, y: 0 }), point('B', { x: 100, y: 0 }), point('C', { x: 0, y: 100 })].forEach(corner => {
+      store().addObject({ ...corner, name: corner.id });
+    });
+    const corners = ['A', 'B', 'C'].map(name => byName(name).id);
+    for (let run = 0; run < 2; run++) {
+      store().addTriangleConstruction('median', corners);
+      store().addTriangleConstruction('centroid', corners);
+    }
+
+    const names = store().objects.filter(obj => obj.construction === 'triangle').map(obj => obj.name);
+    expect(names).toHaveLength(8);
+    expect(new Set(names).size).toBe(8);
+    expect(names).toContain('G');
+  });
+});
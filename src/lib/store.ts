@@ -1,6 +1,57 @@
 import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
+import { parseTikZ, type TikZImportIssue } from '@/lib/tikzImport';
+import {
+  TRIANGLE_CEVIANS,
+  collectDescendants,
+  computeTangent,
+  computeTriangleElement,
+  computeVectorSum,
+  createsCycle,
+  detachConstruction,
+  getParentIds,
+  getTriangleVertices,
+  intersectObjects,
+  vectorBetween,
+  type ConstructionKind,
+  type TriangleElement,
+} from '@/lib/dependencies';
+import { getConstraints, propagateChanges, type Constraint } from '@/lib/constraints';
+import {
+  applyMatrix,
+  getTransformMatrix,
+  keepsAxes,
+  transformObject,
+  type Matrix,
+  type Transform,
+} from '@/lib/transform';
+import { CURVE_DEFAULTS, getCurveSegments, isCurve, type CurveDefinition } from '@/lib/expression';
+import { PIXELS_PER_CM, type LengthUnit } from '@/lib/units';
+import {
+  angleAt,
+  arcThrough,
+  bezierControlPoints,
+  distance,
+  midpoint,
+  parallelThrough,
+  perpendicularBisector,
+  perpendicularThrough,
+  cornerCentroid,
+  regularPolygonCorners,
+  vectorHead,
+} from '@/lib/geometry';
+import { DEFAULT_PROJECT_NAME, migrateProject, parseProject, readProjectFile, type ProjectData } from '@/lib/project';
+import {
+  deleteStoredDocument,
+  generateDocumentId,
+  listDocuments,
+  loadDocument,
+  renderThumbnail,
+  saveDocument,
+  type DocumentSummary,
+} from '@/lib/documents';
+import { DEFAULT_SNAP_TYPES, type SnapType } from '@/lib/snapping';
 
 // Define the shape object types
 export interface Point {
@@ -10,7 +61,7 @@ export interface Point {
 
 export interface DrawingObject {
   id: string;
-  type: 'point' | 'line' | 'rectangle' | 'circle' | 'text' | 'polygon' | 'angle' | 'perpendicular' | 'parallel' | 'midpoint' | 'distance' | 'perp_bisector' | 'function' | 'image';
+  type: 'point' | 'line' | 'rectangle' | 'circle' | 'text' | 'polygon' | 'bezier' | 'arc' | 'ellipse' | 'angle' | 'perpendicular' | 'parallel' | 'midpoint' | 'distance' | 'perp_bisector' | 'function' | 'parametric' | 'polar' | 'image' | 'vector';
   name: string;
   visible: boolean;
   selected: boolean;
@@ -35,7 +86,9 @@ export interface DrawingObject {
   
   // Type-specific properties
   points?: Point[]; // For lines, polygons, bezier curves
-  radius?: number; // For circles, arcs
+  radius?: number; // For circles, arcs; for regular polygons and stars, centre to the (outer) corners
+  radiusX?: number; // For ellipses, along their own (rotated) x-axis
+  radiusY?: number; // For ellipses
   width?: number; // For rectangles, images
   height?: number; // For rectangles, images
   text?: string; // For text objects
@@ -51,7 +104,7 @@ export interface DrawingObject {
   imageUrl?: string; // Image URL or path
   originalWidth?: number; // Original image dimensions
   originalHeight?: number; // Original image dimensions
-  rotation?: number; // Rotation angle in degrees
+  rotation?: number; // Rotation angle in degrees, clockwise on the canvas (images, ellipses)
   scaleX?: number; // Scale factor X
   scaleY?: number; // Scale factor Y
   flipX?: boolean; // Horizontal flip
@@ -62,38 +115,64 @@ export interface DrawingObject {
   arrowEnd?: 'none' | 'arrow' | 'stealth' | 'latex';
   
   // Advanced geometry properties
-  startAngle?: number; // For arcs
-  endAngle?: number; // For arcs
-  controlPoints?: Point[]; // For bezier curves
+  startAngle?: number; // For arcs: degrees counter-clockwise from +x, as in TikZ
+  endAngle?: number; // For arcs: drawn counter-clockwise from startAngle
+  arcKind?: 'arc' | 'sector' | 'segment'; // For arcs: open arc, pie slice or arc closed by its chord
+  sides?: number; // For regular polygons: number of corners; for stars: number of points
+  innerRadius?: number; // For stars: centre to the inner corners
+  controlPoints?: Point[]; // For bezier curves: two per segment, between its anchors in `points`
   angleValue?: number; // For angle measurements
+  angleRadius?: number; // For angles: radius of the (innermost) arc marker in pixels
+  angleArcs?: number; // For angles: 1, 2 or 3 concentric arcs
+  angleLabel?: 'degrees' | 'symbol' | 'none'; // For angles: what the label shows
+  angleSymbol?: string; // For angles: label used with angleLabel 'symbol', as LaTeX math (e.g. \alpha)
+  showRightAngle?: boolean; // For perpendicular bisectors: right-angle mark at the foot
+  showEqualTicks?: boolean; // For perpendicular bisectors: tick marks on the two equal halves
   baseLineId?: string; // For perpendicular/parallel lines
   pointAId?: string; // For geometric constructions
   pointBId?: string; // For geometric constructions
-  expression?: string; // For function plotting
+  pointCId?: string; // For triangle and compass constructions: third point, after pointAId and pointBId
+  vertexId?: string; // For angles: the vertex point, between the arm points pointAId and pointBId
+  intersectionIndex?: number; // For intersection points: which crossing of pointAId and pointBId
+  constructionMissing?: boolean; // For constructed objects: hidden because the construction has no solution
+  tangentIndex?: number; // For tangents from a point (0-1) and common tangents (0-3): which one
+  transform?: Transform; // For transformed copies: how they are made from pointAId
+  triangleElement?: TriangleElement; // For triangle constructions: which centre, circle or cevian
+  triangleVertex?: number; // For altitudes, medians and angle bisectors: index of the corner they start from
+  construction?: ConstructionKind; // How a derived object is computed from its parents
+  expression?: string; // For function plotting: y = f(x); for polar curves: r(θ)
+  xExpression?: string; // For parametric curves: x(t)
+  yExpression?: string; // For parametric curves: y(t)
+  domainMin?: number; // For function plotting (x in TikZ units) and curves (parameter)
+  domainMax?: number; // For function plotting (x in TikZ units) and curves (parameter)
+  samples?: number; // For function plotting and curves
+  curveMatrix?: Matrix; // For transformed copies of curves: map applied to the plotted curve
   
   // Vector properties
-  magnitude?: number; // For vectors
-  direction?: number; // For vectors (in degrees)
+  magnitude?: number; // For vectors: length in pixels, from points[0] (the tail) to points[1] (the head)
+  direction?: number; // For vectors (in degrees counter-clockwise from +x, as in TikZ)
+  showComponents?: boolean; // For vectors: dashed x and y components from the tail to the head
+  vectorRule?: 'parallelogram' | 'tip_to_tail'; // For vector sums and differences: how the construction is drawn
+  vectorGuides?: Point[]; // For vector sums and differences: dashed copies of the summands, as pairs of endpoints
   
   // Creation timestamp for ordering
   createdAt: number;
   
-  // Basic constraint system (simplified)
-  constraints?: {
-    type: 'center' | 'start_point' | 'end_point';
-    targetId: string;
-    offset?: Point;
-  }[];
+  // Geometric constraints, solved whenever anything moves
+  constraints?: Constraint[];
 }
 
 export interface CanvasSettings {
   gridVisible: boolean;
-  gridSpacing: number;
+  gridSubdivision: number; // Grid lines per major grid step (see getGridSpacing)
   gridType: 'cartesian' | 'polar' | 'isometric';
   snapToGrid: boolean;
   showCoordinates: boolean;
   snapToPoints: boolean;
+  snapTypes: Record<SnapType, boolean>; // Which kinds of object snap are on while snapToPoints is
   snapDistance: number;
+  displayUnit: LengthUnit; // Unit of the rulers and of lengths in the properties panel
+  tikzUnit: LengthUnit; // Unit of the numbers in the TikZ code
   backgroundColor: string;
   zoom: number;
   pan: Point;
@@ -119,15 +198,19 @@ export interface AppState {
   isDrawing: boolean;
   drawingStartPoint: Point | null;
   previewObject: DrawingObject | null;
+  dragStart: { id: string; objects: DrawingObject[] } | null; // Objects as they were when the drag in progress began
   
   // Multi-point drawing (for polygon, bezier)
   currentPolygonPoints: Point[];
+  currentBezierHandles: Point[]; // Outgoing handle of each anchor of a Bézier path being drawn
   isPolygonDrawing: boolean;
   
   // Geometric construction helpers
-  constructionMode: 'none' | 'select_point' | 'select_line' | 'select_two_points';
+  constructionMode: 'none' | 'select_point' | 'select_line' | 'select_two_points' | 'select_three_points' | 'select_two_objects';
   constructionStep: number;
   constructionData: any;
+  compassMode: CompassMode; // Which circle the compass tool builds
+  regularPolygonOptions: RegularPolygonOptions; // What the regular polygon tool draws
   
   // Selection box for multi-select
   isSelectionBoxActive: boolean;
@@ -137,6 +220,13 @@ export interface AppState {
   // Text editing state
   isTextEditing: boolean;
   textEditorPosition: Point | null;
+  
+  // Project file
+  projectName: string;
+  
+  // Drawing library (persisted in IndexedDB)
+  documentId: string | null;
+  documents: DocumentSummary[];
 }
 
 export interface AppActions {
@@ -145,9 +235,10 @@ export interface AppActions {
   
   // Object management
   addObject: (object: Omit<DrawingObject, 'id' | 'createdAt'>) => void;
+  addObjects: (objects: Omit<DrawingObject, 'id' | 'createdAt'>[]) => void;
   updateObject: (id: string, updates: Partial<DrawingObject>) => void;
-  deleteObject: (id: string) => void;
-  deleteSelectedObjects: () => void;
+  deleteObject: (id: string, mode?: DeleteMode) => void;
+  deleteSelectedObjects: (mode?: DeleteMode) => void;
   
   // Selection
   selectObject: (id: string, multiSelect?: boolean) => void;
@@ -185,29 +276,65 @@ export interface AppActions {
   // Multi-point drawing (polygon, bezier)
   startPolygonDrawing: (point: Point) => void;
   addPolygonPoint: (point: Point) => void;
+  setBezierHandle: (point: Point) => void;
   finishPolygon: () => void;
   cancelPolygon: () => void;
   
   // Geometric construction
-  startConstruction: (mode: 'select_point' | 'select_line' | 'select_two_points', data?: any) => void;
+  startConstruction: (mode: 'select_point' | 'select_line' | 'select_two_points' | 'select_three_points' | 'select_two_objects', data?: any) => void;
   addConstructionPoint: (objectId: string) => void;
   finishConstruction: () => void;
   cancelConstruction: () => void;
+  setCompassMode: (mode: CompassMode) => void;
+  setRegularPolygonOptions: (options: Partial<RegularPolygonOptions>) => void;
   
   // Advanced geometry utilities
   calculateMidpoint: (pointA: Point, pointB: Point) => Point;
   calculatePerpendicularLine: (baseLineId: string, throughPoint: Point) => Omit<DrawingObject, 'id' | 'createdAt'> | null;
   calculateParallelLine: (baseLineId: string, throughPoint: Point) => Omit<DrawingObject, 'id' | 'createdAt'> | null;
   calculateAngle: (pointA: Point, vertex: Point, pointC: Point) => number;
+  // Objects for a centre, circle or the three cevians of the triangle given by one
+  // three-cornered polygon or three points; empty if there is no such triangle
+  calculateTriangleConstruction: (element: TriangleElement, sourceIds: string[]) => Omit<DrawingObject, 'id' | 'createdAt'>[];
+  addTriangleConstruction: (element: TriangleElement, sourceIds: string[]) => void;
+  // Tangent lines between a circle and a point (at it, or from it when outside) or a
+  // second circle (up to four common tangents), in either order
+  calculateTangentLines: (objectAId: string, objectBId: string) => Omit<DrawingObject, 'id' | 'createdAt'>[];
+  // Copies of the objects under a reflection, rotation, translation or dilation, named with a
+  // prime; linked copies follow their originals, the mirror line and the centre
+  transformObjects: (ids: string[], transform: Transform, linked: boolean) => void;
+  // Sum or difference of two vectors, drawn from the tail of the first by the parallelogram
+  // or tip-to-tail rule; it follows the vectors as they change
+  addVectorSum: (kind: 'vector_sum' | 'vector_difference', vectorAId: string, vectorBId: string, rule: NonNullable<DrawingObject['vectorRule']>) => void;
+  
+  // Constraints
+  addConstraint: (objectId: string, constraint: Constraint) => void;
+  removeConstraint: (objectId: string, index: number) => void;
+  // Solve for a drag in progress without recording history; returns the dragged object as solved
+  previewDrag: (id: string, updates: Partial<DrawingObject>) => DrawingObject | null;
+  // Drop the state of a drag in progress; the drag's updateObject does this itself
+  endDrag: () => void;
+  
+  // Function plots and curves
+  addCurve: (curve: CurveDefinition) => void;
+  
+  // TikZ import
+  importTikZ: (source: string) => TikZImportIssue[];
   
-  // Basic constraint system (simplified)
-  addConstraint: (objectId: string, constraint: {
-    type: 'center' | 'start_point' | 'end_point';
-    targetId: string;
-    offset?: Point;
-  }) => void;
-  removeConstraint: (objectId: string, targetId: string) => void;
-  updateConstrainedObjects: (objectId: string) => void;
+  // Project files
+  setProjectName: (name: string) => void;
+  getProjectData: () => ProjectData;
+  loadProject: (project: ProjectData) => void;
+  
+  // Drawing library
+  initDocuments: () => Promise<void>;
+  refreshDocuments: () => Promise<void>;
+  saveCurrentDocument: () => Promise<void>;
+  createDocument: (project?: ProjectData) => Promise<void>;
+  switchDocument: (id: string) => Promise<void>;
+  renameDocument: (id: string, name: string) => Promise<void>;
+  duplicateDocument: (id: string) => Promise<void>;
+  deleteDocument: (id: string) => Promise<void>;
   
   // Text editing
   startTextEditing: (position: Point) => void;
@@ -223,20 +350,107 @@ export interface AppActions {
 
 type AppStore = AppState & AppActions;
 
+// Circles of the compass tool: centre and a point on the circle, radius copied from two
+// points onto a third as centre, or the circle through three points
+export type CompassMode = 'center_point' | 'radius' | 'three_points';
+
+// Regular polygon tool: number of corners (or star points), and for stars the inner
+// radius as a fraction of the outer one
+export interface RegularPolygonOptions {
+  sides: number;
+  star: boolean;
+  innerRatio: number;
+}
+
+// What happens to objects constructed from a deleted object: 'cascade' deletes them
+// too, 'orphan' keeps them as free objects where they are
+export type DeleteMode = 'cascade' | 'orphan';
+
 const defaultCanvasSettings: CanvasSettings = {
   gridVisible: true,
-  gridSpacing: 28, // 1cm in pixels (28.35px ≈ 1cm at 72dpi)
+  gridSubdivision: 1,
   gridType: 'cartesian',
   snapToGrid: false,
   showCoordinates: true,
   snapToPoints: true,
+  snapTypes: DEFAULT_SNAP_TYPES,
   snapDistance: 14, // 0.5cm snap distance
+  displayUnit: 'cm',
+  tikzUnit: 'cm',
   backgroundColor: '#ffffff',
   zoom: 1,
   // Center canvas so (0,0) world coordinates appear at viewport center
   pan: { x: 400, y: 300 }, // Default canvas 800x600
 };
 
+// Sampled canvas points of a function plot or curve (used for bounds, selection and
+// snapping), anchored at its first point; `matrix` is the map of a transformed copy
+const getCurveGeometry = (curve: CurveDefinition, matrix?: Matrix) => {
+  const points = getCurveSegments(curve).flatMap(segment => segment.points).map(p => {
+    const point = { x: p.x * PIXELS_PER_CM, y: -p.y * PIXELS_PER_CM };
+    return matrix ? applyMatrix(matrix, point) : point;
+  });
+  return { points, position: points[0] ?? { x: 0, y: 0 } };
+};
+
+// A vector's tail, head, magnitude and direction kept in step after `updates`: new points
+// win, a typed-in magnitude or direction moves the head, and a new position moves the tail
+const getVectorGeometry = (vector: DrawingObject, updates: Partial<DrawingObject>): Partial<DrawingObject> => {
+  const [tail, head] = vector.points ?? [vector.position, vector.position];
+  if (updates.points && updates.points.length >= 2) {
+    return vectorBetween(updates.points[0], updates.points[1]);
+  }
+  if (updates.magnitude !== undefined || updates.direction !== undefined) {
+    const magnitude = Math.max(0, updates.magnitude ?? vector.magnitude ?? 0);
+    return { position: tail, points: [tail, vectorHead(tail, magnitude, updates.direction ?? vector.direction ?? 0)], magnitude };
+  }
+  if (updates.position) {
+    const dx = updates.position.x - vector.position.x;
+    const dy = updates.position.y - vector.position.y;
+    return { points: [updates.position, { x: head.x + dx, y: head.y + dy }] };
+  }
+  return {};
+};
+
+// Corners of a regular polygon or star regenerated after `updates` to its number of sides
+// or radii, keeping its centre and the direction of its first corner
+const getRegularPolygonGeometry = (polygon: DrawingObject, updates: Partial<DrawingObject>): Partial<DrawingObject> => {
+  if (!polygon.sides || !polygon.points?.length) return {};
+  if (!('sides' in updates) && !('radius' in updates) && !('innerRadius' in updates)) return {};
+  const center = cornerCentroid(polygon.points);
+  const angle = Math.atan2(polygon.points[0].y - center.y, polygon.points[0].x - center.x);
+  const sides = Math.max(3, Math.round(updates.sides ?? polygon.sides));
+  const radius = Math.max(1, updates.radius ?? polygon.radius ?? distance(center, polygon.points[0]));
+  const innerRadius = 'innerRadius' in updates ? updates.innerRadius : polygon.innerRadius;
+  return {
+    position: center,
+    points: regularPolygonCorners(center, radius, angle, sides, innerRadius === undefined ? undefined : Math.max(1, innerRadius)),
+    sides,
+    radius,
+  };
+};
+
+// `objects` with copies of whatever solving a change to `id` may move: the object, the owners
+// of constraints and everything built on either. The rest stays shared with `objects`.
+const copyMovable = (objects: DrawingObject[], id: string): DrawingObject[] => {
+  const roots = [id, ...objects.filter(obj => getConstraints(obj).length > 0).map(obj => obj.id)];
+  const movable = new Set([...roots, ...collectDescendants(objects, roots)]);
+  return objects.map(obj => (movable.has(obj.id) ? JSON.parse(JSON.stringify(obj)) : obj));
+};
+
+// Look of the objects made by the triangle tools. Centres get their classical letters.
+const TRIANGLE_STYLES: Record<TriangleElement, { name?: string; stroke: string; strokeStyle?: DrawingObject['strokeStyle'] }> = {
+  centroid: { name: 'G', stroke: '#f59e0b' },
+  circumcenter: { name: 'O', stroke: '#f59e0b' },
+  incenter: { name: 'I', stroke: '#f59e0b' },
+  orthocenter: { name: 'H', stroke: '#f59e0b' },
+  circumcircle: { stroke: '#0ea5e9' },
+  incircle: { stroke: '#0ea5e9' },
+  altitude: { stroke: '#ef4444', strokeStyle: 'dashed' },
+  median: { stroke: '#10b981' },
+  angle_bisector: { stroke: '#8b5cf6' },
+};
+
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 export const useAppStore = create<AppStore>()(
@@ -254,11 +468,15 @@ export const useAppStore = create<AppStore>()(
         isDrawing: false,
         drawingStartPoint: null,
         previewObject: null,
+        dragStart: null,
         currentPolygonPoints: [],
+        currentBezierHandles: [],
         isPolygonDrawing: false,
         constructionMode: 'none',
         constructionStep: 0,
         constructionData: null,
+        compassMode: 'center_point',
+        regularPolygonOptions: { sides: 5, star: false, innerRatio: 0.5 },
         isSelectionBoxActive: false,
         selectionBoxStart: null,
         selectionBoxEnd: null,
@@ -266,6 +484,13 @@ export const useAppStore = create<AppStore>()(
         // Text editing state
         isTextEditing: false,
         textEditorPosition: null,
+        
+        // Project file
+        projectName: DEFAULT_PROJECT_NAME,
+        
+        // Drawing library
+        documentId: null,
+        documents: [],
 
         // Tool actions
         setActiveTool: (tool: string) => {
@@ -279,6 +504,7 @@ export const useAppStore = create<AppStore>()(
             if (state.isPolygonDrawing) {
               state.isPolygonDrawing = false;
               state.currentPolygonPoints = [];
+              state.currentBezierHandles = [];
             }
             // Cancel construction mode when switching tools
             if (state.constructionMode !== 'none') {
@@ -311,27 +537,88 @@ export const useAppStore = create<AppStore>()(
           get().saveToHistory();
         },
 
+        addObjects: (objectsData) => {
+          if (objectsData.length === 0) return;
+          
+          const newObjectIds: string[] = [];
+          objectsData.forEach(objectData => {
+            // Name each object in turn so generated names stay unique
+            const newObject: DrawingObject = {
+              ...objectData,
+              name: objectData.name || get().generateObjectName(objectData.type),
+              id: generateId(),
+              createdAt: Date.now(),
+            };
+            newObjectIds.push(newObject.id);
+            set((state) => {
+              state.objects.push(newObject);
+            });
+          });
+          
+          // Select the whole batch and record it as a single history step
+          get().selectObjects(newObjectIds);
+          get().saveToHistory();
+        },
+
         updateObject: (id: string, updates: Partial<DrawingObject>) => {
+          // The end of a drag is solved from where it began, like its preview frames
+          const dragStart = get().dragStart;
+          const previous = dragStart?.id === id ? dragStart.objects : get().objects;
+          const current = previous.find(obj => obj.id === id);
+          if (current && createsCycle(previous, id, getParentIds({ ...current, ...updates }))) {
+            console.warn(`Ignoring update: ${current.name} would depend on itself`);
+            return;
+          }
+          
           set((state) => {
+            if (state.dragStart) {
+              if (state.dragStart.id === id) state.objects = copyMovable(previous, id);
+              state.dragStart = null;
+            }
             const index = state.objects.findIndex(obj => obj.id === id);
             if (index !== -1) {
               Object.assign(state.objects[index], updates);
+              const updated = state.objects[index];
+              if (isCurve(updated)) {
+                Object.assign(updated, getCurveGeometry({ ...updated, type: updated.type }, updated.curveMatrix));
+              }
+              if (updated.type === 'vector' && current) {
+                Object.assign(updated, getVectorGeometry(current, updates));
+              }
+              if (updated.type === 'polygon' && current) {
+                Object.assign(updated, getRegularPolygonGeometry(current, updates));
+              }
+              // Derived and constrained objects follow
+              propagateChanges(state.objects, previous, [id]);
             }
           });
           get().saveToHistory();
         },
 
-        deleteObject: (id: string) => {
+        deleteObject: (id: string, mode: DeleteMode = 'cascade') => {
+          const removedIds = mode === 'cascade' ? [id, ...collectDescendants(get().objects, [id])] : [id];
           set((state) => {
-            state.objects = state.objects.filter(obj => obj.id !== id);
-            state.selectedObjectIds = state.selectedObjectIds.filter(selectedId => selectedId !== id);
+            state.objects = state.objects.filter(obj => !removedIds.includes(obj.id));
+            if (mode === 'orphan') {
+              state.objects.forEach(obj => {
+                if (getParentIds(obj).some(parentId => removedIds.includes(parentId))) {
+                  detachConstruction(obj);
+                }
+              });
+            }
+            state.objects.forEach(obj => {
+              if (obj.constraints?.some(c => c.targetId && removedIds.includes(c.targetId))) {
+                obj.constraints = obj.constraints.filter(c => !c.targetId || !removedIds.includes(c.targetId));
+              }
+            });
+            state.selectedObjectIds = state.selectedObjectIds.filter(selectedId => !removedIds.includes(selectedId));
           });
           get().saveToHistory();
         },
 
-        deleteSelectedObjects: () => {
+        deleteSelectedObjects: (mode: DeleteMode = 'cascade') => {
           const { selectedObjectIds } = get();
-          selectedObjectIds.forEach((id: string) => get().deleteObject(id));
+          selectedObjectIds.forEach((id: string) => get().deleteObject(id, mode));
         },
 
         // Selection
@@ -419,6 +706,7 @@ export const useAppStore = create<AppStore>()(
                   break;
                   
                 case 'line':
+                case 'vector':
                   if (obj.points && obj.points.length >= 2) {
                     isInBox = obj.points.some(point => 
                       point.x >= minX && point.x <= maxX &&
@@ -655,6 +943,29 @@ export const useAppStore = create<AppStore>()(
               radius,
               createdAt: Date.now(),
             };
+          } else if (activeTool === 'ellipse') {
+            // Dragged out from the center; Shift keeps the radii equal
+            let radiusX = Math.abs(point.x - drawingStartPoint.x);
+            let radiusY = Math.abs(point.y - drawingStartPoint.y);
+            if (shiftPressed) {
+              radiusX = radiusY = Math.max(radiusX, radiusY);
+            }
+            previewObject = {
+              id: 'preview',
+              type: 'ellipse',
+              name: 'Ellipse Preview',
+              visible: true,
+              selected: false,
+              showName: true,
+              position: drawingStartPoint,
+              stroke: '#3b82f6',
+              strokeWidth: 2,
+              fill: 'transparent',
+              radiusX,
+              radiusY,
+              rotation: 0,
+              createdAt: Date.now(),
+            };
           } else if (activeTool === 'line') {
             previewObject = {
               id: 'preview',
@@ -672,6 +983,44 @@ export const useAppStore = create<AppStore>()(
               arrowEnd: 'none',
               createdAt: Date.now(),
             };
+          } else if (activeTool === 'regular_polygon') {
+            // Dragged out from the center to the first corner
+            const { sides, star, innerRatio } = get().regularPolygonOptions;
+            const radius = distance(drawingStartPoint, point);
+            const innerRadius = star ? radius * innerRatio : undefined;
+            const angle = Math.atan2(point.y - drawingStartPoint.y, point.x - drawingStartPoint.x);
+            previewObject = {
+              id: 'preview',
+              type: 'polygon',
+              name: 'Polygon Preview',
+              visible: true,
+              selected: false,
+              showName: true,
+              position: drawingStartPoint,
+              stroke: '#3b82f6',
+              strokeWidth: 2,
+              fill: 'transparent',
+              points: regularPolygonCorners(drawingStartPoint, radius, angle, sides, innerRadius),
+              sides,
+              radius,
+              ...(star && { innerRadius }),
+              createdAt: Date.now(),
+            };
+          } else if (activeTool === 'vector') {
+            previewObject = {
+              id: 'preview',
+              type: 'vector',
+              name: 'Vector Preview',
+              visible: true,
+              selected: false,
+              showName: true,
+              stroke: '#3b82f6',
+              strokeWidth: 2,
+              fill: 'transparent',
+              ...vectorBetween(drawingStartPoint, point),
+              position: drawingStartPoint,
+              createdAt: Date.now(),
+            };
           }
           
           set((state) => {
@@ -681,7 +1030,9 @@ export const useAppStore = create<AppStore>()(
 
         finishDrawing: () => {
           const { previewObject } = get();
-          if (previewObject) {
+          // A click without a drag gives a vector no direction and a regular polygon no size
+          const isEmpty = previewObject?.type === 'vector' ? !previewObject.magnitude : !!previewObject?.sides && !previewObject.radius;
+          if (previewObject && !isEmpty) {
             const { id, ...objectData } = previewObject;
             // Set proper name instead of preview name
             objectData.name = get().generateObjectName(previewObject.type);
@@ -734,15 +1085,21 @@ export const useAppStore = create<AppStore>()(
             'rectangle': 'R',
             'text': 'T',
             'polygon': 'Poly',
+            'bezier': 'Curve',
             'angle': 'α',
-            'midpoint': 'M'
+            'midpoint': 'M',
+            'distance': 'd',
+            'perp_bisector': 'Bisector',
+            'vector': 'v',
+            'function': 'f'
           };
           
-          if (shortNames[type]) {
-            return `${shortNames[type]}${count}`;
-          }
-          
-          return `${displayName}${count}`;
+          // Skip names still in use, e.g. after an earlier object was deleted
+          const stem = shortNames[type] ?? displayName;
+          const taken = new Set(objects.map(obj => obj.name));
+          let number = count;
+          while (taken.has(`${stem}${number}`)) number++;
+          return `${stem}${number}`;
         },
 
         clearCanvas: () => {
@@ -755,6 +1112,7 @@ export const useAppStore = create<AppStore>()(
             state.drawingStartPoint = null;
             state.previewObject = null;
             state.currentPolygonPoints = [];
+            state.currentBezierHandles = [];
             state.isPolygonDrawing = false;
             state.constructionMode = 'none';
             state.constructionStep = 0;
@@ -773,6 +1131,7 @@ export const useAppStore = create<AppStore>()(
           set((state) => {
             state.isPolygonDrawing = true;
             state.currentPolygonPoints = [point];
+            state.currentBezierHandles = [point];
           });
         },
 
@@ -780,12 +1139,56 @@ export const useAppStore = create<AppStore>()(
           set((state) => {
             if (state.isPolygonDrawing) {
               state.currentPolygonPoints.push(point);
+              state.currentBezierHandles.push(point);
+            }
+          });
+        },
+
+        setBezierHandle: (point: Point) => {
+          set((state) => {
+            if (state.isPolygonDrawing && state.currentBezierHandles.length > 0) {
+              state.currentBezierHandles[state.currentBezierHandles.length - 1] = point;
             }
           });
         },
 
         finishPolygon: () => {
-          const { currentPolygonPoints, activeTool } = get();
+          const { currentPolygonPoints, currentBezierHandles, activeTool } = get();
+          if (activeTool === 'bezier' && currentPolygonPoints.length >= 2) {
+            get().addObject({
+              type: 'bezier',
+              name: get().generateObjectName('bezier'),
+              visible: true,
+              selected: false,
+              showName: false,
+              position: currentPolygonPoints[0],
+              points: [...currentPolygonPoints],
+              controlPoints: bezierControlPoints(currentPolygonPoints, currentBezierHandles),
+              stroke: '#3b82f6',
+              strokeWidth: 2,
+              fill: 'transparent',
+            });
+          }
+          if (activeTool === 'arc' && currentPolygonPoints.length === 3) {
+            // Center, then a point fixing the radius and start, then the end direction
+            const [center, start, end] = currentPolygonPoints;
+            const arc = arcThrough(center, start, end);
+            if (arc.radius > 0) {
+              get().addObject({
+                type: 'arc',
+                name: get().generateObjectName('arc'),
+                visible: true,
+                selected: false,
+                showName: false,
+                position: center,
+                ...arc,
+                arcKind: 'arc',
+                stroke: '#3b82f6',
+                strokeWidth: 2,
+                fill: 'transparent',
+              });
+            }
+          }
           if (currentPolygonPoints.length >= 3) {
             if (activeTool === 'polygon') {
               get().addObject({
@@ -806,6 +1209,7 @@ export const useAppStore = create<AppStore>()(
           set((state) => {
             state.isPolygonDrawing = false;
             state.currentPolygonPoints = [];
+            state.currentBezierHandles = [];
           });
         },
 
@@ -813,6 +1217,7 @@ export const useAppStore = create<AppStore>()(
           set((state) => {
             state.isPolygonDrawing = false;
             state.currentPolygonPoints = [];
+            state.currentBezierHandles = [];
           });
         },
 
@@ -841,7 +1246,13 @@ export const useAppStore = create<AppStore>()(
             // For perpendicular and parallel tools - need 1 line selected
             get().finishConstruction();
           } else if (constructionMode === 'select_two_points' && constructionStep >= 1) {
-            // For midpoint and angle tools - need 2 points selected
+            // For midpoint, distance and bisector tools - need 2 points selected
+            get().finishConstruction();
+          } else if (constructionMode === 'select_three_points' && constructionStep >= 2) {
+            // For the angle tool - arm, vertex, arm; for the compass tool - radius, radius, centre or three points
+            get().finishConstruction();
+          } else if (constructionMode === 'select_two_objects' && constructionStep >= 1) {
+            // For the intersection tool - two lines or circles; for tangents - a circle and a point or circle
             get().finishConstruction();
           }
         },
@@ -867,6 +1278,7 @@ export const useAppStore = create<AppStore>()(
                 fill: '#f59e0b',
                 pointAId: pointA.id,
                 pointBId: pointB.id,
+                construction: 'midpoint',
               });
             }
           }
@@ -876,7 +1288,8 @@ export const useAppStore = create<AppStore>()(
             if (baseLine && baseLine.type === 'line') {
               const perpLine = get().calculatePerpendicularLine(baseLine.id, constructionData.throughPoint);
               if (perpLine) {
-                get().addObject(perpLine);
+                // Started on an existing point: the line stays through that point
+                get().addObject({ ...perpLine, pointAId: constructionData.throughPointId });
               }
             }
           }
@@ -886,35 +1299,176 @@ export const useAppStore = create<AppStore>()(
             if (baseLine && baseLine.type === 'line') {
               const parallelLine = get().calculateParallelLine(baseLine.id, constructionData.throughPoint);
               if (parallelLine) {
-                get().addObject(parallelLine);
+                // Started on an existing point: the line stays through that point
+                get().addObject({ ...parallelLine, pointAId: constructionData.throughPointId });
               }
             }
           }
           
-          if (activeTool === 'angle' && constructionData?.point0 && constructionData?.point1) {
+          if (activeTool === 'angle' && constructionData?.point0 && constructionData?.point1 && constructionData?.point2) {
+            // Clicked in order: first arm, vertex, second arm
             const pointA = get().getObjectById(constructionData.point0);
-            const pointB = get().getObjectById(constructionData.point1);
+            const vertex = get().getObjectById(constructionData.point1);
+            const pointB = get().getObjectById(constructionData.point2);
+            const isPoint = (obj?: DrawingObject): obj is DrawingObject => obj?.type === 'point';
             
-            if (pointA && pointB) {
-              // Use midpoint between the two points as vertex
-              const vertex = get().calculateMidpoint(pointA.position, pointB.position);
-              // Create angle measurement arc
-              const angleValue = get().calculateAngle(pointA.position, vertex, pointB.position);
-              
+            if (isPoint(pointA) && isPoint(vertex) && isPoint(pointB) &&
+                distance(pointA.position, vertex.position) > 0 && distance(pointB.position, vertex.position) > 0) {
               get().addObject({
                 type: 'angle',
                 name: get().generateObjectName('angle'),
                 visible: true,
                 selected: false,
-                showName: true,
-                position: vertex,
-                points: [pointA.position, vertex, pointB.position],
+                showName: false,
+                position: vertex.position,
+                points: [pointA.position, vertex.position, pointB.position],
                 stroke: '#8b5cf6',
                 strokeWidth: 2,
                 fill: 'transparent',
-                angleValue: angleValue,
+                angleValue: get().calculateAngle(pointA.position, vertex.position, pointB.position),
+                angleRadius: 20,
+                angleArcs: 1,
+                angleLabel: 'degrees',
+                pointAId: pointA.id,
+                vertexId: vertex.id,
+                pointBId: pointB.id,
+                construction: 'angle',
+              });
+            }
+          }
+          
+          if (activeTool === 'perp_bisector' && constructionData?.point0 && constructionData?.point1) {
+            const pointA = get().getObjectById(constructionData.point0);
+            const pointB = get().getObjectById(constructionData.point1);
+            const length = pointA && pointB ? distance(pointA.position, pointB.position) : 0;
+            
+            if (pointA && pointB && length > 0) {
+              get().addObject({
+                type: 'perp_bisector',
+                name: get().generateObjectName('perp_bisector'),
+                visible: true,
+                selected: false,
+                showName: true,
+                position: get().calculateMidpoint(pointA.position, pointB.position),
+                points: perpendicularBisector(pointA.position, pointB.position, length / 2),
+                stroke: '#ef4444',
+                strokeWidth: 2,
+                fill: 'transparent',
+                showRightAngle: true,
+                showEqualTicks: true,
+                pointAId: pointA.id,
+                pointBId: pointB.id,
+                construction: 'perp_bisector',
+              });
+            }
+          }
+          
+          if (activeTool === 'intersection' && constructionData?.point0 && constructionData?.point1) {
+            const objectA = get().getObjectById(constructionData.point0);
+            const objectB = get().getObjectById(constructionData.point1);
+            
+            if (objectA && objectB && objectA.id !== objectB.id) {
+              // One point per candidate crossing, each keeping its index into the candidates.
+              // Crossings that do not exist yet start hidden and appear once the objects cross.
+              const points: Omit<DrawingObject, 'id' | 'createdAt'>[] = [];
+              intersectObjects(objectA, objectB).forEach((crossing, index) => {
+                points.push({
+                  type: 'point',
+                  name: '', // Named in turn by addObjects
+                  visible: !!crossing,
+                  selected: false,
+                  showName: true,
+                  position: crossing ?? objectA.position,
+                  stroke: '#f59e0b',
+                  strokeWidth: 4,
+                  fill: '#f59e0b',
+                  pointAId: objectA.id,
+                  pointBId: objectB.id,
+                  intersectionIndex: index,
+                  construction: 'intersection',
+                  ...(!crossing && { constructionMissing: true }),
+                });
+              });
+              get().addObjects(points);
+            }
+          }
+          
+          if (activeTool === 'tangent' && constructionData?.point0 && constructionData?.point1) {
+            get().addObjects(get().calculateTangentLines(constructionData.point0, constructionData.point1));
+          }
+          
+          if (activeTool === 'compass' && constructionData?.point0 && constructionData?.point1) {
+            // Clicked in order: centre, point on the circle; or the two points whose distance
+            // is the radius, then the centre; or three points on the circle
+            const compassMode = get().compassMode;
+            const ids: string[] = [constructionData.point0, constructionData.point1, constructionData.point2].filter(Boolean);
+            const points = ids.map(id => get().getObjectById(id));
+            const isPoint = (obj?: DrawingObject): obj is DrawingObject => obj?.type === 'point';
+            let circle: Partial<DrawingObject> | null = null;
+            
+            if (points.every(isPoint) && new Set(ids).size === ids.length) {
+              if (compassMode === 'center_point' && points.length === 2) {
+                circle = {
+                  position: points[0]!.position,
+                  radius: distance(points[0]!.position, points[1]!.position),
+                  pointAId: ids[0],
+                  pointBId: ids[1],
+                  construction: 'circle_through',
+                };
+              } else if (compassMode === 'radius' && points.length === 3) {
+                circle = {
+                  position: points[2]!.position,
+                  radius: distance(points[0]!.position, points[1]!.position),
+                  pointAId: ids[0],
+                  pointBId: ids[1],
+                  pointCId: ids[2],
+                  construction: 'compass',
+                };
+              } else if (compassMode === 'three_points' && points.length === 3) {
+                // The circumcircle of the triangle they make
+                const refs = { pointAId: ids[0], pointBId: ids[1], pointCId: ids[2] };
+                const vertices = getTriangleVertices(refs, (id?: string) => (id ? get().getObjectById(id) : undefined));
+                const geometry = vertices && computeTriangleElement('circumcircle', vertices);
+                circle = geometry && { ...geometry, ...refs, triangleElement: 'circumcircle', construction: 'triangle' };
+              }
+            }
+            
+            if (circle?.position && circle.radius) {
+              get().addObject({
+                type: 'circle',
+                name: get().generateObjectName('circle'),
+                visible: true,
+                selected: false,
+                showName: false,
+                stroke: '#0ea5e9',
+                strokeWidth: 2,
+                fill: 'transparent',
+                ...circle,
+                position: circle.position,
+              });
+            }
+          }
+          
+          if (activeTool === 'distance' && constructionData?.point0 && constructionData?.point1) {
+            const pointA = get().getObjectById(constructionData.point0);
+            const pointB = get().getObjectById(constructionData.point1);
+            
+            if (pointA && pointB && pointA.id !== pointB.id) {
+              // Dimension line between the two points; the length label is computed when drawn
+              get().addObject({
+                type: 'distance',
+                name: get().generateObjectName('distance'),
+                visible: true,
+                selected: false,
+                showName: false,
+                position: get().calculateMidpoint(pointA.position, pointB.position),
+                points: [pointA.position, pointB.position],
+                stroke: '#6b7280',
+                strokeWidth: 1,
+                fill: 'transparent',
                 pointAId: pointA.id,
                 pointBId: pointB.id,
+                construction: 'distance',
               });
             }
           }
@@ -934,14 +1488,25 @@ export const useAppStore = create<AppStore>()(
           });
         },
 
-        // Basic geometry calculation utilities
-        calculateMidpoint: (pointA: Point, pointB: Point) => {
-          return {
-            x: (pointA.x + pointB.x) / 2,
-            y: (pointA.y + pointB.y) / 2,
-          };
+        setRegularPolygonOptions: (options: Partial<RegularPolygonOptions>) => {
+          set((state) => {
+            Object.assign(state.regularPolygonOptions, options);
+          });
+        },
+
+        setCompassMode: (mode: CompassMode) => {
+          set((state) => {
+            state.compassMode = mode;
+            // A construction in progress was started for the previous mode
+            state.constructionMode = 'none';
+            state.constructionStep = 0;
+            state.constructionData = null;
+          });
         },
 
+        // Basic geometry calculation utilities
+        calculateMidpoint: (pointA: Point, pointB: Point) => midpoint(pointA, pointB),
+
         calculatePerpendicularLine: (baseLineId: string, throughPoint: Point): Omit<DrawingObject, 'id' | 'createdAt'> | null => {
           const baseLine = get().getObjectById(baseLineId);
           if (!baseLine || baseLine.type !== 'line' || !baseLine.points || baseLine.points.length < 2) {
@@ -949,27 +1514,7 @@ export const useAppStore = create<AppStore>()(
           }
 
           const [p1, p2] = baseLine.points;
-          const dx = p2.x - p1.x;
-          const dy = p2.y - p1.y;
-          
-          // Perpendicular direction vector
-          const perpDx = -dy;
-          const perpDy = dx;
-          
-          // Normalize and extend
-          const length = 100;
-          const magnitude = Math.sqrt(perpDx * perpDx + perpDy * perpDy);
-          const unitX = perpDx / magnitude;
-          const unitY = perpDy / magnitude;
-          
-          const startPoint = {
-            x: throughPoint.x - unitX * length,
-            y: throughPoint.y - unitY * length,
-          };
-          const endPoint = {
-            x: throughPoint.x + unitX * length,
-            y: throughPoint.y + unitY * length,
-          };
+          const [startPoint, endPoint] = perpendicularThrough(p1, p2, throughPoint, 100);
 
           return {
             type: 'line' as const,
@@ -985,6 +1530,7 @@ export const useAppStore = create<AppStore>()(
             arrowStart: 'none',
             arrowEnd: 'none',
             baseLineId: baseLineId,
+            construction: 'perpendicular',
           };
         },
 
@@ -995,23 +1541,7 @@ export const useAppStore = create<AppStore>()(
           }
 
           const [p1, p2] = baseLine.points;
-          const dx = p2.x - p1.x;
-          const dy = p2.y - p1.y;
-          
-          // Parallel direction vector (same as base line)
-          const length = 100;
-          const magnitude = Math.sqrt(dx * dx + dy * dy);
-          const unitX = dx / magnitude;
-          const unitY = dy / magnitude;
-          
-          const startPoint = {
-            x: throughPoint.x - unitX * length,
-            y: throughPoint.y - unitY * length,
-          };
-          const endPoint = {
-            x: throughPoint.x + unitX * length,
-            y: throughPoint.y + unitY * length,
-          };
+          const [startPoint, endPoint] = parallelThrough(p1, p2, throughPoint, 100);
 
           return {
             type: 'line' as const,
@@ -1027,85 +1557,398 @@ export const useAppStore = create<AppStore>()(
             arrowStart: 'none',
             arrowEnd: 'none',
             baseLineId: baseLineId,
+            construction: 'parallel',
           };
         },
 
-        calculateAngle: (pointA: Point, vertex: Point, pointC: Point) => {
-          const vectorAB = { x: pointA.x - vertex.x, y: pointA.y - vertex.y };
-          const vectorCB = { x: pointC.x - vertex.x, y: pointC.y - vertex.y };
-          
-          const dotProduct = vectorAB.x * vectorCB.x + vectorAB.y * vectorCB.y;
-          const magnitudeAB = Math.sqrt(vectorAB.x * vectorAB.x + vectorAB.y * vectorAB.y);
-          const magnitudeCB = Math.sqrt(vectorCB.x * vectorCB.x + vectorCB.y * vectorCB.y);
-          
-          const cosTheta = dotProduct / (magnitudeAB * magnitudeCB);
-          const angleRadians = Math.acos(Math.max(-1, Math.min(1, cosTheta)));
-          const angleDegrees = (angleRadians * 180) / Math.PI;
-          
-          return angleDegrees;
+        calculateAngle: (pointA: Point, vertex: Point, pointC: Point) => angleAt(pointA, vertex, pointC),
+
+        calculateTriangleConstruction: (element: TriangleElement, sourceIds: string[]) => {
+          if (sourceIds.length !== 1 && sourceIds.length !== 3) return [];
+          const refs = sourceIds.length === 1
+            ? { baseLineId: sourceIds[0] }
+            : { pointAId: sourceIds[0], pointBId: sourceIds[1], pointCId: sourceIds[2] };
+          const vertices = getTriangleVertices(refs, (id?: string) => (id ? get().getObjectById(id) : undefined));
+          if (!vertices) return [];
+
+          const style = TRIANGLE_STYLES[element];
+          const isCevian = TRIANGLE_CEVIANS.includes(element);
+          const isCircle = element === 'circumcircle' || element === 'incircle';
+          // Centres keep their usual letter while it is free; cevians, circles and repeated
+          // centres are named in turn by addObjects
+          const centerName = style.name && !get().objects.some(obj => obj.name === style.name) ? style.name : '';
+          const created: Omit<DrawingObject, 'id' | 'createdAt'>[] = [];
+          (isCevian ? [0, 1, 2] : [0]).forEach(index => {
+            const geometry = computeTriangleElement(element, vertices, index);
+            if (!geometry?.position) return;
+            created.push({
+              type: isCevian ? 'line' : isCircle ? 'circle' : 'point',
+              name: centerName,
+              visible: true,
+              selected: false,
+              showName: !isCevian && !isCircle,
+              position: geometry.position,
+              stroke: style.stroke,
+              strokeWidth: isCevian || isCircle ? 2 : 4,
+              strokeStyle: style.strokeStyle,
+              fill: isCevian || isCircle ? 'transparent' : style.stroke,
+              ...geometry,
+              ...refs,
+              triangleElement: element,
+              ...(isCevian && { triangleVertex: index }),
+              construction: 'triangle',
+            });
+          });
+          return created;
+        },
+
+        addTriangleConstruction: (element: TriangleElement, sourceIds: string[]) => {
+          get().addObjects(get().calculateTriangleConstruction(element, sourceIds));
         },
 
-        // Basic constraint system methods
-        addConstraint: (objectId: string, constraint) => {
+        transformObjects: (ids: string[], transform: Transform, linked: boolean) => {
+          const matrix = getTransformMatrix(transform, (id?: string) => (id ? get().getObjectById(id) : undefined));
+          if (!matrix) return;
+
+          const copies: Omit<DrawingObject, 'id' | 'createdAt'>[] = [];
+          ids.forEach(id => {
+            const source = get().getObjectById(id);
+            if (!source) return;
+            // A rectangle turned off the axes can only be drawn as a polygon
+            const type = source.type === 'rectangle' && !keepsAxes(transform) ? 'polygon' : source.type;
+            const copy: DrawingObject = JSON.parse(JSON.stringify(source));
+            detachConstruction(copy);
+            delete copy.constraints;
+            if (type !== source.type) {
+              delete copy.width;
+              delete copy.height;
+            }
+            copies.push({
+              ...copy,
+              ...transformObject(source, matrix, type),
+              type,
+              name: `${source.name}'`,
+              selected: false,
+              ...(linked && { pointAId: source.id, transform, construction: 'transform' as const }),
+            });
+          });
+          get().addObjects(copies);
+        },
+
+        addVectorSum: (kind: 'vector_sum' | 'vector_difference', vectorAId: string, vectorBId: string, rule: NonNullable<DrawingObject['vectorRule']>) => {
+          const a = get().getObjectById(vectorAId);
+          const b = get().getObjectById(vectorBId);
+          const geometry = a && b && computeVectorSum(kind, a, b, rule);
+          if (!geometry?.position) return;
+          get().addObject({
+            type: 'vector',
+            name: get().generateObjectName('vector'),
+            visible: true,
+            selected: false,
+            showName: true,
+            position: geometry.position,
+            stroke: '#8b5cf6',
+            strokeWidth: 2,
+            fill: 'transparent',
+            ...geometry,
+            pointAId: vectorAId,
+            pointBId: vectorBId,
+            vectorRule: rule,
+            construction: kind,
+          });
+        },
+
+        calculateTangentLines: (objectAId: string, objectBId: string) => {
+          let circle = get().getObjectById(objectAId);
+          let other = get().getObjectById(objectBId);
+          if (other?.type === 'circle' && circle?.type !== 'circle') [circle, other] = [other, circle];
+          if (!circle || circle.type !== 'circle' || !other || other.id === circle.id) return [];
+
+          let kind: 'tangent_at' | 'tangent_from' | 'common_tangent';
+          let indices: number[];
+          if (other.type === 'circle') {
+            kind = 'common_tangent';
+            indices = [0, 1, 2, 3];
+          } else if (other.type === 'point') {
+            const onCircle = (other.construction === 'point_on_circle' && other.baseLineId === circle.id) ||
+              Math.abs(distance(other.position, circle.position) - (circle.radius || 30)) < 1;
+            kind = onCircle ? 'tangent_at' : 'tangent_from';
+            indices = onCircle ? [0] : [0, 1];
+          } else {
+            return [];
+          }
+
+          const refs = kind === 'common_tangent'
+            ? { pointAId: circle.id, pointBId: other.id }
+            : { baseLineId: circle.id, pointAId: other.id };
+          // Every tangent is created; those that do not exist yet (a point inside the circle,
+          // overlapping circles) start hidden and appear once the circles allow them
+          return indices.map((index): Omit<DrawingObject, 'id' | 'createdAt'> => {
+            const points = computeTangent(kind, circle!, other!, index);
+            return {
+              type: 'line',
+              name: '', // Named in turn by addObjects
+              visible: !!points,
+              selected: false,
+              showName: false,
+              position: points?.[0] ?? circle!.position,
+              points: points ?? [circle!.position, circle!.position],
+              stroke: '#ec4899',
+              strokeWidth: 2,
+              fill: 'transparent',
+              arrowStart: 'none',
+              arrowEnd: 'none',
+              ...refs,
+              ...(kind !== 'tangent_at' && { tangentIndex: index }),
+              ...(!points && { constructionMissing: true }),
+              construction: kind,
+            };
+          });
+        },
+
+        // Constraints
+        addConstraint: (objectId: string, constraint: Constraint) => {
+          const previous = get().objects;
           set((state) => {
             const obj = state.objects.find(o => o.id === objectId);
             if (obj) {
               if (!obj.constraints) obj.constraints = [];
               obj.constraints.push(constraint);
+              propagateChanges(state.objects, previous, [objectId]);
             }
           });
+          get().saveToHistory();
         },
 
-        removeConstraint: (objectId: string, targetId: string) => {
+        removeConstraint: (objectId: string, index: number) => {
           set((state) => {
             const obj = state.objects.find(o => o.id === objectId);
             if (obj && obj.constraints) {
-              obj.constraints = obj.constraints.filter(c => c.targetId !== targetId);
+              obj.constraints.splice(index, 1);
+              if (obj.constraints.length === 0) delete obj.constraints;
             }
           });
+          get().saveToHistory();
         },
 
-        updateConstrainedObjects: (objectId: string) => {
-          const state = get();
-          
-          set((draft) => {
-            // Simple constraint update for basic geometry
-            draft.objects.forEach(obj => {
-              if (!obj.constraints) return;
-              
-              obj.constraints.forEach(constraint => {
-                if (constraint.targetId !== objectId) return;
-                
-                const target = draft.objects.find(o => o.id === objectId);
-                if (!target) return;
-                
-                switch (constraint.type) {
-                  case 'center':
-                    if (obj.type === 'circle') {
-                      obj.position = { ...target.position };
-                      if (constraint.offset) {
-                        obj.position.x += constraint.offset.x;
-                        obj.position.y += constraint.offset.y;
-                      }
-                    }
-                    break;
-                    
-                  case 'start_point':
-                    if (obj.type === 'line' && obj.points) {
-                      obj.points[0] = { ...target.position };
-                      obj.position = obj.points[0];
-                    }
-                    break;
-                    
-                  case 'end_point':
-                    if (obj.type === 'line' && obj.points) {
-                      obj.points[1] = { ...target.position };
-                    }
-                    break;
-                }
-              });
-            });
+        previewDrag: (id: string, updates: Partial<DrawingObject>) => {
+          // Every frame is solved from the drag's start, as the dragged object itself stays there
+          const dragStart = get().dragStart;
+          const previous = dragStart?.id === id ? dragStart.objects : get().objects;
+          const index = previous.findIndex(obj => obj.id === id);
+          if (index === -1) return null;
+
+          const objects = copyMovable(previous, id);
+          const solved = Object.assign(objects[index], updates);
+          propagateChanges(objects, previous, [id]);
+          // Konva owns the dragged node until the drag ends
+          objects[index] = previous[index];
+          set((state) => {
+            state.dragStart = { id, objects: previous };
+            state.objects = objects;
+          });
+          return solved;
+        },
+
+        endDrag: () => {
+          // A drag that ended without an update puts its dependents back where they began
+          const dragStart = get().dragStart;
+          if (!dragStart) return;
+          set((state) => {
+            state.objects = dragStart.objects;
+            state.dragStart = null;
+          });
+        },
+
+        // Function plots and curves
+        addCurve: (curve: CurveDefinition) => {
+          const plot = { ...CURVE_DEFAULTS[curve.type], ...curve };
+          get().addObject({
+            ...plot,
+            name: get().generateObjectName(curve.type),
+            visible: true,
+            selected: false,
+            showName: false,
+            stroke: '#3b82f6',
+            strokeWidth: 2,
+            fill: 'transparent',
+            ...getCurveGeometry(plot),
+          });
+        },
+
+        // TikZ import
+        importTikZ: (source: string) => {
+          const { objects, issues } = parseTikZ(source);
+          get().addObjects(objects);
+          return issues;
+        },
+
+        // Project files
+        setProjectName: (name: string) => {
+          set((state) => {
+            state.projectName = name;
+          });
+        },
+
+        getProjectData: () => {
+          const { projectName, canvas, objects } = get();
+          return { name: projectName.trim() || DEFAULT_PROJECT_NAME, canvas, objects };
+        },
+
+        loadProject: (project: ProjectData) => {
+          // Start from a clean slate so no drawing or construction state refers to old objects
+          get().clearCanvas();
+          set((state) => {
+            state.projectName = project.name;
+            state.objects = project.objects;
+            state.canvas = { ...defaultCanvasSettings, ...project.canvas };
+            // Projects from before a snap type existed get its default
+            state.canvas.snapTypes = { ...DEFAULT_SNAP_TYPES, ...project.canvas.snapTypes };
+            state.history = [JSON.parse(JSON.stringify(project.objects))];
+            state.historyIndex = 0;
+          });
+        },
+
+        // Drawing library
+        initDocuments: async () => {
+          const documents = await listDocuments();
+          if (documents.length === 0) {
+            // First run: the drawing currently in the store (restored from localStorage) becomes the first document
+            await get().createDocument(get().getProjectData());
+            return;
+          }
+          const lastId = localStorage.getItem(CURRENT_DOCUMENT_KEY);
+          set((state) => {
+            state.documents = documents;
+          });
+          await get().switchDocument((documents.find(doc => doc.id === lastId) ?? documents[0]).id);
+        },
+
+        refreshDocuments: async () => {
+          const documents = await listDocuments();
+          set((state) => {
+            state.documents = documents;
+          });
+        },
+
+        saveCurrentDocument: async () => {
+          const { documentId, documents, history, historyIndex } = get();
+          if (!documentId) return;
+          cancelAutosave();
+
+          const now = Date.now();
+          const current = documents.find(doc => doc.id === documentId);
+          const summary = await saveDocument(
+            {
+              id: documentId,
+              thumbnail: renderThumbnail() ?? current?.thumbnail ?? null,
+              createdAt: current?.createdAt ?? now,
+              updatedAt: now,
+            },
+            get().getProjectData(),
+            history,
+            historyIndex
+          );
+          set((state) => {
+            state.documents = [summary, ...state.documents.filter(doc => doc.id !== summary.id)];
+          });
+        },
+
+        createDocument: async (project?: ProjectData) => {
+          await get().saveCurrentDocument();
+
+          const id = generateDocumentId();
+          const now = Date.now();
+          get().loadProject(project ?? { name: DEFAULT_PROJECT_NAME, canvas: {}, objects: [] });
+          set((state) => {
+            state.documentId = id;
+          });
+          localStorage.setItem(CURRENT_DOCUMENT_KEY, id);
+
+          const { history, historyIndex } = get();
+          const summary = await saveDocument(
+            { id, thumbnail: null, createdAt: now, updatedAt: now },
+            get().getProjectData(),
+            history,
+            historyIndex
+          );
+          set((state) => {
+            state.documents = [summary, ...state.documents.filter(doc => doc.id !== id)];
           });
+          // The canvas has not rendered the new drawing yet; the autosave captures its thumbnail
+          scheduleAutosave();
+        },
+
+        switchDocument: async (id: string) => {
+          if (id === get().documentId) return;
+          await get().saveCurrentDocument();
+
+          const loaded = await loadDocument(id);
+          if (!loaded) {
+            await get().refreshDocuments();
+            return;
+          }
+          get().loadProject(loaded.project);
+          set((state) => {
+            state.documentId = id;
+            state.history = loaded.history;
+            state.historyIndex = loaded.historyIndex;
+          });
+          // Loading is not an edit
+          cancelAutosave();
+          localStorage.setItem(CURRENT_DOCUMENT_KEY, id);
+        },
+
+        renameDocument: async (id: string, name: string) => {
+          if (id === get().documentId) {
+            get().setProjectName(name);
+            await get().saveCurrentDocument();
+            return;
+          }
+          const loaded = await loadDocument(id);
+          if (!loaded) return;
+          await saveDocument(
+            { ...loaded.summary, updatedAt: Date.now() },
+            { ...loaded.project, name: name.trim() || DEFAULT_PROJECT_NAME },
+            loaded.history,
+            loaded.historyIndex
+          );
+          await get().refreshDocuments();
+        },
+
+        duplicateDocument: async (id: string) => {
+          if (id === get().documentId) {
+            await get().saveCurrentDocument();
+          }
+          const loaded = await loadDocument(id);
+          if (!loaded) return;
+          const now = Date.now();
+          await saveDocument(
+            { ...loaded.summary, id: generateDocumentId(), createdAt: now, updatedAt: now },
+            { ...loaded.project, name: `${loaded.project.name} copy` },
+            loaded.history,
+            loaded.historyIndex
+          );
+          await get().refreshDocuments();
+        },
+
+        deleteDocument: async (id: string) => {
+          await deleteStoredDocument(id);
+          const remaining = get().documents.filter(doc => doc.id !== id);
+          set((state) => {
+            state.documents = remaining;
+          });
+          if (id !== get().documentId) return;
+
+          // The open document is gone - move to the next one, or start a fresh drawing
+          set((state) => {
+            state.documentId = null;
+          });
+          if (remaining.length > 0) {
+            await get().switchDocument(remaining[0].id);
+          } else {
+            await get().createDocument();
+          }
         },
 
         // Text editing actions
@@ -1159,41 +2002,64 @@ export const useAppStore = create<AppStore>()(
   )
 );
 
-// Persist state to localStorage
+// Persist the open document to IndexedDB. Saves are debounced so a drag or a burst
+// of property edits writes (and renders a thumbnail) once.
+const AUTOSAVE_DELAY = 1000;
+const CURRENT_DOCUMENT_KEY = 'tikzsketch-current-document';
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function cancelAutosave() {
+  if (autosaveTimer) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+}
+
+function scheduleAutosave() {
+  cancelAutosave();
+  autosaveTimer = setTimeout(() => {
+    autosaveTimer = null;
+    useAppStore.getState().saveCurrentDocument()
+      .catch((e) => console.warn('Failed to save document:', e));
+  }, AUTOSAVE_DELAY);
+}
+
 if (typeof window !== 'undefined') {
-  useAppStore.subscribe(
-    (state) => state.objects,
-    (objects) => {
-      localStorage.setItem('tikzsketch-objects', JSON.stringify(objects));
+  // Single-drawing saves from before the drawing library; imported as the first document
+  const PROJECT_KEY = 'tikzsketch-project';
+  const LEGACY_OBJECTS_KEY = 'tikzsketch-objects';
+  const LEGACY_CANVAS_KEY = 'tikzsketch-canvas';
+
+  const savedProject = localStorage.getItem(PROJECT_KEY);
+  const legacyObjects = localStorage.getItem(LEGACY_OBJECTS_KEY);
+  const legacyCanvas = localStorage.getItem(LEGACY_CANVAS_KEY);
+
+  try {
+    if (savedProject) {
+      useAppStore.getState().loadProject(parseProject(savedProject));
+    } else if (legacyObjects || legacyCanvas) {
+      useAppStore.getState().loadProject(readProjectFile(migrateProject({
+        objects: legacyObjects ? JSON.parse(legacyObjects) : [],
+        canvas: legacyCanvas ? JSON.parse(legacyCanvas) : {},
+      })));
     }
-  );
+  } catch (e) {
+    console.warn('Failed to load saved project:', e);
+  }
+
+  useAppStore.getState().initDocuments()
+    .then(() => {
+      localStorage.removeItem(PROJECT_KEY);
+      localStorage.removeItem(LEGACY_OBJECTS_KEY);
+      localStorage.removeItem(LEGACY_CANVAS_KEY);
+    })
+    .catch((e) => console.warn('Failed to open the drawing library:', e));
 
   useAppStore.subscribe(
-    (state) => state.canvas,
-    (canvas) => {
-      localStorage.setItem('tikzsketch-canvas', JSON.stringify(canvas));
-    }
+    (state) => [state.objects, state.canvas, state.projectName, state.historyIndex] as const,
+    () => {
+      if (useAppStore.getState().documentId) scheduleAutosave();
+    },
+    { equalityFn: (a, b) => a.every((value, index) => value === b[index]) }
   );
-
-  // Load state from localStorage on init
-  const savedObjects = localStorage.getItem('tikzsketch-objects');
-  const savedCanvas = localStorage.getItem('tikzsketch-canvas');
-  
-  if (savedObjects) {
-    try {
-      const objects = JSON.parse(savedObjects);
-      useAppStore.setState({ objects });
-    } catch (e) {
-      console.warn('Failed to load saved objects:', e);
-    }
-  }
-  
-  if (savedCanvas) {
-    try {
-      const canvas = JSON.parse(savedCanvas);
-      useAppStore.setState({ canvas: { ...defaultCanvasSettings, ...canvas } });
-    } catch (e) {
-      console.warn('Failed to load saved canvas settings:', e);
-    }
-  }
-} 
\ No newline at end of file
+}
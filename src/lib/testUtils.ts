@@ -0,0 +1,37 @@
+import type { DrawingObject, Point } from '@/lib/store';
+
+// Fixtures shared by the tests: objects as the drawing tools create them, with their
+// geometry in canvas pixels (Y down)
+
+export const CM = 28; // Canvas pixels per TikZ centimetre
+
+export const object = (type: DrawingObject['type'], overrides: Partial<DrawingObject> = {}): DrawingObject => ({
+  id: type,
+  type,
+  name: '',
+  visible: true,
+  selected: false,
+  position: { x: 0, y: 0 },
+  stroke: '#000000',
+  strokeWidth: 2,
+  fill: 'transparent',
+  createdAt: 0,
+  ...overrides,
+});
+
+export const point = (id: string, position: Point, overrides: Partial<DrawingObject> = {}) => {
+  return object('point', { id, position, ...overrides });
+};
+
+export const line = (id: string, start: Point, end: Point, overrides: Partial<DrawingObject> = {}) => {
+  return object('line', { id, position: start, points: [start, end], ...overrides });
+};
+
+export const circle = (id: string, center: Point, radius: number, overrides: Partial<DrawingObject> = {}) => {
+  return object('circle', { id, position: center, radius, ...overrides });
+};
+
+// Copy of an object list, as the store keeps the one from before a change
+export const clone = (objects: DrawingObject[]) => JSON.parse(JSON.stringify(objects)) as DrawingObject[];
+
+export const find = (objects: DrawingObject[], id: string) => objects.find(obj => obj.id === id)!;
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawingObject } from '@/lib/store';
+import { angleAt, regularPolygonCorners } from '@/lib/geometry';
+import { findUnsupportedObjects, toTikZ } from '@/lib/tikz';
+import { CM, object } from '@/lib/testUtils';
+
+// Golden files for the TikZ of each object type. After an intended change to the output,
+// review the diff and update them with `npx vitest run -u`.
+
+const angleArms = [{ x: 3 * CM, y: 0 }, { x: 0, y: 0 }, { x: 2 * CM, y: -2 * CM }];
+
+const SCENES: Record<string, DrawingObject[]> = {
+  point: [object('point', { name: 'A', showName: true, position: { x: CM, y: -CM } })],
+  line: [
+    object('line', { position: { x: 0, y: 0 }, points: [{ x: 0, y: 0 }, { x: 2 * CM, y: -CM }] }),
+    object('line', {
+      id: 'arrow',
+      stroke: '#3b82f6',
+      strokeStyle: 'dashed',
+      arrowStart: 'none',
+      arrowEnd: 'stealth',
+      points: [{ x: 0, y: CM }, { x: CM, y: CM }, { x: CM, y: 2 * CM }],
+    }),
+  ],
+  rectangle: [object('rectangle', { position: { x: -CM, y: -2 * CM }, width: 3 * CM, height: 2 * CM, fill: '#10b981' })],
+  circle: [
+    object('circle', { position: { x: CM, y: 0 }, radius: 1.5 * CM }),
+    object('circle', { id: 'filled', position: { x: -CM, y: 0 }, radius: CM, stroke: 'transparent', fill: '#ef4444' }),
+  ],
+  text: [
+    object('text', { position: { x: 0, y: -CM }, text: 'Label', fontSize: 12, fontWeight: 'bold' }),
+    object('text', { id: 'math', position: { x: 0, y: CM }, text: '\\frac{a}{b}', fontSize: 16, isMath: true }),
+  ],
+  polygon: [
+    object('polygon', { points: [{ x: 0, y: 0 }, { x: 2 * CM, y: 0 }, { x: CM, y: -2 * CM }], fill: '#f59e0b', fillOpacity: 0.5 }),
+  ],
+  regular_polygon: [
+    object('polygon', { sides: 6, radius: CM, points: regularPolygonCorners({ x: 0, y: 0 }, CM, -Math.PI / 2, 6) }),
+    object('polygon', {
+      id: 'star',
+      sides: 5,
+      radius: 2 * CM,
+      innerRadius: CM,
+      points: regularPolygonCorners({ x: 4 * CM, y: 0 }, 2 * CM, -Math.PI / 2, 5, CM),
+    }),
+  ],
+  bezier: [
+    object('bezier', {
+      points: [{ x: 0, y: 0 }, { x: 3 * CM, y: 0 }],
+      controlPoints: [{ x: CM, y: -2 * CM }, { x: 2 * CM, y: -2 * CM }],
+    }),
+  ],
+  arc: [
+    object('arc', { radius: 2 * CM, startAngle: 0, endAngle: 90, arcKind: 'arc' }),
+    object('arc', { id: 'sector', position: { x: 3 * CM, y: 0 }, radius: CM, startAngle: 30, endAngle: 150, arcKind: 'sector', fill: '#8b5cf6' }),
+    object('arc', { id: 'segment', position: { x: 6 * CM, y: 0 }, radius: CM, startAngle: 270, endAngle: 90, arcKind: 'segment' }),
+  ],
+  ellipse: [
+    object('ellipse', { radiusX: 2 * CM, radiusY: CM }),
+    object('ellipse', { id: 'turned', position: { x: 5 * CM, y: 0 }, radiusX: 2 * CM, radiusY: CM, rotation: 30 }),
+  ],
+  angle: [
+    object('angle', {
+      position: angleArms[1],
+      points: angleArms,
+      angleValue: angleAt(angleArms[0], angleArms[1], angleArms[2]),
+      angleArcs: 2,
+      angleLabel: 'symbol',
+      angleSymbol: '\\alpha',
+    }),
+    object('angle', {
+      id: 'right',
+      position: { x: 0, y: 0 },
+      points: [{ x: 2 * CM, y: 0 }, { x: 0, y: 0 }, { x: 0, y: -2 * CM }],
+      angleValue: 90,
+    }),
+  ],
+  perpendicular: [object('perpendicular', { points: [{ x: 0, y: -2 * CM }, { x: 0, y: 2 * CM }] })],
+  parallel: [object('parallel', { points: [{ x: -2 * CM, y: CM }, { x: 2 * CM, y: CM }] })],
+  midpoint: [object('midpoint', { position: { x: CM, y: 0 } })],
+  distance: [object('distance', { position: { x: 1.5 * CM, y: 0 }, points: [{ x: 0, y: 0 }, { x: 3 * CM, y: 0 }] })],
+  perp_bisector: [
+    object('perp_bisector', {
+      position: { x: CM, y: 0 },
+      points: [{ x: CM, y: -CM }, { x: CM, y: CM }],
+      pointAId: 'a',
+      pointBId: 'b',
+      showRightAngle: true,
+      showEqualTicks: true,
+    }),
+    object('perp_bisector', { id: 'orphan', position: { x: 4 * CM, y: 0 }, points: [{ x: 4 * CM, y: -CM }, { x: 4 * CM, y: CM }] }),
+  ],
+  function: [object('function', { name: 'f', expression: 'x^2 - 1', domainMin: -2, domainMax: 2, samples: 50 })],
+  function_asymptote: [object('function', { name: 'g', expression: '1/x', domainMin: -2, domainMax: 2, samples: 41 })],
+  parametric: [object('parametric', { name: 'c', xExpression: 'cos(t)', yExpression: 'sin(2*t)', domainMin: 0, domainMax: 2 * Math.PI, samples: 100 })],
+  polar: [object('polar', { name: 'r', expression: '1 + cos(t)', domainMin: 0, domainMax: 2 * Math.PI, samples: 100 })],
+  image: [object('image', { position: { x: -CM, y: -CM }, width: 2 * CM, height: CM, imageUrl: 'figure.png', rotation: 90 })],
+  vector: [
+    object('vector', {
+      name: 'v',
+      showName: true,
+      position: { x: 0, y: 0 },
+      points: [{ x: 0, y: 0 }, { x: 3 * CM, y: -2 * CM }],
+      showComponents: true,
+    }),
+  ],
+};
+
+describe('toTikZ golden files', () => {
+  for (const [name, objects] of Object.entries(SCENES)) {
+    it(`exports ${name}`, async () => {
+      await expect(toTikZ(objects, { documentWrapper: false })).toMatchFileSnapshot(`./__golden__/tikz/${name}.tex`);
+    });
+  }
+
+  it('wraps a drawing in a standalone document', async () => {
+    const objects = [...SCENES.circle, ...SCENES.image];
+    await expect(toTikZ(objects)).toMatchFileSnapshot('./__golden__/tikz/document.tex');
+  });
+
+  it('exports in millimetres', async () => {
+    const objects = [...SCENES.line, ...SCENES.circle, ...SCENES.arc];
+    await expect(toTikZ(objects, { documentWrapper: false, unit: 'mm' })).toMatchFileSnapshot('./__golden__/tikz/unit-mm.tex');
+  });
+
+  for (const gridType of ['cartesian', 'polar', 'isometric'] as const) {
+    it(`draws a ${gridType} coordinate system`, async () => {
+      const tikz = toTikZ(SCENES.line, { documentWrapper: false, coordinates: true, gridType });
+      await expect(tikz).toMatchFileSnapshot(`./__golden__/tikz/coordinates-${gridType}.tex`);
+    });
+  }
+});
+
+describe('toTikZ', () => {
+  it('leaves out hidden objects', () => {
+    const hidden = object('circle', { radius: CM, visible: false });
+    expect(toTikZ([hidden], { documentWrapper: false })).not.toContain('circle');
+  });
+
+  it('draws objects in the order they were created', () => {
+    const later = object('point', { id: 'later', position: { x: CM, y: 0 }, createdAt: 2 });
+    const earlier = object('point', { id: 'earlier', position: { x: 2 * CM, y: 0 }, createdAt: 1 });
+    const tikz = toTikZ([later, earlier], { documentWrapper: false });
+    expect(tikz.indexOf('(2,0)')).toBeLessThan(tikz.indexOf('(1,0)'));
+  });
+
+  it('writes plot domains in full rather than at coordinate precision', () => {
+    const curve = object('parametric', { xExpression: 't', yExpression: '0', domainMin: -0.125, domainMax: 6.2832, samples: 10 });
+    expect(toTikZ([curve], { documentWrapper: false })).toContain('domain=-0.125:6.2832');
+  });
+
+  it('covers every object type it claims to support', () => {
+    const objects = Object.values(SCENES).flat();
+    expect(findUnsupportedObjects(objects)).toEqual([]);
+    objects.forEach(obj => expect(toTikZ([obj], { documentWrapper: false })).not.toContain('Unsupported object type'));
+  });
+});
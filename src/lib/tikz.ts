@@ -0,0 +1,1333 @@
+import type { DrawingObject, Point } from '@/lib/store';
+import {
+  ANGLE_ARC_SPACING,
+  RIGHT_ANGLE_SIZE,
+  cornerCentroid,
+  distance,
+  ellipseExtents,
+  isRightAngle,
+  normalizeArcEnd,
+  regularPolygonCorners,
+} from '@/lib/geometry';
+import { ISOMETRIC_ROW_HEIGHT, POLAR_GRID_ANGLE, type GridType } from '@/lib/grid';
+import { applyMatrix, type Matrix } from '@/lib/transform';
+import { PIXELS_PER_CM, toUnit, type LengthUnit } from '@/lib/units';
+import {
+  CURVE_VARIABLES,
+  formatPgfNumber,
+  getCurveExpressions,
+  getCurveRange,
+  getCurveSegments,
+  parseExpression,
+  stripExpressionPrefix,
+  toPgfMath,
+} from '@/lib/expression';
+
+const DEFAULT_PRECISION = 2;
+
+export interface TikZOptions {
+  documentWrapper: boolean; // Wrap the picture in a standalone document with preamble
+  nameComments: boolean; // Emit a "% name" comment before each named object
+  nameLabels: boolean; // Emit a \node label for objects with showName
+  coordinates: boolean; // Draw the smart coordinate system (grid, axes, ticks)
+  gridType: GridType; // Grid drawn by the coordinate system, as on the canvas
+  unit: LengthUnit; // Unit of the numbers in the picture (set with its x and y vectors)
+  precision: number; // Maximum decimal places for non-integer coordinates
+}
+
+export const defaultTikZOptions: TikZOptions = {
+  documentWrapper: true,
+  nameComments: true,
+  nameLabels: true,
+  coordinates: false,
+  gridType: 'cartesian',
+  unit: 'cm',
+  precision: DEFAULT_PRECISION,
+};
+
+// Smart formatting: integers, clean halves, or up to `precision` decimal places
+export const formatNumber = (value: number, precision = DEFAULT_PRECISION) => {
+  // Rounded first, so unit conversions such as 42px = 15.000000000000002mm still read as 15
+  const rounded = Number(value.toFixed(precision));
+  if (rounded === Math.floor(rounded)) {
+    return rounded.toFixed(0); // Integer
+  } else if (rounded * 2 === Math.floor(rounded * 2)) {
+    return rounded.toFixed(1); // Half-integer (0.5, 1.5, etc.)
+  } else {
+    return rounded.toFixed(precision);
+  }
+};
+
+// Convert pixels to a number in the picture's unit
+export const pixelToTikZ = (pixels: number, precision = DEFAULT_PRECISION, unit: LengthUnit = 'cm') => {
+  return formatNumber(toUnit(pixels, unit), precision);
+};
+
+// Calculate center offset based on object distribution
+const getOriginOffset = () => {
+  // Match Canvas coordinate system: fixed origin at center (0,0)
+  // Canvas grid has origin at center, so TikZ should use same reference
+  return { x: 0, y: 0 };
+};
+
+// Convert canvas coordinates to TikZ coordinates
+export const canvasToTikZ = (canvasPos: Point, precision = DEFAULT_PRECISION, unit: LengthUnit = 'cm') => {
+  const offset = getOriginOffset();
+  return {
+    x: pixelToTikZ(canvasPos.x - offset.x, precision, unit),
+    y: pixelToTikZ(-(canvasPos.y - offset.y), precision, unit) // Flip Y-axis for mathematical coordinate system
+  };
+};
+
+// TikZ `cm` option for a map given in canvas coordinates, with its shift in centimetres (curves
+// are plotted in cm whatever the picture's unit). The linear part keeps at least four decimals
+// so rotations stay accurate at low precision.
+const formatMatrix = (matrix: Matrix, precision = DEFAULT_PRECISION) => {
+  const offset = getOriginOffset();
+  const [a, b, c, d] = matrix;
+  const shifted = applyMatrix(matrix, offset);
+  // Rounded first so sin/cos of right angles come out as whole numbers
+  const linear = [a, -b, -c, d].map(value => formatNumber(Math.round(value * 1e9) / 1e9 || 0, Math.max(precision, 4)));
+  return `cm={${linear.join(',')},(${pixelToTikZ(shifted.x - offset.x, precision)},${pixelToTikZ(-(shifted.y - offset.y), precision)})}`;
+};
+
+// Bound of a plot domain. Domains are parameters rather than lengths, so they are written in
+// full (a closed curve over 0..2π must not stop at 6.28), with multiples of π as such.
+const formatDomainBound = (value: number) => {
+  const turns = Math.round((value / Math.PI) * 1e9) / 1e9;
+  if (turns !== 0 && Number.isInteger(turns)) {
+    return turns === 1 ? 'pi' : turns === -1 ? '-pi' : `${turns}*pi`;
+  }
+  return formatPgfNumber(Math.round(value * 1e9) / 1e9 || 0);
+};
+
+// Options of the shapes.geometric node for a regular polygon or star, with its centre; null
+// when its corners no longer match its sides and radii (it is then drawn corner by corner)
+const getRegularPolygonShape = (obj: DrawingObject, precision = DEFAULT_PRECISION, unit: LengthUnit = 'cm') => {
+  if (!obj.sides || !obj.radius || !obj.points) return null;
+  const points = obj.points;
+  // Rounded so that sums of sines and cosines give clean numbers
+  const round = (value: number) => Math.round(value * 1e9) / 1e9 || 0;
+  const center = cornerCentroid(points);
+  const angle = Math.atan2(points[0].y - center.y, points[0].x - center.x);
+  const corners = regularPolygonCorners(center, obj.radius, angle, obj.sides, obj.innerRadius);
+  // Mirror images run round the other way
+  const matches = (order: Point[]) => order.length === points.length &&
+    order.every((p, i) => distance(p, points[i]) <= 1e-6 * obj.radius!);
+  if (!matches(corners) && !matches([corners[0], ...corners.slice(1).reverse()])) return null;
+
+  // Unrotated, the node has a point straight up for stars and a flat bottom side for
+  // polygons; only the turn within one corner's step matters
+  const step = 360 / obj.sides;
+  const base = obj.innerRadius !== undefined ? 90 : -90 + step / 2;
+  const rotation = ((((-angle * 180) / Math.PI - base) % step) + step) % step;
+  const options = obj.innerRadius !== undefined
+    ? ['star', `star points=${obj.sides}`, `star point ratio=${formatNumber(obj.radius / obj.innerRadius, precision)}`]
+    : ['regular polygon', `regular polygon sides=${obj.sides}`];
+  options.push(`minimum size=${pixelToTikZ(round(2 * obj.radius), precision, unit)}${unit}`, 'inner sep=0pt');
+  if (Math.abs(rotation) > 1e-9 && Math.abs(rotation - step) > 1e-9) options.push(`rotate=${formatNumber(round(rotation), precision)}`);
+  return { center: { x: round(center.x), y: round(center.y) }, options };
+};
+
+// Convert color hex to TikZ color name or RGB
+export const formatColor = (color: string, opacity?: number) => {
+  if (color === 'transparent') return 'transparent';
+  
+  const colorMap: { [key: string]: string } = {
+    '#000000': 'black',
+    '#ffffff': 'white',
+    '#3b82f6': 'blue',
+    '#ef4444': 'red',
+    '#10b981': 'green',
+    '#f59e0b': 'orange',
+    '#8b5cf6': 'violet',
+    '#ec4899': 'pink',
+    '#6b7280': 'gray',
+    '#1f2937': 'darkgray',
+  };
+  
+  let baseColor = colorMap[color.toLowerCase()];
+  
+  if (!baseColor) {
+    // Define custom color using HTML hex value (ensure consistent case)
+    const colorName = `customcolor${color.toLowerCase().slice(1).toUpperCase()}`;
+    baseColor = colorName;
+    // We'll add the color definition in the header
+  }
+  
+  // Add opacity if specified and not 1
+  if (opacity && opacity < 1) {
+    return `${baseColor}, opacity=${opacity.toFixed(2)}`;
+  }
+  
+  return baseColor;
+};
+
+// Object types generateObjectCode knows how to draw; anything else falls through
+// to the "Unsupported object type" comment
+export const SUPPORTED_OBJECT_TYPES: ReadonlyArray<DrawingObject['type']> = [
+  'point',
+  'line',
+  'rectangle',
+  'circle',
+  'text',
+  'polygon',
+  'bezier',
+  'arc',
+  'ellipse',
+  'angle',
+  'perpendicular',
+  'parallel',
+  'midpoint',
+  'distance',
+  'perp_bisector',
+  'function',
+  'parametric',
+  'polar',
+  'image',
+  'vector',
+];
+
+// Visible objects that would be exported as an "Unsupported object type" comment
+export const findUnsupportedObjects = (objects: DrawingObject[]) => {
+  return objects.filter(obj => obj.visible && !SUPPORTED_OBJECT_TYPES.includes(obj.type));
+};
+
+// Generate TikZ code for a single object
+export const generateObjectCode = (obj: DrawingObject, options: TikZOptions = defaultTikZOptions) => {
+  const { precision, unit } = options;
+  if (!obj.visible) return ''; // Skip invisible objects
+
+  const offset = getOriginOffset();
+  // Use direct Canvas coordinates with simple conversion
+  const x = pixelToTikZ(obj.position.x - offset.x, precision, unit);
+  const y = pixelToTikZ(-(obj.position.y - offset.y), precision, unit); // Flip Y axis for mathematical coordinate system
+  const strokeColor = formatColor(obj.stroke, obj.strokeOpacity);
+  const fillColor = obj.fill === 'transparent' ? '' : `, fill=${formatColor(obj.fill, obj.fillOpacity)}`;
+  const strokeWidth = obj.strokeWidth > 2 ? `, line width=${(obj.strokeWidth * 0.5).toFixed(1)}pt` : obj.strokeWidth < 1 ? ', ultra thin' : obj.strokeWidth < 2 ? ', thin' : '';
+  
+  // Handle stroke styles (dashed, dotted, etc.)
+  const getStrokeStyle = (style?: string) => {
+    switch (style) {
+      case 'dashed': return ', dashed';
+      case 'dotted': return ', dotted';
+      case 'dashdot': return ', dash dot';
+      default: return '';
+    }
+  };
+  const strokeStyle = getStrokeStyle(obj.strokeStyle);
+  
+  let code = '';
+  let comment = (obj.showName && options.nameComments) ? `  % ${obj.name}\n` : '';
+
+  // Generate name label if showName is enabled
+  const generateNameLabel = (offset: { x: number; y: number }) => {
+    if (!obj.showName || !options.nameLabels) return '';
+    
+    let nameX: string;
+    let nameY: string;
+    
+    if (obj.namePosition) {
+      // Use actual Canvas name position (already dragged by user)
+      const actualNameX = obj.position.x + obj.namePosition.x;
+      const actualNameY = obj.position.y + obj.namePosition.y;
+      nameX = pixelToTikZ(actualNameX - offset.x, precision, unit);
+      nameY = pixelToTikZ(-(actualNameY - offset.y), precision, unit); // Flip Y for mathematical coordinates
+    } else {
+      // No custom name position - use actual Canvas default positioning logic
+      // Get the same position calculation as Canvas.tsx uses
+      let canvasNameX: number;
+      let canvasNameY: number;
+      
+      switch (obj.type) {
+        case 'circle':
+          canvasNameX = obj.position.x;
+          canvasNameY = obj.position.y - (obj.radius || 30) - 20; // Above circle
+          break;
+        case 'rectangle':
+          canvasNameX = obj.position.x + (obj.width || 80) + 10; // Right side of rectangle
+          canvasNameY = obj.position.y + (obj.height || 60) / 2; // Center vertically
+          break;
+        case 'point':
+          canvasNameX = obj.position.x + 10; // Right of point
+          canvasNameY = obj.position.y - 15; // Above point
+          break;
+        case 'image':
+          // Image position is top-left corner, but we want name below the image
+          canvasNameX = obj.position.x + (obj.width || 200) / 2; // Center horizontally
+          canvasNameY = obj.position.y + (obj.height || 150) + 15; // Below image
+          break;
+        case 'text':
+          // Text is centered, so position name above it
+          const fontSize = obj.fontSize || 16;
+          canvasNameX = obj.position.x;
+          canvasNameY = obj.position.y - fontSize / 2 - 15; // Above text
+          break;
+        case 'vector': {
+          const head = obj.points?.[1] ?? obj.position;
+          canvasNameX = (obj.position.x + head.x) / 2;
+          canvasNameY = (obj.position.y + head.y) / 2 - 15; // Above the middle of the arrow
+          break;
+        }
+        default:
+          canvasNameX = obj.position.x;
+          canvasNameY = obj.position.y - 15; // Above object
+      }
+      
+      // Convert Canvas name position to TikZ coordinates
+      nameX = pixelToTikZ(canvasNameX - offset.x, precision, unit);
+      nameY = pixelToTikZ(-(canvasNameY - offset.y), precision, unit); // Flip Y for mathematical coordinates
+    }
+    
+    // Format name style
+    const nameStyle = obj.nameStyle;
+    let nameStyleOptions = '';
+    if (nameStyle?.fontSize) {
+      // Use safe font size range (8-18pt) for names to avoid LaTeX font errors
+      const scaledNameFontSize = Math.max(8, Math.min(nameStyle.fontSize * 1.0, 18));
+      
+      // Use LaTeX font size commands for better compatibility
+      let nameFontSizeCommand = '';
+      if (scaledNameFontSize <= 8) nameFontSizeCommand = '\\tiny';
+      else if (scaledNameFontSize <= 9) nameFontSizeCommand = '\\scriptsize';
+      else if (scaledNameFontSize <= 10) nameFontSizeCommand = '\\footnotesize';
+      else if (scaledNameFontSize <= 11) nameFontSizeCommand = '\\small';
+      else if (scaledNameFontSize <= 12) nameFontSizeCommand = '\\normalsize';
+      else if (scaledNameFontSize <= 14) nameFontSizeCommand = '\\large';
+      else if (scaledNameFontSize <= 17) nameFontSizeCommand = '\\Large';
+      else nameFontSizeCommand = '\\LARGE';
+      
+      nameStyleOptions += `, font=${nameFontSizeCommand}`;
+    }
+    if (nameStyle?.color && nameStyle.color !== '#666666') {
+      nameStyleOptions += `, ${formatColor(nameStyle.color)}`;
+    }
+    
+    // Build text styling for name
+    let styledName = obj.name;
+    
+    // Apply text styling
+    if (nameStyle?.fontWeight === 'bold') styledName = `\\textbf{${styledName}}`;
+    if (nameStyle?.fontStyle === 'italic') styledName = `\\textit{${styledName}}`;
+    if (nameStyle?.textDecoration === 'underline') styledName = `\\uline{${styledName}}`;
+    if (nameStyle?.textDecoration === 'overline') styledName = `\\overline{${styledName}}`;
+    if (obj.type === 'vector') styledName = `\\vec{${styledName}}`;
+    
+    return `  \\node[anchor=center${nameStyleOptions}] at (${nameX},${nameY}) {$${styledName}$};\n`;
+  };
+
+  switch (obj.type) {
+    case 'point':
+      code = `  \\fill[${strokeColor}] (${x},${y}) circle (${(obj.strokeWidth * 0.6).toFixed(1)}pt);\n`;
+      break;
+
+    case 'circle':
+      const radius = pixelToTikZ(obj.radius || 30, precision, unit);
+      
+      // Build options following TikZ conventions
+      let circleOptions = [];
+      if (strokeColor) circleOptions.push(strokeColor);
+      if (strokeWidth) circleOptions.push(strokeWidth.replace(', ', ''));
+      if (strokeStyle) circleOptions.push(strokeStyle.replace(', ', ''));
+      
+      // Handle fill/draw actions based on TikZ design principles
+      let action = '\\draw';
+      if (obj.fill !== 'transparent' && fillColor) {
+        if (obj.stroke !== 'transparent') {
+          action = '\\filldraw'; // Both fill and draw
+          circleOptions.push(fillColor.replace(', fill=', 'fill='));
+        } else {
+          action = '\\fill'; // Fill only
+          circleOptions = [fillColor.replace(', fill=', '')];
+        }
+      }
+      
+      const circleOptionsStr = circleOptions.length > 0 ? `[${circleOptions.join(', ')}]` : '';
+      code = `  ${action}${circleOptionsStr} (${x},${y}) circle (${radius});\n`;
+      break;
+
+    case 'rectangle':
+      const width = pixelToTikZ(obj.width || 80, precision, unit);
+      const height = pixelToTikZ(obj.height || 60, precision, unit);
+      
+      // IMPORTANT: Canvas position is top-left, but TikZ rectangle expects bottom-left
+      // Convert from Canvas top-left to TikZ bottom-left coordinate
+      const canvasTopLeft = { x: obj.position.x, y: obj.position.y };
+      const canvasBottomLeft = { x: canvasTopLeft.x, y: canvasTopLeft.y + (obj.height || 60) };
+      
+      // Convert Canvas bottom-left to TikZ coordinates
+      const tikzBottomLeftX = pixelToTikZ(canvasBottomLeft.x - offset.x, precision, unit);
+      const tikzBottomLeftY = pixelToTikZ(-(canvasBottomLeft.y - offset.y), precision, unit); // Flip Y for mathematical coordinates
+      
+      // Use TikZ rectangle syntax with correct bottom-left coordinate
+      code = `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}${fillColor}] (${tikzBottomLeftX},${tikzBottomLeftY}) rectangle ++(${width},${height});\n`;
+      break;
+
+    case 'line':
+      if (obj.points && obj.points.length >= 2) {
+        const points = obj.points.map(p => `(${pixelToTikZ(p.x - offset.x, precision, unit)},${pixelToTikZ(-(p.y - offset.y), precision, unit)})`).join(' -- ');
+        
+        // Build arrow specification based on TikZ arrows.meta library
+        const arrowOptions = [];
+        
+        // Add stroke properties first
+        if (strokeColor) arrowOptions.push(strokeColor);
+        if (strokeWidth) arrowOptions.push(strokeWidth.replace(', ', ''));
+        if (strokeStyle) arrowOptions.push(strokeStyle.replace(', ', ''));
+        
+        // Build arrow specification
+        let arrowSpec = '';
+        if (obj.arrowStart && obj.arrowStart !== 'none') {
+          const arrowMap = { 'arrow': '<', 'stealth': 'Stealth', 'latex': 'Latex' };
+          arrowSpec = `{${arrowMap[obj.arrowStart] || 'Stealth'}}`;
+        }
+        arrowSpec += '-';
+        if (obj.arrowEnd && obj.arrowEnd !== 'none') {
+          const arrowMap = { 'arrow': '>', 'stealth': 'Stealth', 'latex': 'Latex' };
+          arrowSpec += `{${arrowMap[obj.arrowEnd] || 'Stealth'}}`;
+        }
+        
+        if (arrowSpec !== '-') {
+          arrowOptions.unshift(arrowSpec);
+        }
+        
+        const lineOptionsStr = arrowOptions.length > 0 ? `[${arrowOptions.join(', ')}]` : '';
+        code = `  \\draw${lineOptionsStr} ${points};\n`;
+      }
+      break;
+
+    case 'text':
+      const text = obj.text || 'Text';
+      const fontSize = obj.fontSize || 16;
+      
+      // Build node options
+      const nodeOptions = [];
+      
+      // Add color
+      if (strokeColor) nodeOptions.push(strokeColor);
+      
+      // Use exact font size with \fontsize for precise matching
+      if (fontSize) {
+        // Use 1:1 mapping for better visual consistency (Canvas pixels ≈ LaTeX points)
+        const fontSizePt = fontSize.toFixed(1);
+        const lineHeightPt = (fontSize * 1.2).toFixed(1);
+        nodeOptions.push(`font=\\fontsize{${fontSizePt}pt}{${lineHeightPt}pt}\\selectfont`);
+      }
+      
+      // Build text content with styling
+      let styledText = text;
+      if (obj.fontWeight === 'bold') styledText = `\\textbf{${styledText}}`;
+      if (obj.fontStyle === 'italic') styledText = `\\textit{${styledText}}`;
+      if (obj.textDecoration === 'underline') styledText = `\\uline{${styledText}}`;
+      // Nếu là math mode thì bọc $...$
+      if (obj.isMath) styledText = `$${text}$`;
+      
+      // Remove anchor to use LaTeX default positioning
+      // nodeOptions.push('anchor=mid');
+      
+      const nodeOptionsStr = nodeOptions.length > 0 ? `[${nodeOptions.join(', ')}]` : '';
+      code = `  \\node${nodeOptionsStr} at (${x},${y}) {${styledText}};\n`;
+      break;
+
+    case 'polygon': {
+      const shape = getRegularPolygonShape(obj, precision, unit);
+      if (shape) {
+        const center = `(${pixelToTikZ(shape.center.x - offset.x, precision, unit)},${pixelToTikZ(-(shape.center.y - offset.y), precision, unit)})`;
+        code = `  \\node[draw, ${strokeColor}${strokeWidth}${strokeStyle}${fillColor}, ${shape.options.join(', ')}] at ${center} {};\n`;
+      } else if (obj.points && obj.points.length >= 3) {
+        const points = obj.points.map(p => `(${pixelToTikZ(p.x - offset.x, precision, unit)},${pixelToTikZ(-(p.y - offset.y), precision, unit)})`).join(' -- ');
+        code = `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}${fillColor}] ${points} -- cycle;\n`;
+      }
+      break;
+    }
+
+    case 'ellipse': {
+      const radiusX = pixelToTikZ(obj.radiusX || 40, precision, unit);
+      const radiusY = pixelToTikZ(obj.radiusY || 25, precision, unit);
+      const ellipseOptions = [`${strokeColor}${strokeWidth}${strokeStyle}${fillColor}`];
+      if (obj.rotation) {
+        // Canvas rotation is clockwise with Y down; TikZ angles are counter-clockwise
+        ellipseOptions.push(`rotate around={${formatNumber(-obj.rotation, precision)}:(${x},${y})}`);
+      }
+      code = `  \\draw[${ellipseOptions.join(', ')}] (${x},${y}) ellipse (${radiusX} and ${radiusY});\n`;
+      break;
+    }
+
+    case 'arc':
+      if (obj.radius && obj.startAngle !== undefined && obj.endAngle !== undefined) {
+        const arcRadius = pixelToTikZ(obj.radius, precision, unit);
+        const startAngle = formatNumber(obj.startAngle, precision);
+        // Counter-clockwise, as on the canvas, whatever order the angles were typed in
+        const endAngle = formatNumber(normalizeArcEnd(obj.startAngle, obj.endAngle), precision);
+        const startRadians = (obj.startAngle * Math.PI) / 180;
+        const start = `(${pixelToTikZ(obj.position.x + obj.radius * Math.cos(startRadians) - offset.x, precision, unit)},${pixelToTikZ(-(obj.position.y - obj.radius * Math.sin(startRadians) - offset.y), precision, unit)})`;
+        const arc = `arc (${startAngle}:${endAngle}:${arcRadius})`;
+        const kind = obj.arcKind || 'arc';
+        // Only closed shapes take a fill
+        const arcFill = kind === 'arc' ? '' : fillColor;
+        const arcOptions = `[${strokeColor}${strokeWidth}${strokeStyle}${arcFill}]`;
+        if (kind === 'sector') {
+          code = `  \\draw${arcOptions} (${x},${y}) -- ${start} ${arc} -- cycle;\n`;
+        } else if (kind === 'segment') {
+          code = `  \\draw${arcOptions} ${start} ${arc} -- cycle;\n`;
+        } else {
+          code = `  \\draw${arcOptions} ${start} ${arc};\n`;
+        }
+      }
+      break;
+
+    case 'bezier':
+      if (obj.points && obj.points.length >= 2) {
+        const toCoordinate = (p: Point) => `(${pixelToTikZ(p.x - offset.x, precision, unit)},${pixelToTikZ(-(p.y - offset.y), precision, unit)})`;
+        const controls = obj.controlPoints || [];
+        // Each segment is a cubic curve to the next anchor through its two control points
+        const path = obj.points.slice(1).map((anchor, i) => {
+          const first = controls[2 * i] ?? obj.points![i];
+          const second = controls[2 * i + 1] ?? anchor;
+          return ` .. controls ${toCoordinate(first)} and ${toCoordinate(second)} .. ${toCoordinate(anchor)}`;
+        }).join('');
+        code = `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}] ${toCoordinate(obj.points[0])}${path};\n`;
+      }
+      break;
+
+    case 'angle':
+      if (obj.points && obj.points.length >= 3) {
+        // Drawn as pics from the angles and quotes libraries on named coordinates
+        const [pointA, vertex, pointC] = obj.points;
+        const name = `ang${obj.id}`;
+        const toCoordinate = (p: Point) => `(${pixelToTikZ(p.x - offset.x, precision, unit)},${pixelToTikZ(-(p.y - offset.y), precision, unit)})`;
+        code = `  \\coordinate (${name}A) at ${toCoordinate(pointA)};\n`;
+        code += `  \\coordinate (${name}V) at ${toCoordinate(vertex)};\n`;
+        code += `  \\coordinate (${name}C) at ${toCoordinate(pointC)};\n`;
+        // The angle pic runs counter-clockwise from the first arm; on the canvas (Y down)
+        // that is clockwise, so pick the order that spans the inner angle
+        const cross = (pointA.x - vertex.x) * (pointC.y - vertex.y) - (pointA.y - vertex.y) * (pointC.x - vertex.x);
+        const arms = cross < 0 ? `${name}A--${name}V--${name}C` : `${name}C--${name}V--${name}A`;
+        const angleValue = obj.angleValue || 0;
+        const radius = obj.angleRadius || 20;
+        const arcs = isRightAngle(angleValue) ? 1 : Math.max(1, Math.min(3, obj.angleArcs || 1));
+        const label = obj.angleLabel === 'none' ? ''
+          : obj.angleLabel === 'symbol' ? (obj.angleSymbol || '')
+          : `${formatNumber(angleValue, 1)}^\\circ`;
+        for (let i = 0; i < arcs; i++) {
+          const arcRadius = radius + i * ANGLE_ARC_SPACING;
+          const pic = isRightAngle(angleValue) ? 'right angle' : 'angle';
+          const size = isRightAngle(angleValue) ? arcRadius * RIGHT_ANGLE_SIZE : arcRadius;
+          const picOptions = [`draw`, `${strokeColor}${strokeWidth}${strokeStyle}`, `angle radius=${pixelToTikZ(size, precision, unit)}${unit}`];
+          if (i === 0 && label) {
+            // Just outside the outermost arc
+            const eccentricity = (radius + (arcs - 1) * ANGLE_ARC_SPACING + 12) / size;
+            picOptions.push(`"{$${label}$}"`, `angle eccentricity=${formatNumber(eccentricity, 2)}`);
+          }
+          code += `  \\pic[${picOptions.join(', ')}] {${pic} = ${arms}};\n`;
+        }
+      }
+      break;
+
+    case 'perpendicular':
+    case 'parallel':
+      if (obj.points && obj.points.length >= 2) {
+        const [start, end] = obj.points;
+        const commentText = obj.type === 'perpendicular' ? 'Perpendicular line' : 'Parallel line';
+        comment = `  % ${commentText}\n`;
+        code = `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}] (${pixelToTikZ(start.x - offset.x, precision, unit)},${pixelToTikZ(-(start.y - offset.y), precision, unit)}) -- (${pixelToTikZ(end.x - offset.x, precision, unit)},${pixelToTikZ(-(end.y - offset.y), precision, unit)});\n`;
+      }
+      break;
+
+    case 'distance':
+      if (obj.points && obj.points.length >= 2) {
+        const [start, end] = obj.points;
+        const length = toUnit(Math.hypot(end.x - start.x, end.y - start.y), unit);
+        // Dimension line with end bars and the length written along it
+        code = `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}, |<->|] (${pixelToTikZ(start.x - offset.x, precision, unit)},${pixelToTikZ(-(start.y - offset.y), precision, unit)}) -- node[midway, above, sloped] {${length.toFixed(precision)}\\,${unit}} (${pixelToTikZ(end.x - offset.x, precision, unit)},${pixelToTikZ(-(end.y - offset.y), precision, unit)});\n`;
+      }
+      break;
+
+    case 'perp_bisector':
+      if (obj.points && obj.points.length >= 2 && obj.pointAId && obj.pointBId) {
+        // Built from the segment with calc, so the LaTeX source shows the construction
+        const [start, end] = obj.points;
+        // The segment endpoints, recovered from the bisector (it is as long as the segment)
+        const b = { x: obj.position.x + (end.y - obj.position.y), y: obj.position.y - (end.x - obj.position.x) };
+        const a = { x: 2 * obj.position.x - b.x, y: 2 * obj.position.y - b.y };
+        const halfLength = pixelToTikZ(Math.hypot(end.x - start.x, end.y - start.y) / 2, precision, unit);
+        const name = `pb${obj.id}`;
+        code = `  \\coordinate (${name}A) at (${pixelToTikZ(a.x - offset.x, precision, unit)},${pixelToTikZ(-(a.y - offset.y), precision, unit)});\n`;
+        code += `  \\coordinate (${name}B) at (${pixelToTikZ(b.x - offset.x, precision, unit)},${pixelToTikZ(-(b.y - offset.y), precision, unit)});\n`;
+        code += `  \\coordinate (${name}M) at ($(${name}A)!0.5!(${name}B)$);\n`;
+        code += `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}] ($(${name}M)!${halfLength}${unit}!90:(${name}B)$) -- ($(${name}M)!${halfLength}${unit}!-90:(${name}B)$);\n`;
+        if (obj.showRightAngle) {
+          const size = pixelToTikZ(8, precision, unit);
+          code += `  \\draw[${strokeColor}] ($(${name}M)!${size}${unit}!(${name}B)$) -- ($(${name}M)!${size}${unit}!(${name}B)!${size}${unit}!-90:(${name}M)$) -- ($(${name}M)!${size}${unit}!90:(${name}B)$);\n`;
+        }
+        if (obj.showEqualTicks) {
+          const tick = pixelToTikZ(5, precision, unit);
+          [0.25, 0.75].forEach(t => {
+            code += `  \\draw[${strokeColor}] ($(${name}A)!${t}!(${name}B)!${tick}${unit}!90:(${name}B)$) -- ($(${name}A)!${t}!(${name}B)!${tick}${unit}!-90:(${name}B)$);\n`;
+          });
+        }
+      } else if (obj.points && obj.points.length >= 2) {
+        // Orphaned bisectors and transformed copies have no segment to construct from
+        const [start, end] = obj.points;
+        code = `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}] (${pixelToTikZ(start.x - offset.x, precision, unit)},${pixelToTikZ(-(start.y - offset.y), precision, unit)}) -- (${pixelToTikZ(end.x - offset.x, precision, unit)},${pixelToTikZ(-(end.y - offset.y), precision, unit)});\n`;
+      }
+      break;
+
+    case 'function':
+    case 'parametric':
+    case 'polar': {
+      const curve = { ...obj, type: obj.type };
+      const variable = obj.type === 'function' ? '\\x' : '\\t';
+      let coordinates: string;
+      try {
+        const toBody = (source?: string) => toPgfMath(parseExpression(source ?? '', CURVE_VARIABLES[curve.type]), variable);
+        if (curve.type === 'parametric') {
+          coordinates = `({${toBody(obj.xExpression)}}, {${toBody(obj.yExpression)}})`;
+        } else if (curve.type === 'polar') {
+          const r = toBody(obj.expression);
+          coordinates = `({(${r})*cos(\\t r)}, {(${r})*sin(\\t r)})`;
+        } else {
+          coordinates = `(\\x, {${toBody(obj.expression)}})`;
+        }
+      } catch {
+        code = `  % Invalid ${curve.type} expression: ${Object.values(getCurveExpressions(curve)).join(', ')}\n`;
+        break;
+      }
+      const { domainMin, domainMax, samples } = getCurveRange(curve);
+      const definition = curve.type === 'parametric'
+        ? `x(t) = ${stripExpressionPrefix(obj.xExpression ?? '')}, y(t) = ${stripExpressionPrefix(obj.yExpression ?? '')}`
+        : `${curve.type === 'polar' ? 'r' : 'y'} = ${stripExpressionPrefix(obj.expression ?? '')}`;
+      comment = options.nameComments ? `  % ${obj.name}: ${definition}\n` : '';
+      const variableOption = curve.type === 'function' ? '' : ', variable=\\t';
+      // Curves are defined in centimetres
+      const curveUnit = unit === 'cm' ? '' : ', x=1cm, y=1cm';
+      const curveTransform = obj.curveMatrix ? `, ${formatMatrix(obj.curveMatrix, precision)}` : '';
+      // One plot per continuous piece, so asymptotes are not bridged
+      code = getCurveSegments(curve).map(segment => {
+        const count = Math.max(2, Math.round((samples * (segment.to - segment.from)) / (domainMax - domainMin)));
+        return `  \\draw[${strokeColor}${strokeWidth}${strokeStyle}${curveUnit}${curveTransform}] plot[domain=${formatDomainBound(segment.from)}:${formatDomainBound(segment.to)}, samples=${count}${variableOption}] ${coordinates};\n`;
+      }).join('');
+      break;
+    }
+
+    case 'vector':
+      if (obj.points && obj.points.length >= 2) {
+        const toCoordinate = (p: Point) => `(${pixelToTikZ(p.x - offset.x, precision, unit)},${pixelToTikZ(-(p.y - offset.y), precision, unit)})`;
+        const [tail, head] = obj.points;
+        code = `  \\draw[-{Stealth}, ${strokeColor}${strokeWidth}${strokeStyle}] ${toCoordinate(tail)} -- ${toCoordinate(head)};\n`;
+        if (obj.showComponents) {
+          // x component from the tail, then the y component on to the head; a zero one is left out
+          const corner = { x: head.x, y: tail.y };
+          if (corner.x !== tail.x) code += `  \\draw[-{Stealth}, ${strokeColor}, dashed] ${toCoordinate(tail)} -- ${toCoordinate(corner)};\n`;
+          if (corner.y !== head.y) code += `  \\draw[-{Stealth}, ${strokeColor}, dashed] ${toCoordinate(corner)} -- ${toCoordinate(head)};\n`;
+        }
+        const guides = obj.vectorGuides || [];
+        for (let i = 0; i + 1 < guides.length; i += 2) {
+          code += `  \\draw[-{Stealth}, gray, dashed] ${toCoordinate(guides[i])} -- ${toCoordinate(guides[i + 1])};\n`;
+        }
+      }
+      break;
+
+    case 'midpoint':
+      code = `  \\fill[${strokeColor}] (${x},${y}) circle (${((obj.strokeWidth || 2) * 0.6).toFixed(1)}pt);\n`;
+      break;
+
+    case 'image':
+      if (obj.width && obj.height) {
+        const width = pixelToTikZ(obj.width, precision, unit);
+        const height = pixelToTikZ(obj.height, precision, unit);
+        
+        // Canvas now stores position as top-left corner but renders with center rotation
+        // We need to calculate the actual center position that Canvas displays
+        const canvasCenterX = obj.position.x + obj.width / 2;  // Canvas center X
+        const canvasCenterY = obj.position.y + obj.height / 2; // Canvas center Y
+        
+        // Convert to TikZ coordinates: just unit conversion and Y-flip
+        const centerX = pixelToTikZ(canvasCenterX - offset.x, precision, unit);
+        const centerY = pixelToTikZ(-(canvasCenterY - offset.y), precision, unit); // Flip Y-axis for mathematical coordinates
+        
+        // Use the actual filename from upload
+        const filename = obj.imageUrl || `${obj.name}.png`;
+        
+        // Build image options
+        const imageOptions = [];
+        if (obj.rotation && obj.rotation !== 0) {
+          // Canvas: Y-axis down, clockwise rotation = positive
+          // TikZ: Y-axis up, counter-clockwise rotation = positive
+          // Need to negate rotation to match coordinate systems
+          const tikzRotation = -obj.rotation;
+          imageOptions.push(`rotate=${tikzRotation}`);
+        }
+        if (obj.scaleX && obj.scaleX !== 1) {
+          imageOptions.push(`xscale=${obj.scaleX.toFixed(2)}`);
+        }
+        if (obj.scaleY && obj.scaleY !== 1) {
+          imageOptions.push(`yscale=${obj.scaleY.toFixed(2)}`);
+        }
+        if (obj.flipX) {
+          imageOptions.push('xscale=-1');
+        }
+        if (obj.flipY) {
+          imageOptions.push('yscale=-1');
+        }
+        
+        const optionsStr = imageOptions.length > 0 ? `[${imageOptions.join(', ')}]` : '';
+        
+        // Generate LaTeX code for image inclusion
+        code = `  \\node${optionsStr} at (${centerX},${centerY}) {\\includegraphics[width=${width}${unit},height=${height}${unit}]{${filename}}};\n`;
+      }
+      break;
+
+    default:
+      code = `  % Unsupported object type: ${obj.type}\n`;
+  }
+
+  // Add name label if enabled
+  const nameLabel = generateNameLabel(offset);
+
+  return comment + code + nameLabel;
+};
+
+// Calculate dynamic bounds for coordinate system
+export const calculateBounds = (objects: DrawingObject[], precision = DEFAULT_PRECISION) => {
+  if (objects.length === 0) {
+    return { minX: -3, maxX: 3, minY: -3, maxY: 3 }; // Default symmetric bounds
+  }
+
+  const offset = getOriginOffset();
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  let hasVisibleObjects = false;
+  const naturalBoundaries: number[] = []; // Collect "natural" coordinate values
+
+  objects.forEach(obj => {
+    if (!obj.visible) return;
+    hasVisibleObjects = true;
+
+    // Use direct Canvas coordinates for bounds calculation
+    const objX = obj.position.x;
+    const objY = obj.position.y;
+
+    // Also consider name labels in bounds calculation
+    const nameExtents = { minX: objX, maxX: objX, minY: objY, maxY: objY };
+    if (obj.showName) {
+      let nameX: number, nameY: number;
+      
+      if (obj.namePosition) {
+        nameX = objX + obj.namePosition.x;
+        nameY = objY + obj.namePosition.y;
+      } else {
+        // Calculate default name position (same logic as in generateNameLabel)
+        switch (obj.type) {
+          case 'circle':
+            nameX = objX;
+            nameY = objY - (obj.radius || 30) - 20;
+            break;
+          case 'rectangle':
+            nameX = objX + (obj.width || 80) + 10;
+            nameY = objY + (obj.height || 60) / 2;
+            break;
+          case 'point':
+            nameX = objX + 10;
+            nameY = objY - 15;
+            break;
+          case 'image':
+            nameX = objX + (obj.width || 200) / 2;
+            nameY = objY + (obj.height || 150) + 15;
+            break;
+          case 'text':
+            const fontSize = obj.fontSize || 16;
+            nameX = objX;
+            nameY = objY - fontSize / 2 - 15;
+            break;
+          case 'vector': {
+            const head = obj.points?.[1] ?? obj.position;
+            nameX = (objX + head.x) / 2;
+            nameY = (objY + head.y) / 2 - 15;
+            break;
+          }
+          default:
+            nameX = objX;
+            nameY = objY - 15;
+        }
+      }
+      
+      // Better name text size estimation
+      const nameLength = obj.name?.length || 4;
+      const fontSize = obj.nameStyle?.fontSize || 12;
+      const nameWidth = nameLength * fontSize * 0.7; // More accurate multiplier
+      const nameHeight = fontSize * 1.2; // Account for line height
+      
+      // Name bounds with proper padding
+      nameExtents.minX = Math.min(nameExtents.minX, nameX - nameWidth/2);
+      nameExtents.maxX = Math.max(nameExtents.maxX, nameX + nameWidth/2);
+      nameExtents.minY = Math.min(nameExtents.minY, nameY - nameHeight/2); // Center vertically
+      nameExtents.maxY = Math.max(nameExtents.maxY, nameY + nameHeight/2);
+    }
+
+    // Calculate precise object bounds based on type using direct Canvas coordinates
+    switch (obj.type) {
+      case 'circle':
+      case 'arc':
+        const radius = obj.radius || 30;
+        minX = Math.min(minX, objX - radius, nameExtents.minX);
+        maxX = Math.max(maxX, objX + radius, nameExtents.maxX);
+        minY = Math.min(minY, objY - radius, nameExtents.minY);
+        maxY = Math.max(maxY, objY + radius, nameExtents.maxY);
+        break;
+      
+      case 'ellipse': {
+        const extents = ellipseExtents(obj.radiusX || 40, obj.radiusY || 25, obj.rotation || 0);
+        minX = Math.min(minX, objX - extents.x, nameExtents.minX);
+        maxX = Math.max(maxX, objX + extents.x, nameExtents.maxX);
+        minY = Math.min(minY, objY - extents.y, nameExtents.minY);
+        maxY = Math.max(maxY, objY + extents.y, nameExtents.maxY);
+        break;
+      }
+      
+      case 'rectangle':
+        const width = obj.width || 80;
+        const height = obj.height || 60;
+        // Rectangle position is top-left corner in Canvas coordinates
+        minX = Math.min(minX, objX, nameExtents.minX);
+        maxX = Math.max(maxX, objX + width, nameExtents.maxX);
+        minY = Math.min(minY, objY, nameExtents.minY);
+        maxY = Math.max(maxY, objY + height, nameExtents.maxY);
+        break;
+      
+      case 'point':
+      case 'midpoint':
+        // Points have small radius based on strokeWidth
+        const pointRadius = (obj.strokeWidth || 2) * 0.6;
+        minX = Math.min(minX, objX - pointRadius, nameExtents.minX);
+        maxX = Math.max(maxX, objX + pointRadius, nameExtents.maxX);
+        minY = Math.min(minY, objY - pointRadius, nameExtents.minY);
+        maxY = Math.max(maxY, objY + pointRadius, nameExtents.maxY);
+        break;
+
+      case 'line':
+      case 'polygon':
+      case 'bezier':
+      case 'angle':
+      case 'perpendicular':
+      case 'parallel':
+      case 'perp_bisector':
+      case 'function':
+      case 'parametric':
+      case 'polar':
+      case 'distance':
+      case 'vector':
+        if (obj.points && obj.points.length > 0) {
+          // A Bézier curve stays inside the hull of its anchors and control points, and
+          // a vector sum inside the copies of the vectors it is built from
+          [...obj.points, ...(obj.controlPoints || []), ...(obj.vectorGuides || [])].forEach(point => {
+            minX = Math.min(minX, point.x);
+            maxX = Math.max(maxX, point.x);
+            minY = Math.min(minY, point.y);
+            maxY = Math.max(maxY, point.y);
+          });
+        } else {
+          // Fallback to object position if no points
+          minX = Math.min(minX, objX);
+          maxX = Math.max(maxX, objX);
+          minY = Math.min(minY, objY);
+          maxY = Math.max(maxY, objY);
+        }
+        // Include name bounds
+        minX = Math.min(minX, nameExtents.minX);
+        maxX = Math.max(maxX, nameExtents.maxX);
+        minY = Math.min(minY, nameExtents.minY);
+        maxY = Math.max(maxY, nameExtents.maxY);
+        break;
+      
+      case 'text':
+        // Approximate text bounds based on font size - center like LaTeX node
+        const fontSize = obj.fontSize || 16;
+        const textWidth = (obj.text?.length || 4) * fontSize * 0.6;
+        const textHeight = fontSize;
+        
+        // Text is centered at position
+        const textCenterX = objX;
+        const textCenterY = objY;
+        
+        minX = Math.min(minX, textCenterX - textWidth/2, nameExtents.minX);
+        maxX = Math.max(maxX, textCenterX + textWidth/2, nameExtents.maxX);
+        minY = Math.min(minY, textCenterY - textHeight/2, nameExtents.minY);
+        maxY = Math.max(maxY, textCenterY + textHeight/2, nameExtents.maxY);
+        break;
+      
+      case 'image':
+        const imageWidth = obj.width || 200;
+        const imageHeight = obj.height || 150;
+        
+        // Use same logic as generateObjectCode: position is top-left corner
+        const scaleX = Math.abs((obj.scaleX || 1) * (obj.flipX ? -1 : 1));
+        const scaleY = Math.abs((obj.scaleY || 1) * (obj.flipY ? -1 : 1));
+        
+        // For bounds calculation, use the envelope of rotated rectangle
+        // Use negated rotation to match TikZ coordinate system
+        const rotation = -(obj.rotation || 0) * Math.PI / 180; // Same negation as generateObjectCode
+        const cos = Math.abs(Math.cos(rotation));
+        const sin = Math.abs(Math.sin(rotation));
+        
+        // Scaled dimensions
+        const scaledWidth = imageWidth * scaleX;
+        const scaledHeight = imageHeight * scaleY;
+        
+        // Envelope of rotated rectangle (conservative bounds)
+        const envelopeWidth = scaledWidth * cos + scaledHeight * sin;
+        const envelopeHeight = scaledWidth * sin + scaledHeight * cos;
+        
+        // Calculate center point in Canvas coordinates (same as generateObjectCode)
+        const canvasCenterX = objX + imageWidth / 2;
+        const canvasCenterY = objY + imageHeight / 2;
+        
+        // Bounds around center in Canvas coordinates  
+        const imageMinX = canvasCenterX - envelopeWidth / 2;
+        const imageMaxX = canvasCenterX + envelopeWidth / 2;
+        const imageMinY = canvasCenterY - envelopeHeight / 2;
+        const imageMaxY = canvasCenterY + envelopeHeight / 2;
+        
+        minX = Math.min(minX, imageMinX, nameExtents.minX);
+        maxX = Math.max(maxX, imageMaxX, nameExtents.maxX);
+        minY = Math.min(minY, imageMinY, nameExtents.minY);
+        maxY = Math.max(maxY, imageMaxY, nameExtents.maxY);
+        break;
+      
+      default:
+        // Default case for other object types
+        minX = Math.min(minX, objX, nameExtents.minX);
+        maxX = Math.max(maxX, objX, nameExtents.maxX);
+        minY = Math.min(minY, objY, nameExtents.minY);
+        maxY = Math.max(maxY, objY, nameExtents.maxY);
+    }
+
+    // Collect natural boundary values for coordinate detection (using Canvas coordinates first)
+    if (Number.isInteger(objX) || (objX * 2) % 1 === 0) {
+      const tikzX = parseFloat(pixelToTikZ(objX - offset.x, precision));
+      naturalBoundaries.push(tikzX);
+    }
+    if (Number.isInteger(objY) || (objY * 2) % 1 === 0) {
+      const tikzY = parseFloat(pixelToTikZ(-(objY - offset.y), precision));
+      naturalBoundaries.push(tikzY);
+    }
+  });
+
+  // If no visible objects, return default bounds
+  if (!hasVisibleObjects) {
+    return { minX: -3, maxX: 3, minY: -3, maxY: 3 };
+  }
+
+  // Convert final bounds from Canvas coordinates to TikZ coordinates
+  if (hasVisibleObjects) {
+    // Use the same offset calculation as generateObjectCode for consistency
+    const offset = getOriginOffset();
+    
+    // Convert X coordinates directly
+    const tikzMinX = parseFloat(pixelToTikZ(minX - offset.x, precision));
+    const tikzMaxX = parseFloat(pixelToTikZ(maxX - offset.x, precision));
+    
+    // Convert Y coordinates with proper flipping: Canvas Y down+ to TikZ Y up+
+    const tikzMinY = parseFloat(pixelToTikZ(-(maxY - offset.y), precision)); // Canvas maxY becomes TikZ minY
+    const tikzMaxY = parseFloat(pixelToTikZ(-(minY - offset.y), precision)); // Canvas minY becomes TikZ maxY
+    
+    minX = tikzMinX;
+    maxX = tikzMaxX;
+    minY = tikzMinY;
+    maxY = tikzMaxY;
+  }
+
+  const rangeX = maxX - minX;
+  const rangeY = maxY - minY;
+
+  // Check for natural coordinate values (integers or half-integers)
+  const hasNaturalCoords = naturalBoundaries.length > 0 && 
+    naturalBoundaries.every(coord => Number.isInteger(coord) || (coord * 2) % 1 === 0);
+  
+  // Simplified adaptive padding - just add reasonable margins
+  const basePadding = 1.0; // Standard padding
+  const paddingX = Math.max(basePadding, rangeX * 0.1); // 10% of range, minimum 1 unit
+  const paddingY = Math.max(basePadding, rangeY * 0.1);
+
+  // Apply padding
+  minX -= paddingX;
+  maxX += paddingX;
+  minY -= paddingY;
+  maxY += paddingY;
+
+  // Smart rounding for clean grid bounds
+  const roundToNice = (value: number, isMin: boolean) => {
+    const absValue = Math.abs(value);
+    let step;
+    
+    if (absValue < 1) step = 0.5;
+    else if (absValue < 5) step = 1;
+    else if (absValue < 20) step = 2;
+    else if (absValue < 100) step = 5;
+    else step = 10;
+    
+    if (isMin) {
+      return Math.floor(value / step) * step;
+    } else {
+      return Math.ceil(value / step) * step;
+    }
+  };
+  
+  const finalMinX = roundToNice(minX, true);
+  const finalMaxX = roundToNice(maxX, false);
+  const finalMinY = roundToNice(minY, true);
+  const finalMaxY = roundToNice(maxY, false);
+
+  // Ensure minimum reasonable size
+  const finalRangeX = finalMaxX - finalMinX;
+  const finalRangeY = finalMaxY - finalMinY;
+  const minRange = 4; // Minimum 4 units range
+  
+  if (finalRangeX < minRange) {
+    const midX = (finalMinX + finalMaxX) / 2;
+    return { 
+      minX: midX - minRange/2, 
+      maxX: midX + minRange/2, 
+      minY: finalMinY, 
+      maxY: finalMaxY 
+    };
+  }
+  
+  if (finalRangeY < minRange) {
+    const midY = (finalMinY + finalMaxY) / 2;
+    return { 
+      minX: finalMinX, 
+      maxX: finalMaxX, 
+      minY: midY - minRange/2, 
+      maxY: midY + minRange/2 
+    };
+  }
+
+  return { 
+    minX: finalMinX, 
+    maxX: finalMaxX, 
+    minY: finalMinY, 
+    maxY: finalMaxY 
+  };
+};
+
+// Generate custom color definitions
+export const generateColorDefinitions = (objects: DrawingObject[]) => {
+  const customColors = new Set<string>();
+  const commonColors = ['#000000', '#ffffff', '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#6b7280', '#1f2937'];
+  
+  // Helper function to check if color is valid hex
+  const isValidHexColor = (color: string) => {
+    return /^#[0-9A-F]{6}$/i.test(color);
+  };
+  
+  objects.forEach(obj => {
+    if (obj.visible) {
+      // Check stroke color
+      if (obj.stroke && 
+          obj.stroke !== 'transparent' && 
+          isValidHexColor(obj.stroke) && 
+          !commonColors.includes(obj.stroke.toLowerCase())) {
+        customColors.add(obj.stroke.toLowerCase());
+      }
+      
+      // Check fill color
+      if (obj.fill && 
+          obj.fill !== 'transparent' && 
+          isValidHexColor(obj.fill) && 
+          !commonColors.includes(obj.fill.toLowerCase())) {
+        customColors.add(obj.fill.toLowerCase());
+      }
+      
+      // Check name style color
+      if (obj.nameStyle?.color && 
+          isValidHexColor(obj.nameStyle.color) && 
+          !commonColors.includes(obj.nameStyle.color.toLowerCase())) {
+        customColors.add(obj.nameStyle.color.toLowerCase());
+      }
+    }
+  });
+  
+  return Array.from(customColors).map(color => {
+    const colorName = `customcolor${color.slice(1).toUpperCase()}`;
+    return `% Custom color: ${color}\n\\definecolor{${colorName}}{HTML}{${color.slice(1).toUpperCase()}}`;
+  }).join('\n');
+};
+
+// Build the smart coordinate system (grid, axes and ticks) sized to fit the objects
+export const generateCoordinateSystem = (
+  objects: DrawingObject[],
+  precision = DEFAULT_PRECISION,
+  gridType: GridType = 'cartesian',
+  unit: LengthUnit = 'cm'
+) => {
+  let coordinateSystem = '';
+  // Bounds are worked out in centimetres, then scaled to the picture's unit
+  const scale = toUnit(PIXELS_PER_CM, unit);
+  const cmBounds = calculateBounds(objects, precision);
+  const bounds = {
+    minX: cmBounds.minX * scale,
+    maxX: cmBounds.maxX * scale,
+    minY: cmBounds.minY * scale,
+    maxY: cmBounds.maxY * scale,
+  };
+  
+  // Smart grid step calculation
+  const rangeX = bounds.maxX - bounds.minX;
+  const rangeY = bounds.maxY - bounds.minY;
+  
+  // Determine appropriate grid step - aim for 8-15 grid lines
+  const getGridStep = (range: number) => {
+    const targetLines = 10; // Target number of grid lines
+    const roughStep = range / targetLines;
+    
+    // Round to nice numbers
+    if (roughStep <= 0.25) return 0.25;
+    if (roughStep <= 0.5) return 0.5;
+    if (roughStep <= 1) return 1;
+    if (roughStep <= 2) return 2;
+    if (roughStep <= 5) return 5;
+    if (roughStep <= 10) return 10;
+    if (roughStep <= 20) return 20;
+    if (roughStep <= 50) return 50;
+    return Math.ceil(roughStep / 10) * 10; // Round up to nearest 10
+  };
+  
+  const stepX = getGridStep(rangeX);
+  const stepY = getGridStep(rangeY);
+  
+  // Calculate grid bounds aligned to step
+  const gridMinX = Math.floor(bounds.minX / stepX) * stepX;
+  const gridMaxX = Math.ceil(bounds.maxX / stepX) * stepX;
+  const gridMinY = Math.floor(bounds.minY / stepY) * stepY;
+  const gridMaxY = Math.ceil(bounds.maxY / stepY) * stepY;
+  
+  // Smart logic for showing coordinate system
+  const originInBounds = bounds.minX <= 0 && bounds.maxX >= 0 && bounds.minY <= 0 && bounds.maxY >= 0;
+  const originNearBounds = Math.abs(bounds.minX) <= 2 * scale || Math.abs(bounds.maxX) <= 2 * scale || 
+                           Math.abs(bounds.minY) <= 2 * scale || Math.abs(bounds.maxY) <= 2 * scale;
+  const showAxes = originInBounds || originNearBounds;
+  
+  coordinateSystem = `
+  
+  % Smart coordinate system`;
+
+  // Format coordinate values consistently
+  const formatCoord = (value: number) => formatNumber(value, precision);
+
+  if (gridType === 'cartesian') {
+    // Add minor grid for fine details: half centimetres, or half a step in other units
+    const minorStep = unit === 'cm' ? 0.5 : Math.min(stepX, stepY) / 2;
+    if (stepX >= 2 * minorStep && stepY >= 2 * minorStep) {
+      coordinateSystem += `
+  \\draw[gray!15, very thin] (${formatCoord(gridMinX)},${formatCoord(gridMinY)}) grid[step=${formatCoord(minorStep)}] (${formatCoord(gridMaxX)},${formatCoord(gridMaxY)});`;
+    }
+
+    // Main grid with adaptive step
+    coordinateSystem += `
+  \\draw[gray!25, thin] (${formatCoord(gridMinX)},${formatCoord(gridMinY)}) grid[${stepX === stepY ? `step=${formatCoord(stepX)}` : `xstep=${formatCoord(stepX)}, ystep=${formatCoord(stepY)}`}] (${formatCoord(gridMaxX)},${formatCoord(gridMaxY)});`;
+  } else {
+    // Polar and isometric grids need one step, and are clipped to the grid bounds
+    const step = Math.max(stepX, stepY);
+    coordinateSystem += `
+  \\begin{scope}
+    \\clip (${formatCoord(gridMinX)},${formatCoord(gridMinY)}) rectangle (${formatCoord(gridMaxX)},${formatCoord(gridMaxY)});`;
+
+    if (gridType === 'polar') {
+      // Rings that reach into the bounds, and spokes from the origin
+      const corners = [[gridMinX, gridMinY], [gridMaxX, gridMinY], [gridMinX, gridMaxY], [gridMaxX, gridMaxY]];
+      const reach = Math.ceil(Math.max(...corners.map(([x, y]) => Math.hypot(x, y))) / step) * step;
+      const nearest = Math.hypot(
+        Math.max(gridMinX, 0, -gridMaxX),
+        Math.max(gridMinY, 0, -gridMaxY)
+      );
+      const rings: string[] = [];
+      for (let r = step; r <= reach; r += step) {
+        if (r > nearest - step) rings.push(formatCoord(r));
+      }
+      coordinateSystem += `
+    \\foreach \\r in {${rings.join(',')}} \\draw[gray!25, thin] (0,0) circle (\\r);
+    \\foreach \\a in {0,${POLAR_GRID_ANGLE},...,${360 - POLAR_GRID_ANGLE}} \\draw[gray!25, thin] (0,0) -- (\\a:${formatCoord(reach)});`;
+    } else {
+      // Horizontal rows, and lines at 60° through the lattice points of row 0
+      const rowHeight = step * ISOMETRIC_ROW_HEIGHT;
+      const firstRow = Math.ceil(gridMinY / rowHeight);
+      const lastRow = Math.floor(gridMaxY / rowHeight);
+      const slant = Math.max(Math.abs(gridMinY), Math.abs(gridMaxY)) / Math.sqrt(3);
+      const firstLine = Math.floor((gridMinX - slant) / step);
+      const lastLine = Math.ceil((gridMaxX + slant) / step);
+      // Half the length of a slanted line that crosses every row
+      const half = formatCoord(Math.ceil((2 * slant) / step) * step);
+      const full = formatCoord(2 * Math.ceil((2 * slant) / step) * step);
+      coordinateSystem += `
+    \\foreach \\i in {${firstRow},...,${lastRow}} \\draw[gray!25, thin] (${formatCoord(gridMinX)},{\\i*sqrt(3)/2*${formatCoord(step)}}) -- (${formatCoord(gridMaxX)},{\\i*sqrt(3)/2*${formatCoord(step)}});
+    \\foreach \\k in {${firstLine},...,${lastLine}} \\draw[gray!25, thin] (240:${half}) ++(\\k*${formatCoord(step)},0) -- ++(60:${full}) (300:${half}) ++(\\k*${formatCoord(step)},0) -- ++(120:${full});`;
+    }
+
+    coordinateSystem += `
+  \\end{scope}`;
+  }
+
+  // Smart axis drawing with equal margins from grid boundaries
+  
+  // Standard margin from grid edges
+  const axisMargin = Math.min(stepX, stepY) * 0.3; // 30% of grid step as margin
+  
+  // X-axis: Draw if Y=0 line passes through bounds, span full grid with equal margins
+  if (bounds.minY <= 0 && bounds.maxY >= 0) {
+    const axisMinX = gridMinX + axisMargin;
+    const axisMaxX = gridMaxX - axisMargin;
+    
+    coordinateSystem += `
+  \\draw[->] (${formatCoord(axisMinX)},0) -- (${formatCoord(axisMaxX)},0) node[right] {$x$};`;
+  }
+  
+  // Y-axis: Draw if X=0 line passes through bounds, span full grid with equal margins
+  if (bounds.minX <= 0 && bounds.maxX >= 0) {
+    const axisMinY = gridMinY + axisMargin;
+    const axisMaxY = gridMaxY - axisMargin;
+    
+    coordinateSystem += `
+  \\draw[->] (0,${formatCoord(axisMinY)}) -- (0,${formatCoord(axisMaxY)}) node[above] {$y$};`;
+  }
+
+  // Origin point with smart positioning (only if origin is actually in bounds)
+  if (originInBounds) {
+    const originLabelPos = bounds.minX > -0.5 * scale && bounds.minY > -0.5 * scale ? 'above right' : 
+                          bounds.maxX < 0.5 * scale && bounds.minY > -0.5 * scale ? 'above left' :
+                          bounds.minX > -0.5 * scale && bounds.maxY < 0.5 * scale ? 'below right' : 'below left';
+    coordinateSystem += `
+  \\fill (0,0) circle (1pt) node[${originLabelPos}] {$O$};`;
+  }
+
+  // Smart tick marks and labels
+  
+  // X-axis ticks (only when Y=0 line is in bounds)
+  if (bounds.minY <= 0 && bounds.maxY >= 0) {
+    // Use the same axis bounds as the X-axis line
+    const axisMinX = gridMinX + axisMargin;
+    const axisMaxX = gridMaxX - axisMargin;
+    const xAxisRange = axisMaxX - axisMinX;
+    
+    // Determine tick spacing - aim for 8-12 ticks on the visible axis
+    const targetTicks = 10;
+    const roughTickSpacing = xAxisRange / targetTicks;
+    
+    // Round to nice numbers
+    let tickSpacingX;
+    if (roughTickSpacing <= 0.25) tickSpacingX = 0.25;
+    else if (roughTickSpacing <= 0.5) tickSpacingX = 0.5;
+    else if (roughTickSpacing <= 1) tickSpacingX = 1;
+    else if (roughTickSpacing <= 2) tickSpacingX = 2;
+    else if (roughTickSpacing <= 5) tickSpacingX = 5;
+    else tickSpacingX = Math.ceil(roughTickSpacing);
+    
+    // Generate ticks within axis bounds
+    const ticksX = [];
+    const startTick = Math.ceil(axisMinX / tickSpacingX) * tickSpacingX;
+    
+    for (let x = startTick; x <= axisMaxX; x += tickSpacingX) {
+      if (Math.abs(x) >= tickSpacingX * 0.1) { // Avoid zero tick
+        ticksX.push(x);
+      }
+    }
+    
+    if (ticksX.length > 0) {
+      ticksX.forEach(x => {
+        coordinateSystem += `
+  \\draw (${formatCoord(x)},0) +(0,-1.5pt) -- +(0,1.5pt) node[below] {\\footnotesize $${formatCoord(x)}$};`;
+      });
+    }
+  }
+  
+  // Y-axis ticks (only when X=0 line is in bounds)
+  if (bounds.minX <= 0 && bounds.maxX >= 0) {
+    // Use the same axis bounds as the Y-axis line
+    const axisMinY = gridMinY + axisMargin;
+    const axisMaxY = gridMaxY - axisMargin;
+    const yAxisRange = axisMaxY - axisMinY;
+    
+    // Determine tick spacing - aim for 8-12 ticks on the visible axis
+    const targetTicks = 10;
+    const roughTickSpacing = yAxisRange / targetTicks;
+    
+    // Round to nice numbers
+    let tickSpacingY;
+    if (roughTickSpacing <= 0.25) tickSpacingY = 0.25;
+    else if (roughTickSpacing <= 0.5) tickSpacingY = 0.5;
+    else if (roughTickSpacing <= 1) tickSpacingY = 1;
+    else if (roughTickSpacing <= 2) tickSpacingY = 2;
+    else if (roughTickSpacing <= 5) tickSpacingY = 5;
+    else tickSpacingY = Math.ceil(roughTickSpacing);
+    
+    // Generate ticks within axis bounds
+    const ticksY = [];
+    const startTick = Math.ceil(axisMinY / tickSpacingY) * tickSpacingY;
+    
+    for (let y = startTick; y <= axisMaxY; y += tickSpacingY) {
+      if (Math.abs(y) >= tickSpacingY * 0.1) { // Avoid zero tick
+        ticksY.push(y);
+      }
+    }
+    
+    if (ticksY.length > 0) {
+      ticksY.forEach(y => {
+        coordinateSystem += `
+  \\draw (0,${formatCoord(y)}) +(-1.5pt,0) -- +(1.5pt,0) node[left] {\\footnotesize $${formatCoord(y)}$};`;
+      });
+    }
+  }
+
+  return coordinateSystem;
+};
+
+// Generate complete TikZ code
+export const toTikZ = (objects: DrawingObject[], overrides: Partial<TikZOptions> = {}) => {
+  const options: TikZOptions = { ...defaultTikZOptions, ...overrides };
+  const { precision } = options;
+  const colorDefinitions = generateColorDefinitions(objects);
+  
+  // Numbers are in centimetres unless the x and y vectors say otherwise
+  const pictureOptions = options.unit === 'cm' ? '' : `[x=1${options.unit}, y=1${options.unit}]`;
+
+  // Check if any images exist to include graphicx package
+  const hasImages = objects.some(obj => obj.type === 'image' && obj.visible);
+  
+  const header = options.documentWrapper ? 
+    `\\documentclass[tikz,border=10pt]{standalone}
+\\usepackage{tikz}
+\\usepackage{xcolor}
+\\usepackage{ulem}${hasImages ? '\n\\usepackage{graphicx}' : ''}
+\\usetikzlibrary{arrows.meta}
+\\usetikzlibrary{shapes.geometric}
+\\usetikzlibrary{calc}
+\\usetikzlibrary{positioning}
+\\usetikzlibrary{angles,quotes}
+${colorDefinitions ? colorDefinitions + '\n' : ''}\\begin{document}
+\\begin{tikzpicture}${pictureOptions}` : 
+    `\\begin{tikzpicture}${pictureOptions}`;
+
+  const footer = options.documentWrapper ? 
+    `\\end{tikzpicture}
+\\end{document}` : 
+    `\\end{tikzpicture}`;
+
+  // Add coordinate system if enabled with dynamic bounds
+  const coordinateSystem = options.coordinates ? generateCoordinateSystem(objects, precision, options.gridType, options.unit) : '';
+
+  if (objects.length === 0) {
+    const body = `
+      
+  % No objects to draw
+  % Use the tools in the toolbar to create geometric shapes
+  `;
+    
+    return header + body + coordinateSystem + '\n' + footer;
+  }
+
+  // Sort objects by creation time to maintain drawing order
+  const sortedObjects = [...objects].sort((a, b) => a.createdAt - b.createdAt);
+  
+  const body = '\n' + sortedObjects.map(obj => generateObjectCode(obj, options)).filter(code => code.trim()).join('\n');
+
+  return header + coordinateSystem + body + '\n' + footer;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { toTikZ } from '@/lib/tikz';
+import { parseTikZ } from '@/lib/tikzImport';
+import { CM, circle, line, point } from '@/lib/testUtils';
+
+const picture = (body: string, options = '') => `\\begin{tikzpicture}${options}\n${body}\n\\end{tikzpicture}`;
+
+describe('parseTikZ', () => {
+  it('imports paths, circles, rectangles and nodes in canvas pixels', () => {
+    const { objects, issues } = parseTikZ(picture([
+      '\\draw[red, thick, ->] (0,0) -- (2,1);',
+      '\\filldraw[fill=blue] (0,0) -- (1,0) -- (0,1) -- cycle;',
+      '\\draw (1,1) circle (0.5);',
+      '\\draw (0,0) rectangle (2,-1);',
+      '\\node at (1,2) {Label};',
+    ].join('\n')));
+
+    expect(issues).toEqual([]);
+    expect(objects.map(obj => obj.type)).toEqual(['line', 'polygon', 'circle', 'rectangle', 'text']);
+    const [line, triangle, circle, rectangle, text] = objects;
+    expect(line).toMatchObject({ points: [{ x: 0, y: 0 }, { x: 2 * CM, y: -CM }], stroke: '#ef4444', arrowEnd: 'arrow' });
+    expect(triangle).toMatchObject({ points: [{ x: 0, y: 0 }, { x: CM, y: 0 }, { x: 0, y: -CM }], fill: '#3b82f6' });
+    expect(circle).toMatchObject({ position: { x: CM, y: -CM }, radius: CM / 2 });
+    expect(rectangle).toMatchObject({ position: { x: 0, y: 0 }, width: 2 * CM, height: CM });
+    expect(text).toMatchObject({ position: { x: CM, y: -2 * CM }, text: 'Label' });
+  });
+
+  it('resolves named, polar and relative coordinates', () => {
+    const { objects } = parseTikZ(picture([
+      '\\coordinate (A) at (1,1);',
+      '\\draw (A) -- ++(1,0) -- +(0,1) -- (90:2);',
+    ].join('\n')));
+
+    expect(objects[0].points).toEqual([{ x: CM, y: -CM }, { x: 2 * CM, y: -CM }, { x: 2 * CM, y: -2 * CM }, { x: 0, y: -2 * CM }]);
+  });
+
+  it('applies the scaling options of the picture and its scopes', () => {
+    const { objects, issues } = parseTikZ(picture([
+      '\\draw (0,0) -- (1,1);',
+      '\\begin{scope}[xscale=2]',
+      '\\draw (0,0) -- (1,1);',
+      '\\end{scope}',
+      '\\draw (0,0) circle (1);',
+    ].join('\n'), '[scale=0.5]'));
+
+    expect(issues).toEqual([]);
+    expect(objects[0].points?.[1]).toEqual({ x: CM / 2, y: -CM / 2 });
+    expect(objects[1].points?.[1]).toEqual({ x: CM, y: -CM / 2 });
+    expect(objects[2].radius).toBe(CM / 2);
+  });
+
+  it('uses the x and y vectors for numbers without a unit', () => {
+    const { objects } = parseTikZ(picture('\\draw (0,0) -- (1,1) -- (10mm,0);', '[x=2cm, y=0.5cm]'));
+    expect(objects[0].points).toEqual([{ x: 0, y: 0 }, { x: 2 * CM, y: -CM / 2 }, { x: CM, y: 0 }]);
+  });
+
+  it('drops a \\foreach without swallowing the next statement', () => {
+    const { objects, issues } = parseTikZ(picture([
+      '\\foreach \\x in {0,1,2} { \\draw (\\x,0) -- (\\x,1); }',
+      '\\draw (0,0) -- (1,0);',
+    ].join('\n')));
+
+    expect(objects).toHaveLength(1);
+    expect(objects[0].points).toEqual([{ x: 0, y: 0 }, { x: CM, y: 0 }]);
+    expect(issues).toEqual([expect.objectContaining({ line: 2, severity: 'error', message: "Unsupported command '\\foreach'" })]);
+  });
+
+  it('reports what it cannot import with the line it is on', () => {
+    const { objects, issues } = parseTikZ(picture([
+      '\\draw (0,0) -- (1,0);',
+      '\\draw (0,0) arc (0:90:1);',
+      '\\draw[wavy] (0,0) -- (0,1);',
+    ].join('\n')));
+
+    expect(objects).toHaveLength(2);
+    expect(issues).toEqual([
+      expect.objectContaining({ line: 3, severity: 'error', message: "Unsupported path operation 'arc'" }),
+      expect.objectContaining({ line: 4, severity: 'warning', message: "Unsupported option 'wavy' ignored" }),
+    ]);
+  });
+
+  it('reads back what the exporter writes', () => {
+    const style = { stroke: '#3b82f6' };
+    const drawing = [
+      point('a', { x: CM, y: -CM }, { ...style, name: 'A', showName: true }),
+      line('b', { x: 0, y: 0 }, { x: 2 * CM, y: -CM }, style),
+      circle('c', { x: CM, y: 0 }, 1.5 * CM, style),
+    ];
+    const { objects, issues } = parseTikZ(toTikZ(drawing));
+
+    expect(issues).toEqual([]);
+    expect(objects).toHaveLength(3);
+    expect(objects[0]).toMatchObject({ type: 'point', name: 'A', showName: true, position: drawing[0].position, stroke: '#3b82f6' });
+    expect(objects[1]).toMatchObject({ type: 'line', points: drawing[1].points });
+    expect(objects[2]).toMatchObject({ type: 'circle', position: drawing[2].position, radius: drawing[2].radius });
+  });
+});
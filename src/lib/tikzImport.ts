@@ -0,0 +1,973 @@
+import type { DrawingObject, Point } from '@/lib/store';
+import { PIXELS_PER_CM } from '@/lib/units';
+
+// Objects produced by the importer - ids and timestamps are assigned by the store
+export type ImportedObject = Omit<DrawingObject, 'id' | 'createdAt'>;
+
+export interface TikZImportIssue {
+  line: number; // 1-based line in the source where the statement starts
+  source: string; // The offending statement, trimmed
+  message: string;
+  severity: 'warning' | 'error'; // 'error' means the statement was dropped
+}
+
+export interface TikZImportResult {
+  objects: ImportedObject[];
+  issues: TikZImportIssue[];
+}
+
+// Length units accepted in coordinates and radii, expressed in cm
+const UNIT_TO_CM: Record<string, number> = {
+  cm: 1,
+  mm: 0.1,
+  pt: 2.54 / 72.27,
+  bp: 2.54 / 72,
+  in: 2.54,
+  ex: 0.1507,
+  em: 0.3514,
+};
+
+// Inverse of the exporter color map, plus the standard xcolor names
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  blue: '#3b82f6',
+  red: '#ef4444',
+  green: '#10b981',
+  orange: '#f59e0b',
+  violet: '#8b5cf6',
+  pink: '#ec4899',
+  gray: '#6b7280',
+  darkgray: '#1f2937',
+  lightgray: '#bfbfbf',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  yellow: '#ffff00',
+  brown: '#bf8040',
+  lime: '#bfff00',
+  olive: '#808000',
+  purple: '#bf0040',
+  teal: '#008080',
+};
+
+// Inverse of the exporter's stroke width keywords
+const LINE_WIDTH_KEYWORDS: Record<string, number> = {
+  'ultra thin': 0.5,
+  'very thin': 0.5,
+  'thin': 1,
+  'semithick': 2,
+  'thick': 3,
+  'very thick': 4,
+  'ultra thick': 5,
+};
+
+const ARROW_TIPS: Record<string, NonNullable<DrawingObject['arrowEnd']>> = {
+  '>': 'arrow',
+  '<': 'arrow',
+  'to': 'arrow',
+  'Stealth': 'stealth',
+  'stealth': 'stealth',
+  'Latex': 'latex',
+  'latex': 'latex',
+};
+
+// Commands whose statements run until ';' - every other command ends after its argument groups
+const PATH_COMMANDS = ['draw', 'fill', 'filldraw', 'path', 'node', 'coordinate', 'clip', 'shade', 'shadedraw', 'pattern', 'foreach'];
+
+// Path operations we recognise but cannot represent as DrawingObjects yet
+const UNSUPPORTED_OPERATIONS = ['arc', 'controls', 'to', 'grid', 'plot', 'ellipse', 'parabola', 'sin', 'cos', '|-', '-|', '..'];
+
+interface Statement {
+  text: string;
+  line: number;
+  comment?: string; // Single-word comment on the line directly above, used as the object name
+}
+
+interface StyleResult {
+  stroke?: string;
+  fill?: string;
+  color?: string;
+  strokeWidth?: number;
+  strokeStyle?: DrawingObject['strokeStyle'];
+  strokeOpacity?: number;
+  fillOpacity?: number;
+  arrowStart?: DrawingObject['arrowStart'];
+  arrowEnd?: DrawingObject['arrowEnd'];
+  fontSize?: number;
+  anchorCenter?: boolean;
+}
+
+// Coordinate system set by \begin{tikzpicture}[...] and \begin{scope}[...]: the x and y
+// vectors (in cm) for numbers without a unit, and the scale applied to every coordinate
+interface PictureFrame {
+  x: number;
+  y: number;
+  xScale: number;
+  yScale: number;
+}
+
+const DEFAULT_FRAME: PictureFrame = { x: 1, y: 1, xScale: 1, yScale: 1 };
+
+type Shape =
+  | { kind: 'polyline'; points: Point[]; closed: boolean }
+  | { kind: 'circle'; center: Point; radius: number; radiusUnit: string }
+  | { kind: 'rectangle'; from: Point; to: Point };
+
+class ImportError extends Error {}
+
+// Convert TikZ coordinates (cm, Y up) to canvas pixels (Y down) - inverse of canvasToTikZ
+export const tikzToCanvas = (point: Point): Point => ({
+  x: roundPixel(point.x * PIXELS_PER_CM),
+  y: roundPixel(-point.y * PIXELS_PER_CM),
+});
+
+// Convert a TikZ length in cm to pixels - inverse of pixelToTikZ
+export const tikzToPixel = (value: number) => roundPixel(value * PIXELS_PER_CM);
+
+const roundPixel = (value: number) => Math.round(value * 100) / 100 + 0;
+
+// Split the source into statements, keeping track of where each one starts
+const splitStatements = (source: string): Statement[] => {
+  const statements: Statement[] = [];
+  let line = 1;
+  let i = 0;
+  let lastComment: { text: string; line: number } | null = null;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '%') {
+      const end = source.indexOf('\n', i);
+      const text = source.slice(i + 1, end === -1 ? source.length : end).trim();
+      lastComment = { text, line };
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+
+    const startLine = line;
+    const comment = lastComment && lastComment.line === startLine - 1 && /^\S+$/.test(lastComment.text)
+      ? lastComment.text
+      : undefined;
+    lastComment = null;
+
+    // Preamble, environment and other non-path commands end after their argument groups
+    const commandMatch = /^\\([a-zA-Z]+)/.exec(source.slice(i));
+    if (commandMatch && !PATH_COMMANDS.includes(commandMatch[1])) {
+      let j = i + commandMatch[0].length;
+      while (j < source.length) {
+        const rest = source.slice(j);
+        const ws = /^[ \t]*/.exec(rest)![0].length;
+        const open = rest[ws];
+        if (open !== '{' && open !== '[') break;
+        const close = findClosing(source, j + ws, open, open === '{' ? '}' : ']');
+        if (close === -1) break;
+        j = close + 1;
+      }
+      statements.push({ text: source.slice(i, j).trim(), line: startLine });
+      line += countNewlines(source.slice(i, j));
+      i = j;
+      continue;
+    }
+
+    // Drawing statements run until the next ';' outside of braces. A \foreach with a braced
+    // body ends with that body instead; the group after 'in' is its list, not its body.
+    const isForeach = commandMatch?.[1] === 'foreach';
+    let depth = 0;
+    let inList = false;
+    let j = i;
+    let text = '';
+    while (j < source.length) {
+      const c = source[j];
+      if (c === '%' && source[j - 1] !== '\\') {
+        const end = source.indexOf('\n', j);
+        j = end === -1 ? source.length : end;
+        continue;
+      }
+      if (c === '\n') line++;
+      if (c === '{') {
+        if (depth === 0) inList = /\bin\s*$/.test(text);
+        depth++;
+      }
+      if (c === '}') depth = Math.max(0, depth - 1);
+      if (c === ';' && depth === 0) {
+        j++;
+        break;
+      }
+      text += c;
+      j++;
+      if (isForeach && c === '}' && depth === 0 && !inList) break;
+    }
+    statements.push({ text: text.replace(/\s+/g, ' ').trim(), line: startLine, comment });
+    i = j;
+  }
+
+  return statements;
+};
+
+const countNewlines = (text: string) => (text.match(/\n/g) || []).length;
+
+// Find the index of the bracket closing the one at `start`, honouring nesting
+const findClosing = (text: string, start: number, open: string, close: string) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === open) depth++;
+    else if (text[i] === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+// Split a comma separated list, ignoring commas nested in braces
+const splitTopLevel = (text: string, separator = ',') => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const c of text) {
+    if (c === '{' || c === '(') depth++;
+    if (c === '}' || c === ')') depth--;
+    if (c === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const stripBraces = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') && trimmed.endsWith('}') ? trimmed.slice(1, -1).trim() : trimmed;
+};
+
+// Parse a length such as "1.5", "-2cm" or "3pt" into cm. `unit` is empty for plain
+// numbers, which count as cm here and follow the picture's x and y vectors in coordinates.
+const parseLength = (raw: string): { value: number; unit: string } => {
+  const match = /^\s*(-?(?:\d+\.?\d*|\.\d+))\s*([a-z]{2})?\s*$/.exec(stripBraces(raw));
+  if (!match) {
+    throw new ImportError(`Unsupported length or expression '${raw.trim()}'`);
+  }
+  const unit = match[2] || '';
+  const factor = unit ? UNIT_TO_CM[unit] : 1;
+  if (factor === undefined) {
+    throw new ImportError(`Unknown unit '${unit}'`);
+  }
+  return { value: parseFloat(match[1]) * factor, unit };
+};
+
+// Parse the inside of a coordinate: "x,y", "angle:radius" or a named coordinate.
+// Named coordinates are stored already placed in the picture, so the frame is not applied again.
+const parseCoordinate = (raw: string, named: Map<string, Point>, frame: PictureFrame): Point => {
+  const body = raw.trim();
+  const parts = splitTopLevel(body);
+  if (parts.length === 2) {
+    const x = parseLength(parts[0]);
+    const y = parseLength(parts[1]);
+    return {
+      x: (x.unit ? x.value : x.value * frame.x) * frame.xScale,
+      y: (y.unit ? y.value : y.value * frame.y) * frame.yScale,
+    };
+  }
+  const polar = splitTopLevel(body, ':');
+  if (polar.length === 2) {
+    const angle = parseFloat(stripBraces(polar[0]));
+    if (isNaN(angle)) throw new ImportError(`Unsupported polar angle '${polar[0]}'`);
+    const radius = parseLength(polar[1]);
+    const rad = (angle * Math.PI) / 180;
+    return {
+      x: radius.value * Math.cos(rad) * (radius.unit ? 1 : frame.x) * frame.xScale,
+      y: radius.value * Math.sin(rad) * (radius.unit ? 1 : frame.y) * frame.yScale,
+    };
+  }
+  const namedPoint = named.get(body);
+  if (namedPoint) return namedPoint;
+  throw new ImportError(`Unknown coordinate '(${body})'`);
+};
+
+// Apply the options of \begin{tikzpicture} or \begin{scope} to the enclosing frame. Only
+// scaling is supported; other options (styles, shifts, rotations) are reported and ignored.
+const parsePictureOptions = (raw: string, outer: PictureFrame, warn: (message: string) => void): PictureFrame => {
+  const frame = { ...outer };
+  for (const option of splitTopLevel(raw)) {
+    if (!option) continue;
+    const eq = option.indexOf('=');
+    const key = (eq === -1 ? option : option.slice(0, eq)).trim();
+    const value = eq === -1 ? '' : option.slice(eq + 1).trim();
+    try {
+      switch (key) {
+        case 'scale':
+        case 'xscale':
+        case 'yscale': {
+          const factor = parseFloat(stripBraces(value));
+          if (isNaN(factor) || factor === 0) throw new ImportError(`Unsupported ${key} '${value}'`);
+          if (key !== 'yscale') frame.xScale *= factor;
+          if (key !== 'xscale') frame.yScale *= factor;
+          break;
+        }
+        case 'x':
+        case 'y': {
+          // Vectors such as x={(1,0.5)} would skew the picture
+          const length = parseLength(value);
+          frame[key] = length.value;
+          break;
+        }
+        default:
+          warn(`Unsupported picture option '${option}' ignored`);
+      }
+    } catch (e) {
+      if (!(e instanceof ImportError)) throw e;
+      warn(`Unsupported picture option '${option}' ignored`);
+    }
+  }
+  return frame;
+};
+
+// Resolve a TikZ color expression to a hex value
+const parseColor = (raw: string, customColors: Map<string, string>): string | null => {
+  const value = raw.trim();
+  if (value === 'none') return 'transparent';
+  const custom = customColors.get(value);
+  if (custom) return custom;
+  if (NAMED_COLORS[value]) return NAMED_COLORS[value];
+
+  // Exporter naming scheme: customcolorRRGGBB
+  const exported = /^customcolor([0-9A-Fa-f]{6})$/.exec(value);
+  if (exported) return `#${exported[1].toLowerCase()}`;
+
+  // xcolor mixes like red!50 or red!30!blue
+  const mix = /^([a-zA-Z]+)!(\d+(?:\.\d+)?)(?:!([a-zA-Z]+))?$/.exec(value);
+  if (mix) {
+    const base = parseColor(mix[1], customColors);
+    const other = parseColor(mix[3] || 'white', customColors);
+    if (!base || !other || base === 'transparent' || other === 'transparent') return null;
+    return mixColors(base, other, parseFloat(mix[2]) / 100);
+  }
+
+  return null;
+};
+
+const mixColors = (a: string, b: string, ratio: number) => {
+  const channel = (hex: string, index: number) => parseInt(hex.slice(1 + index * 2, 3 + index * 2), 16);
+  const mixed = [0, 1, 2].map(index =>
+    Math.round(channel(a, index) * ratio + channel(b, index) * (1 - ratio))
+      .toString(16)
+      .padStart(2, '0')
+  );
+  return `#${mixed.join('')}`;
+};
+
+// Parse an option such as "->" or "{Stealth}-{Latex}" into arrow tips
+const parseArrowSpec = (option: string) => {
+  const match = /^(\{?[A-Za-z<>]*\}?)-(\{?[A-Za-z<>]*\}?)$/.exec(option.replace(/\s+/g, ''));
+  if (!match) return null;
+  const toTip = (raw: string) => {
+    const tip = raw.replace(/[{}]/g, '');
+    if (!tip) return 'none' as const;
+    return ARROW_TIPS[tip] || 'arrow';
+  };
+  return { arrowStart: toTip(match[1]), arrowEnd: toTip(match[2]) };
+};
+
+// Translate a TikZ option list into DrawingObject style properties
+const parseOptions = (
+  raw: string,
+  customColors: Map<string, string>,
+  warn: (message: string) => void
+): StyleResult => {
+  const style: StyleResult = {};
+
+  for (const option of splitTopLevel(raw)) {
+    if (!option) continue;
+    const eq = option.indexOf('=');
+    const key = (eq === -1 ? option : option.slice(0, eq)).trim();
+    const value = eq === -1 ? '' : option.slice(eq + 1).trim();
+
+    if (eq === -1) {
+      const color = parseColor(key, customColors);
+      if (color) {
+        style.color = color;
+        continue;
+      }
+      if (LINE_WIDTH_KEYWORDS[key] !== undefined) {
+        style.strokeWidth = LINE_WIDTH_KEYWORDS[key];
+        continue;
+      }
+      if (/dash ?dot|dashdotted/.test(key)) {
+        style.strokeStyle = 'dashdot';
+        continue;
+      }
+      if (/dashed$/.test(key)) {
+        style.strokeStyle = 'dashed';
+        continue;
+      }
+      if (/dotted$/.test(key)) {
+        style.strokeStyle = 'dotted';
+        continue;
+      }
+      if (key === 'solid') {
+        style.strokeStyle = 'solid';
+        continue;
+      }
+      const arrows = parseArrowSpec(key);
+      if (arrows) {
+        style.arrowStart = arrows.arrowStart;
+        style.arrowEnd = arrows.arrowEnd;
+        continue;
+      }
+      warn(`Unsupported option '${key}' ignored`);
+      continue;
+    }
+
+    switch (key) {
+      case 'color':
+      case 'draw':
+      case 'fill': {
+        const color = parseColor(value, customColors);
+        if (!color) {
+          warn(`Unknown color '${value}' ignored`);
+        } else if (key === 'fill') {
+          style.fill = color;
+        } else {
+          style.stroke = color;
+        }
+        break;
+      }
+      case 'line width': {
+        try {
+          // The exporter writes line width = strokeWidth * 0.5pt
+          const { value: cm } = parseLength(value.endsWith('pt') ? value : `${value}pt`);
+          style.strokeWidth = Math.round((cm / UNIT_TO_CM.pt) * 2 * 2) / 2;
+        } catch (e) {
+          warn((e as Error).message);
+        }
+        break;
+      }
+      case 'opacity':
+        style.strokeOpacity = parseFloat(value);
+        style.fillOpacity = parseFloat(value);
+        break;
+      case 'draw opacity':
+        style.strokeOpacity = parseFloat(value);
+        break;
+      case 'fill opacity':
+        style.fillOpacity = parseFloat(value);
+        break;
+      case 'font': {
+        const size = /\\fontsize\{([\d.]+)pt\}/.exec(value);
+        if (size) {
+          style.fontSize = parseFloat(size[1]);
+        } else {
+          warn(`Unsupported font '${value}' ignored`);
+        }
+        break;
+      }
+      case 'anchor':
+        style.anchorCenter = value === 'center';
+        break;
+      default:
+        warn(`Unsupported option '${key}=${value}' ignored`);
+    }
+  }
+
+  return style;
+};
+
+// Strip \textbf / \textit / \uline wrappers into text style flags
+const parseNodeText = (raw: string) => {
+  let text = raw.trim();
+  let fontWeight: 'normal' | 'bold' = 'normal';
+  let fontStyle: 'normal' | 'italic' = 'normal';
+  let textDecoration: 'none' | 'underline' = 'none';
+  let isMath = false;
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const wrapper = /^\\(textbf|textit|uline)\{([\s\S]*)\}$/.exec(text);
+    if (wrapper) {
+      if (wrapper[1] === 'textbf') fontWeight = 'bold';
+      if (wrapper[1] === 'textit') fontStyle = 'italic';
+      if (wrapper[1] === 'uline') textDecoration = 'underline';
+      text = wrapper[2];
+      changed = true;
+    }
+  }
+
+  const math = /^\$([\s\S]*)\$$/.exec(text);
+  if (math) {
+    isMath = true;
+    text = math[1];
+  }
+
+  return { text, fontWeight, fontStyle, textDecoration, isMath };
+};
+
+// Small cursor over a statement body
+class PathReader {
+  private pos = 0;
+  constructor(private readonly text: string) {}
+
+  skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  done() {
+    this.skipSpace();
+    return this.pos >= this.text.length;
+  }
+
+  peek(token: string) {
+    this.skipSpace();
+    return this.text.startsWith(token, this.pos);
+  }
+
+  peekWord(word: string) {
+    this.skipSpace();
+    return this.text.startsWith(word, this.pos) && !/[a-zA-Z]/.test(this.text[this.pos + word.length] || '');
+  }
+
+  consume(token: string) {
+    if (!this.peek(token)) return false;
+    this.pos += token.length;
+    return true;
+  }
+
+  // Read a balanced group starting with `open`
+  group(open: string, close: string) {
+    this.skipSpace();
+    if (this.text[this.pos] !== open) return null;
+    const end = findClosing(this.text, this.pos, open, close);
+    if (end === -1) throw new ImportError(`Unbalanced '${open}'`);
+    const content = this.text.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return content;
+  }
+
+  word() {
+    this.skipSpace();
+    const match = /^[a-zA-Z|\-.]+/.exec(this.text.slice(this.pos));
+    return match ? match[0] : '';
+  }
+
+  rest() {
+    return this.text.slice(this.pos).trim();
+  }
+}
+
+// Parse the path operations of a \draw/\fill/\filldraw statement
+const parsePath = (
+  reader: PathReader,
+  named: Map<string, Point>,
+  frame: PictureFrame,
+  warn: (message: string) => void
+): Shape[] => {
+  const shapes: Shape[] = [];
+  let current: Point | null = null;
+  let polyline: Point[] = [];
+
+  const flush = (closed: boolean) => {
+    if (polyline.length >= 2) {
+      shapes.push({ kind: 'polyline', points: polyline, closed });
+    }
+    polyline = [];
+  };
+
+  // Returns the resolved point and whether it moves the current position ('+' does not)
+  const readCoordinate = (): { point: Point; moves: boolean } | null => {
+    let relative: '' | '+' | '++' = '';
+    if (reader.consume('++')) relative = '++';
+    else if (reader.consume('+')) relative = '+';
+    const raw = reader.group('(', ')');
+    if (raw === null) {
+      if (relative) throw new ImportError('Expected a coordinate after relative prefix');
+      return null;
+    }
+    const point = parseCoordinate(raw, named, frame);
+    if (!relative) return { point, moves: true };
+    if (!current) throw new ImportError('Relative coordinate without a starting point');
+    return {
+      point: { x: current.x + point.x, y: current.y + point.y },
+      moves: relative === '++',
+    };
+  };
+
+  while (!reader.done()) {
+    if (reader.consume('--')) {
+      if (reader.peekWord('cycle')) {
+        reader.consume('cycle');
+        flush(true);
+        continue;
+      }
+      const next = readCoordinate();
+      if (!next) throw new ImportError(`Expected a coordinate after '--' near '${reader.rest()}'`);
+      if (polyline.length === 0 && current) polyline.push(current);
+      polyline.push(next.point);
+      if (next.moves) current = next.point;
+      continue;
+    }
+
+    if (reader.peekWord('circle')) {
+      reader.consume('circle');
+      if (!current) throw new ImportError("'circle' without a center");
+      const options = reader.group('[', ']');
+      let radius: { value: number; unit: string } | null = null;
+      if (options !== null) {
+        const radiusOption = splitTopLevel(options).find(o => o.startsWith('radius'));
+        if (radiusOption) radius = parseLength(radiusOption.split('=')[1]);
+      }
+      const rawRadius = reader.group('(', ')');
+      if (rawRadius !== null) {
+        if (/\band\b/.test(rawRadius)) throw new ImportError('Elliptical circles are not supported');
+        radius = parseLength(rawRadius);
+      }
+      if (!radius) throw new ImportError("'circle' without a radius");
+      // Radii without a unit follow the x and y vectors; every radius is scaled
+      const radiusX = (radius.unit ? radius.value : radius.value * frame.x) * frame.xScale;
+      const radiusY = (radius.unit ? radius.value : radius.value * frame.y) * frame.yScale;
+      if (Math.abs(Math.abs(radiusX) - Math.abs(radiusY)) > 1e-9) {
+        throw new ImportError('Circles stretched into ellipses by the picture options are not supported');
+      }
+      flush(false);
+      shapes.push({ kind: 'circle', center: current, radius: Math.abs(radiusX), radiusUnit: radius.unit });
+      continue;
+    }
+
+    if (reader.peekWord('rectangle')) {
+      reader.consume('rectangle');
+      if (!current) throw new ImportError("'rectangle' without a first corner");
+      const corner = readCoordinate();
+      if (!corner) throw new ImportError("'rectangle' without a second corner");
+      flush(false);
+      shapes.push({ kind: 'rectangle', from: current, to: corner.point });
+      if (corner.moves) current = corner.point;
+      continue;
+    }
+
+    if (reader.peekWord('node')) {
+      // Inline nodes (axis labels, annotations) have no DrawingObject counterpart
+      reader.consume('node');
+      reader.group('[', ']');
+      reader.group('(', ')');
+      reader.group('{', '}');
+      warn('Inline node on path ignored');
+      continue;
+    }
+
+    const unsupported = UNSUPPORTED_OPERATIONS.find(op =>
+      /^[a-z]/.test(op) ? reader.peekWord(op) : reader.peek(op)
+    );
+    if (unsupported) {
+      throw new ImportError(`Unsupported path operation '${unsupported}'`);
+    }
+
+    const next = readCoordinate();
+    if (!next) {
+      throw new ImportError(`Unexpected input '${reader.rest().slice(0, 30)}'`);
+    }
+    // A bare coordinate starts a new sub-path (move-to)
+    flush(false);
+    current = next.point;
+  }
+
+  flush(false);
+  return shapes;
+};
+
+// Build a DrawingObject from a parsed shape and path style
+const shapeToObject = (
+  shape: Shape,
+  command: string,
+  style: StyleResult
+): ImportedObject => {
+  const isFill = command === 'fill';
+  const isFillDraw = command === 'filldraw';
+  const baseColor = style.color || '#000000';
+  const stroke = isFill ? 'transparent' : style.stroke || baseColor;
+  const fill = style.fill || (isFill || isFillDraw ? baseColor : 'transparent');
+
+  const common = {
+    name: '',
+    visible: true,
+    selected: false,
+    showName: false,
+    stroke,
+    strokeWidth: style.strokeWidth ?? 2,
+    strokeStyle: style.strokeStyle,
+    strokeOpacity: style.strokeOpacity,
+    fill,
+    fillOpacity: style.fillOpacity,
+  };
+
+  switch (shape.kind) {
+    case 'polyline': {
+      const points = shape.points.map(tikzToCanvas);
+      if (shape.closed && points.length >= 3) {
+        return { ...common, type: 'polygon', position: points[0], points };
+      }
+      return {
+        ...common,
+        type: 'line',
+        fill: 'transparent',
+        position: points[0],
+        points,
+        arrowStart: style.arrowStart || 'none',
+        arrowEnd: style.arrowEnd || 'none',
+      };
+    }
+    case 'circle': {
+      // The exporter writes points as \fill (x,y) circle (strokeWidth * 0.6pt)
+      if ((isFill || isFillDraw) && shape.radiusUnit === 'pt') {
+        const color = style.fill || style.color || '#000000';
+        return {
+          ...common,
+          type: 'point',
+          position: tikzToCanvas(shape.center),
+          stroke: color,
+          strokeWidth: Math.round((shape.radius / UNIT_TO_CM.pt / 0.6) * 2) / 2,
+          strokeOpacity: 1,
+          fill: color,
+          fillOpacity: 1,
+        };
+      }
+      return {
+        ...common,
+        type: 'circle',
+        position: tikzToCanvas(shape.center),
+        radius: tikzToPixel(shape.radius),
+      };
+    }
+    case 'rectangle': {
+      const a = tikzToCanvas(shape.from);
+      const b = tikzToCanvas(shape.to);
+      return {
+        ...common,
+        type: 'rectangle',
+        position: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+        width: roundPixel(Math.abs(b.x - a.x)),
+        height: roundPixel(Math.abs(b.y - a.y)),
+      };
+    }
+  }
+};
+
+// Parse a \node statement into either a text object or a name label
+const parseNode = (
+  reader: PathReader,
+  named: Map<string, Point>,
+  frame: PictureFrame,
+  customColors: Map<string, string>,
+  warn: (message: string) => void
+) => {
+  let options = '';
+  let position: Point | null = null;
+  let content: string | null = null;
+
+  while (!reader.done()) {
+    const opts = reader.group('[', ']');
+    if (opts !== null) {
+      options += (options ? ',' : '') + opts;
+      continue;
+    }
+    if (reader.peekWord('at')) {
+      reader.consume('at');
+      const raw = reader.group('(', ')');
+      if (raw === null) throw new ImportError("Expected a coordinate after 'at'");
+      position = parseCoordinate(raw, named, frame);
+      continue;
+    }
+    const nodeName = reader.group('(', ')');
+    if (nodeName !== null) continue;
+    const text = reader.group('{', '}');
+    if (text !== null) {
+      content = text;
+      continue;
+    }
+    throw new ImportError(`Unexpected input '${reader.rest().slice(0, 30)}'`);
+  }
+
+  if (content === null) throw new ImportError('Node without text');
+  const style = parseOptions(options, customColors, warn);
+  return { style, position: position || { x: 0, y: 0 }, ...parseNodeText(content) };
+};
+
+// Parse \definecolor{name}{model}{spec}
+const parseDefineColor = (statement: string): [string, string] | null => {
+  const match = /^\\definecolor\s*\{([^}]+)\}\s*\{([^}]+)\}\s*\{([^}]+)\}/.exec(statement);
+  if (!match) return null;
+  const [, name, model, spec] = match;
+  const toHex = (values: number[]) => `#${values.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+  switch (model) {
+    case 'HTML':
+      return /^[0-9A-Fa-f]{6}$/.test(spec.trim()) ? [name, `#${spec.trim().toLowerCase()}`] : null;
+    case 'RGB':
+      return [name, toHex(spec.split(',').map(Number))];
+    case 'rgb':
+      return [name, toHex(spec.split(',').map(v => Number(v) * 255))];
+    case 'gray':
+      return [name, toHex([0, 0, 0].map(() => Number(spec) * 255))];
+    default:
+      return null;
+  }
+};
+
+// Parse a tikzpicture (optionally wrapped in a standalone document) into DrawingObjects
+export const parseTikZ = (source: string): TikZImportResult => {
+  const objects: ImportedObject[] = [];
+  const issues: TikZImportIssue[] = [];
+  const customColors = new Map<string, string>();
+  const named = new Map<string, Point>();
+  // Innermost tikzpicture or scope last
+  const frames: PictureFrame[] = [DEFAULT_FRAME];
+  // Object created by the previous statement, eligible to receive a name label
+  let lastObject: ImportedObject | null = null;
+
+  for (const statement of splitStatements(source)) {
+    const warn = (message: string, severity: TikZImportIssue['severity'] = 'warning') => {
+      issues.push({ line: statement.line, source: statement.text, message, severity });
+    };
+    const previousObject = lastObject;
+    lastObject = null;
+
+    const commandMatch = /^\\([a-zA-Z]+)\s*/.exec(statement.text);
+    if (!commandMatch) {
+      if (statement.text) warn('Not a TikZ command', 'error');
+      continue;
+    }
+    const command = commandMatch[1];
+    const reader = new PathReader(statement.text.slice(commandMatch[0].length));
+
+    try {
+      switch (command) {
+        case 'documentclass':
+        case 'usepackage':
+        case 'usetikzlibrary':
+        case 'centering':
+          break;
+
+        case 'begin': {
+          const environment = reader.group('{', '}')?.trim();
+          if (environment !== 'tikzpicture' && environment !== 'scope') break;
+          const options = reader.group('[', ']');
+          const outer = frames[frames.length - 1];
+          frames.push(options !== null ? parsePictureOptions(options, outer, warn) : outer);
+          break;
+        }
+
+        case 'end': {
+          const environment = reader.group('{', '}')?.trim();
+          if ((environment === 'tikzpicture' || environment === 'scope') && frames.length > 1) frames.pop();
+          break;
+        }
+
+        case 'definecolor': {
+          const color = parseDefineColor(statement.text);
+          if (color) {
+            customColors.set(color[0], color[1]);
+          } else {
+            warn('Unsupported color model', 'error');
+          }
+          break;
+        }
+
+        case 'coordinate': {
+          const name = reader.group('(', ')');
+          if (name === null || !reader.consume('at')) throw new ImportError('Expected \\coordinate (name) at (x,y)');
+          const raw = reader.group('(', ')');
+          if (raw === null) throw new ImportError("Expected a coordinate after 'at'");
+          named.set(name.trim(), parseCoordinate(raw, named, frames[frames.length - 1]));
+          break;
+        }
+
+        case 'draw':
+        case 'fill':
+        case 'filldraw':
+        case 'path': {
+          const options = reader.group('[', ']');
+          const style = options !== null ? parseOptions(options, customColors, warn) : {};
+          const shapes = parsePath(reader, named, frames[frames.length - 1], warn);
+          if (shapes.length === 0) {
+            warn('Path draws nothing', 'error');
+            break;
+          }
+          if (command === 'path') {
+            warn('\\path without draw or fill imported as \\draw');
+          }
+          shapes.forEach((shape, index) => {
+            const obj = shapeToObject(shape, command, style);
+            if (index === 0 && statement.comment) obj.name = statement.comment;
+            objects.push(obj);
+          });
+          if (shapes.length === 1) lastObject = objects[objects.length - 1];
+          break;
+        }
+
+        case 'node': {
+          const node = parseNode(reader, named, frames[frames.length - 1], customColors, warn);
+          const canvasPosition = tikzToCanvas(node.position);
+
+          // The exporter emits name labels as \node[anchor=center] at (...) {$name$} right after the object
+          if (node.style.anchorCenter && node.isMath && previousObject && !previousObject.showName) {
+            const label = parseNodeText(node.text);
+            previousObject.name = label.text;
+            previousObject.showName = true;
+            previousObject.nameStyle = {
+              fontWeight: label.fontWeight,
+              fontStyle: label.fontStyle,
+              color: node.style.color,
+            };
+            previousObject.namePosition = {
+              x: roundPixel(canvasPosition.x - previousObject.position.x),
+              y: roundPixel(canvasPosition.y - previousObject.position.y),
+            };
+            break;
+          }
+
+          objects.push({
+            type: 'text',
+            name: statement.comment || '',
+            visible: true,
+            selected: false,
+            showName: false,
+            position: canvasPosition,
+            stroke: node.style.color || node.style.stroke || '#000000',
+            strokeWidth: 1,
+            strokeOpacity: node.style.strokeOpacity,
+            fill: 'transparent',
+            text: node.text,
+            fontSize: node.style.fontSize || 16,
+            fontFamily: 'Arial',
+            fontWeight: node.fontWeight,
+            fontStyle: node.fontStyle,
+            textDecoration: node.textDecoration,
+            isMath: node.isMath,
+          });
+          break;
+        }
+
+        default:
+          warn(`Unsupported command '\\${command}'`, 'error');
+      }
+    } catch (e) {
+      if (e instanceof ImportError) {
+        warn(e.message, 'error');
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  return { objects, issues };
+};
@@ -0,0 +1,206 @@
+import type { DrawingObject, Point } from '@/lib/store';
+import { directionAngle, distance, normalizeArcEnd } from '@/lib/geometry';
+
+// Reflections, rotations, translations and dilations of drawing objects, in canvas
+// coordinates (pixels, Y down). Every one of them is a similarity, so circles stay circles
+// and angles keep their size.
+
+export type TransformKind = 'reflect' | 'rotate' | 'translate' | 'dilate';
+
+export interface Transform {
+  kind: TransformKind;
+  mirrorId?: string; // reflect: the mirror line
+  centerId?: string; // rotate, dilate: the centre point; the origin when unset
+  angle?: number; // rotate: degrees counter-clockwise, as in TikZ
+  vector?: Point; // translate: in pixels
+  factor?: number; // dilate: negative factors also turn through the centre
+}
+
+// Affine map (x, y) -> (a·x + c·y + e, b·x + d·y + f), in the order used by canvas
+// and SVG transforms (and TikZ's cm option)
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const applyMatrix = ([a, b, c, d, e, f]: Matrix, p: Point): Point => ({
+  x: a * p.x + c * p.y + e,
+  y: b * p.x + d * p.y + f,
+});
+
+// The map that applies `inner` first, then `outer`
+export const composeMatrices = (outer: Matrix, inner: Matrix): Matrix => {
+  const [a1, b1, c1, d1, e1, f1] = outer;
+  const [a2, b2, c2, d2, e2, f2] = inner;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+};
+
+// Linear map (a, b, c, d) that keeps `center` fixed
+const around = (center: Point, a: number, b: number, c: number, d: number): Matrix => [
+  a, b, c, d,
+  center.x - a * center.x - c * center.y,
+  center.y - b * center.x - d * center.y,
+];
+
+// The matrix of a transform with its mirror line and centre as they are now; null when
+// one of them is missing or unusable
+export const getTransformMatrix = (
+  transform: Transform,
+  getObject: (id?: string) => DrawingObject | undefined
+): Matrix | null => {
+  const center = transform.centerId ? getObject(transform.centerId)?.position : { x: 0, y: 0 };
+
+  switch (transform.kind) {
+    case 'reflect': {
+      const mirror = getObject(transform.mirrorId);
+      if (!mirror?.points || mirror.points.length < 2) return null;
+      const [p1, p2] = mirror.points;
+      const dx = p2.x - p1.x;
+      const dy = p2.y - p1.y;
+      const lengthSq = dx * dx + dy * dy;
+      if (lengthSq === 0) return null;
+      // Reflection in a line at angle φ: [cos 2φ, sin 2φ; sin 2φ, -cos 2φ]
+      const cos = (dx * dx - dy * dy) / lengthSq;
+      const sin = (2 * dx * dy) / lengthSq;
+      return around(p1, cos, sin, sin, -cos);
+    }
+
+    case 'rotate': {
+      if (!center) return null;
+      // Counter-clockwise on screen is clockwise in canvas coordinates
+      const radians = (-(transform.angle ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+      return around(center, cos, sin, -sin, cos);
+    }
+
+    case 'translate':
+      return [1, 0, 0, 1, transform.vector?.x ?? 0, transform.vector?.y ?? 0];
+
+    case 'dilate': {
+      if (!center) return null;
+      const factor = transform.factor ?? 1;
+      return around(center, factor, 0, 0, factor);
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Write the linear part as scale · rotation · (reflection in the x-axis when mirrored),
+// with the rotation in degrees clockwise on the canvas
+const decompose = ([a, b, c, d]: Matrix) => {
+  const determinant = a * d - b * c;
+  return {
+    scale: Math.sqrt(Math.abs(determinant)),
+    rotation: (Math.atan2(b, a) * 180) / Math.PI,
+    mirrored: determinant < 0,
+  };
+};
+
+// Does this transform keep rectangles axis-aligned whatever its mirror line or centre?
+export const keepsAxes = (transform: Transform) => transform.kind === 'translate' || transform.kind === 'dilate';
+
+// Geometry of the image of `obj` under `matrix`. `type` is the type of the copy, which is
+// 'polygon' for rectangles turned off the axes. Text stays upright and keeps its size.
+export const transformObject = (obj: DrawingObject, matrix: Matrix, type = obj.type): Partial<DrawingObject> => {
+  const map = (p: Point) => applyMatrix(matrix, p);
+  const { scale, rotation, mirrored } = decompose(matrix);
+  const updates: Partial<DrawingObject> = { position: map(obj.position) };
+  if (obj.points) updates.points = obj.points.map(map);
+  if (obj.controlPoints) updates.controlPoints = obj.controlPoints.map(map);
+
+  switch (obj.type) {
+    case 'circle':
+      updates.radius = (obj.radius || 30) * scale;
+      break;
+
+    case 'arc': {
+      // Arc angles are counter-clockwise with Y up; a mirror image runs the other way round
+      const start = obj.startAngle ?? 0;
+      const end = obj.endAngle ?? 90;
+      const startAngle = mirrored ? -rotation - end : start - rotation;
+      updates.radius = (obj.radius || 30) * scale;
+      updates.startAngle = startAngle;
+      updates.endAngle = normalizeArcEnd(startAngle, mirrored ? -rotation - start : end - rotation);
+      break;
+    }
+
+    case 'polygon':
+      // Regular polygons and stars stay regular, with their radii scaled
+      if (obj.sides) {
+        updates.radius = (obj.radius || 0) * scale;
+        if (obj.innerRadius !== undefined) updates.innerRadius = obj.innerRadius * scale;
+      }
+      break;
+
+    case 'ellipse':
+      updates.radiusX = (obj.radiusX || 40) * scale;
+      updates.radiusY = (obj.radiusY || 25) * scale;
+      updates.rotation = mirrored ? rotation - (obj.rotation ?? 0) : rotation + (obj.rotation ?? 0);
+      break;
+
+    case 'rectangle': {
+      const { x, y } = obj.position;
+      const width = obj.width || 80;
+      const height = obj.height || 60;
+      const corners = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }].map(map);
+      if (type === 'polygon') {
+        return { position: corners[0], points: corners };
+      }
+      const xs = corners.map(p => p.x);
+      const ys = corners.map(p => p.y);
+      return {
+        position: { x: Math.min(...xs), y: Math.min(...ys) },
+        width: Math.max(...xs) - Math.min(...xs),
+        height: Math.max(...ys) - Math.min(...ys),
+      };
+    }
+
+    case 'image': {
+      // Images turn about their centre, and a mirror image is the flipped image turned
+      const width = obj.width || 200;
+      const height = obj.height || 150;
+      const center = map({ x: obj.position.x + width / 2, y: obj.position.y + height / 2 });
+      updates.width = width * scale;
+      updates.height = height * scale;
+      updates.position = { x: center.x - updates.width / 2, y: center.y - updates.height / 2 };
+      updates.rotation = mirrored ? rotation - (obj.rotation ?? 0) + 180 : rotation + (obj.rotation ?? 0);
+      if (mirrored) updates.flipX = !obj.flipX;
+      break;
+    }
+
+    case 'function':
+    case 'parametric':
+    case 'polar':
+      // Curves are drawn from their expressions, so the copy keeps those and the map
+      updates.curveMatrix = composeMatrices(matrix, obj.curveMatrix ?? IDENTITY_MATRIX);
+      updates.expression = obj.expression;
+      updates.xExpression = obj.xExpression;
+      updates.yExpression = obj.yExpression;
+      updates.domainMin = obj.domainMin;
+      updates.domainMax = obj.domainMax;
+      updates.samples = obj.samples;
+      break;
+
+    case 'text':
+      updates.text = obj.text;
+      break;
+
+    case 'vector':
+      if (updates.points && updates.points.length >= 2) {
+        updates.magnitude = distance(updates.points[0], updates.points[1]);
+        updates.direction = directionAngle(updates.points[0], updates.points[1]);
+      }
+      break;
+  }
+
+  return updates;
+};
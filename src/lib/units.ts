@@ -0,0 +1,58 @@
+import type { CanvasSettings } from '@/lib/store';
+
+// Lengths are stored in canvas pixels; these helpers convert them to the units shown
+// in the app and written to TikZ. The canvas is drawn at 28px = 1cm.
+
+export type LengthUnit = 'cm' | 'mm' | 'pt' | 'in';
+
+export const LENGTH_UNITS: LengthUnit[] = ['cm', 'mm', 'pt', 'in'];
+
+export const PIXELS_PER_CM = 28;
+
+// Points are TeX points (72.27 to the inch), as in TikZ
+export const PIXELS_PER_UNIT: Record<LengthUnit, number> = {
+  cm: PIXELS_PER_CM,
+  mm: PIXELS_PER_CM / 10,
+  pt: (PIXELS_PER_CM * 2.54) / 72.27,
+  in: PIXELS_PER_CM * 2.54,
+};
+
+// Decimal places worth showing for a length in each unit
+export const UNIT_DECIMALS: Record<LengthUnit, number> = {
+  cm: 3,
+  mm: 2,
+  pt: 1,
+  in: 3,
+};
+
+// One major grid step in each unit, sized so the grid is about as dense whatever the unit
+export const MAJOR_GRID_STEP: Record<LengthUnit, number> = {
+  cm: 1,
+  mm: 10,
+  pt: 25,
+  in: 0.5,
+};
+
+export const GRID_SUBDIVISIONS = [1, 2, 4, 5, 10];
+
+export const toUnit = (pixels: number, unit: LengthUnit) => pixels / PIXELS_PER_UNIT[unit];
+
+export const fromUnit = (value: number, unit: LengthUnit) => value * PIXELS_PER_UNIT[unit];
+
+// A length in pixels as a number in `unit`, rounded for display
+export const roundToUnit = (pixels: number, unit: LengthUnit) => {
+  return Number(toUnit(pixels, unit).toFixed(UNIT_DECIMALS[unit]));
+};
+
+// A length in pixels as text in `unit`, e.g. "2.5 cm"
+export const formatLength = (pixels: number, unit: LengthUnit) => `${roundToUnit(pixels, unit)} ${unit}`;
+
+// Pixels between major grid lines, which carry the axis labels
+export const getMajorGridSpacing = (canvas: Pick<CanvasSettings, 'displayUnit'>) => {
+  return fromUnit(MAJOR_GRID_STEP[canvas.displayUnit], canvas.displayUnit);
+};
+
+// Pixels between grid lines (and grid snap points)
+export const getGridSpacing = (canvas: Pick<CanvasSettings, 'displayUnit' | 'gridSubdivision'>) => {
+  return getMajorGridSpacing(canvas) / canvas.gridSubdivision;
+};